@@ -3,7 +3,7 @@
 
 "use client";
 
-import { useState, useEffect, useCallback } from "react";
+import { useState, useEffect, useCallback, useMemo } from "react";
 import { WalletConnectButton } from "@/components/wallet-connect-button";
 import { HostSelector } from "@/components/host-selector";
 import { ChatInterface } from "@/components/chat-interface";
@@ -17,6 +17,7 @@ import { useHosts } from "@/hooks/use-hosts";
 import { useChatSession } from "@/hooks/use-chat-session";
 import { useBalances, useHasSufficientBalance } from "@/hooks/use-balances";
 import { useBaseAccount } from "@/hooks/use-base-account";
+import { useTokenApprovals } from "@/hooks/use-token-approvals";
 import { useGlobalKeyboardShortcuts } from "@/hooks/use-keyboard-shortcuts";
 import { useSessionRecovery, useAutoSaveSession } from "@/hooks/use-session-recovery";
 import { SessionRecoveryBanner } from "@/components/session-recovery-banner";
@@ -27,6 +28,27 @@ import { SetupWizard } from "@/components/setup-wizard";
 import { CompactHeader } from "@/components/compact-header";
 import { AdvancedSettingsPanel } from "@/components/advanced-settings-panel";
 import { ModelSelector } from "@/components/model-selector";
+import { PersonaSelector } from "@/components/persona-selector";
+import { PromptLibrary } from "@/components/prompt-library";
+import { CompareMode } from "@/components/compare-mode";
+import { CheckpointTimeline } from "@/components/checkpoint-timeline";
+import { findPersona, PersonaPreset } from "@/lib/personas";
+import { getAllPromptTemplates, PromptTemplate } from "@/lib/prompt-templates";
+import { ConversationHistorySidebar } from "@/components/conversation-history-sidebar";
+import { useS5Storage, StoredConversation, toStoredConversation } from "@/hooks/use-s5-storage";
+import { ConversationExportMenu } from "@/components/conversation-export-menu";
+import { parseConversationExport } from "@/lib/conversation-export";
+import {
+  ConversationTree,
+  BranchInfo,
+  restoreTree,
+  selectPathTo,
+  getActivePath,
+  getBranchInfo,
+  switchBranch as switchBranchInTree,
+} from "@/lib/conversation-tree";
+import { ChatMessage, PaymentToken } from "@/types/chat";
+import { SESSION_DEPOSIT_AMOUNTS } from "@/lib/pricing";
 import { OfflineBanner } from "@/components/offline-banner";
 import { PageLoading } from "@/components/loading-states";
 import { SettingsErrorState } from "@/components/empty-states";
@@ -35,7 +57,7 @@ import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } f
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import { Loader2, RefreshCw, Sparkles, Zap, Wallet } from "lucide-react";
+import { Loader2, RefreshCw, Sparkles, Zap, Wallet, History, Eye, Play, X, Columns2 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 
 export default function ChatPage() {
@@ -78,6 +100,14 @@ export default function ChatPage() {
   const effectiveSessionManager = baseAccountSdk?.getSessionManager() || sessionManager;
   const effectivePaymentManager = baseAccountSdk?.getPaymentManager() || paymentManager;
   const effectiveStorageManager = baseAccountSdk?.getStorageManager() || storageManager;
+  // Resolves the model IDs hosts advertise (getter throws until the SDK is authenticated)
+  const effectiveModelManager = (() => {
+    try {
+      return (baseAccountSdk || sdk)?.getModelManager?.() ?? null;
+    } catch {
+      return null;
+    }
+  })();
 
   // Debug: Log which managers are being used
   useEffect(() => {
@@ -115,6 +145,25 @@ export default function ChatPage() {
 
   // Header modal states
   const [showModelSelector, setShowModelSelector] = useState(false);
+  const [showPersonaSelector, setShowPersonaSelector] = useState(false);
+  const [showPromptLibrary, setShowPromptLibrary] = useState(false);
+  // Preset the current system prompt came from (undefined = custom or none)
+  const [activePersonaId, setActivePersonaId] = useState<string | undefined>(undefined);
+
+  // Conversation history sidebar
+  const [showHistory, setShowHistory] = useState(false);
+  const [historyConversations, setHistoryConversations] = useState<StoredConversation[]>([]);
+  const [isLoadingHistory, setIsLoadingHistory] = useState(false);
+  // Saved conversation opened read-only from the sidebar
+  const [viewingConversation, setViewingConversation] = useState<{
+    id: string;
+    tree: ConversationTree;
+    stored: StoredConversation; // As loaded, for export
+    systemPrompt?: string;
+    highlightMessageId?: string; // Search hit to jump to
+  } | null>(null);
+  // Two sessions side by side (see components/compare-mode)
+  const [compareMode, setCompareMode] = useState(false);
   const [showDepositModal, setShowDepositModal] = useState(false);
   const [showHostSelector, setShowHostSelector] = useState(false);
   const [isSelectingHost, setIsSelectingHost] = useState(false);
@@ -150,7 +199,7 @@ export default function ChatPage() {
     discoverHosts,
     selectHostForModel,
     restoreHostByAddress,
-  } = useHosts(effectiveHostManager);
+  } = useHosts(effectiveHostManager, effectiveModelManager);
 
   // Check if user is first-time (settings === null) after settings load
   useEffect(() => {
@@ -266,14 +315,52 @@ export default function ChatPage() {
 
   const {
     messages,
+    conversationTree,
     sessionId,
     totalTokens,
     totalCost,
+    sessionPaymentToken,
+    sessionTokens,
+    sessionSpent,
+    spendingCap,
+    quotaUsage,
+    depositStatus,
+    checkpoints,
+    checkpointReconciliation,
+    topUpSession,
+    isToppingUp,
+    canTopUp,
+    rolloverSession,
+    isRollingOver,
+    sessionDeposit,
+    sessionJobId,
+    reconnectSession,
+    isReconnecting,
     isSessionActive,
+    isPaused,
+    pausedSession,
+    pauseSession,
+    isPausing,
+    resumeSession,
+    isResuming,
     startSession,
     isStartingSession,
     sendMessage,
     isSendingMessage,
+    queuedPrompts,
+    isOnline: isBrowserOnline,
+    cancelQueuedPrompt,
+    editQueuedPrompt,
+    retryQueuedPrompts,
+    stopGeneration,
+    regenerateMessage,
+    editMessage,
+    switchBranch,
+    branchInfo,
+    systemPrompt,
+    setSystemPrompt,
+    contextWindow,
+    restoreConversation,
     endSession,
     isEndingSession,
     showSuccessAnimation,
@@ -291,16 +378,178 @@ export default function ChatPage() {
     accountInfo?.subAccount || userAddress
   );
 
-  // Check if user has sufficient balance to start a session
-  const { hasEnough, balance, primaryBalance, checkingAddress, isLoading: isCheckingBalance } = useHasSufficientBalance(
+  // USDC allowances held by the marketplace (sessions approve through the same account)
+  const {
+    allowances,
+    isLoading: isLoadingAllowances,
+    refetch: refetchAllowances,
+    revokeAllowance,
+    isRevoking: isRevokingAllowance,
+  } = useTokenApprovals(effectivePaymentManager, accountInfo?.subAccount || userAddress);
+
+  // A new session may have approved (and its deposit used) some allowance
+  useEffect(() => {
+    if (sessionId) refetchAllowances();
+  }, [sessionId, refetchAllowances]);
+
+  // USDC balances (header, settings and the USDC deposit prompt)
+  const { hasEnough: hasEnoughUSDC, balance, primaryBalance } = useHasSufficientBalance(
     accountInfo,
     userAddress,
     2.0 // $2 USDC minimum for session
   );
 
+  // Check if user has sufficient balance to start a session in the preferred token
+  const sessionStartToken: PaymentToken = settings?.preferredPaymentToken === 'ETH' ? 'ETH' : 'USDC';
+  const {
+    hasEnough,
+    balance: sessionStartBalance,
+    checkingAddress,
+    isLoading: isCheckingBalance,
+  } = useHasSufficientBalance(
+    accountInfo,
+    userAddress,
+    Number(SESSION_DEPOSIT_AMOUNTS[sessionStartToken]),
+    sessionStartToken
+  );
+
   // Derive model name for header
   const currentModelName = settings?.selectedModel || selectedHost?.models[0] || 'No model selected';
 
+  // Apply the default persona to a fresh conversation
+  useEffect(() => {
+    if (messages.length > 0) return;
+
+    const persona = findPersona(settings?.selectedPersonaId, settings?.personas);
+    if (persona) {
+      console.log('[Persona] Applying default persona:', persona.name);
+      setSystemPrompt(persona.systemPrompt);
+      setActivePersonaId(persona.id);
+    }
+  }, [settings?.selectedPersonaId]);
+
+  // History listing only needs the storage manager (no session or host)
+  const { listConversations, loadConversation, importConversation } = useS5Storage(effectiveStorageManager, null, null);
+
+  const refreshHistory = useCallback(async () => {
+    setIsLoadingHistory(true);
+    try {
+      const conversations = await listConversations();
+      setHistoryConversations((conversations || []) as StoredConversation[]);
+    } finally {
+      setIsLoadingHistory(false);
+    }
+  }, [listConversations]);
+
+  // Reload when the sidebar opens and after a session ends (its conversation was just saved)
+  useEffect(() => {
+    if (showHistory && !isSessionActive) {
+      refreshHistory();
+    }
+  }, [showHistory, isSessionActive, refreshHistory]);
+
+  const handleOpenConversation = async (conversationId: string, messageId?: string) => {
+    const conversation = await loadConversation(conversationId);
+    if (!conversation) {
+      toast({
+        title: "Could not open conversation",
+        description: "The conversation could not be loaded from S5 storage.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const tree = restoreTree(
+      conversation.messages.map((m) => ({ ...m, status: "complete" as const })) as ChatMessage[],
+      conversation.selectedChildren
+    );
+
+    setViewingConversation({
+      id: conversation.id,
+      stored: conversation,
+      // A search hit may sit on an inactive branch
+      tree: messageId ? selectPathTo(tree, messageId) : tree,
+      systemPrompt: conversation.systemPrompt,
+      highlightMessageId: messageId,
+    });
+  };
+
+  const handleImportConversation = async (file: File) => {
+    try {
+      const conversation = parseConversationExport(await file.text());
+      const imported = await importConversation(conversation);
+      if (!imported) throw new Error("Storage is not available");
+
+      toast({
+        title: "Conversation imported",
+        description: `${conversation.messages.length} messages added to your history`,
+      });
+      await refreshHistory();
+    } catch (error: any) {
+      toast({
+        title: "Import failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Snapshot of the live conversation in the stored format, for export
+  const getCurrentConversation = useCallback(
+    (): StoredConversation | null =>
+      conversationTree.messages.length === 0
+        ? null
+        : toStoredConversation(
+            sessionId?.toString() ?? `draft-${Date.now()}`,
+            conversationTree,
+            {
+              totalTokens,
+              totalCost,
+              paymentToken: sessionPaymentToken,
+              model: settings?.selectedModel || selectedHost?.models?.[0] || "unknown",
+              provider: selectedHost?.address || "unknown",
+            },
+            systemPrompt
+          ),
+    [
+      conversationTree,
+      sessionId,
+      totalTokens,
+      totalCost,
+      sessionPaymentToken,
+      settings?.selectedModel,
+      selectedHost,
+      systemPrompt,
+    ]
+  );
+
+  // Load the saved conversation into the chat and start a fresh session to continue it
+  const handleContinueConversation = () => {
+    if (!viewingConversation) return;
+
+    restoreConversation(viewingConversation.tree, viewingConversation.systemPrompt);
+    setActivePersonaId(undefined);
+    setViewingConversation(null);
+    startSession();
+  };
+
+  const viewingMessages = useMemo(
+    () => (viewingConversation ? getActivePath(viewingConversation.tree) : []),
+    [viewingConversation]
+  );
+  const viewingBranchInfo = useMemo(() => {
+    const info: Record<string, BranchInfo> = {};
+    if (!viewingConversation) return info;
+    for (const message of viewingMessages) {
+      info[message.id!] = getBranchInfo(viewingConversation.tree, message.id!);
+    }
+    return info;
+  }, [viewingConversation, viewingMessages]);
+
+  const currentPersonaName =
+    findPersona(activePersonaId, settings?.personas)?.name ||
+    (systemPrompt.trim() ? 'Custom' : undefined);
+
   // Keyboard shortcuts
   useGlobalKeyboardShortcuts(
     () => {
@@ -314,26 +563,48 @@ export default function ChatPage() {
     }
   );
 
-  // Session recovery
+  // Session recovery (checks the saved session's job on-chain)
   const {
     recoveredSession,
+    recoveryStatus,
+    jobState,
+    recoveryError,
+    verifySession,
     saveSession,
     clearSession,
     dismissRecovery,
     hasRecoverableSession,
-  } = useSessionRecovery();
+  } = useSessionRecovery({ sessionManager: effectiveSessionManager });
 
   // Auto-save session state
-  useAutoSaveSession(sessionId, messages, selectedHost, totalTokens, totalCost);
-
-  // Handler for recovering session
+  useAutoSaveSession(sessionId, conversationTree, selectedHost, totalTokens, totalCost, {
+    jobId: sessionJobId ?? undefined,
+    paymentToken: sessionPaymentToken,
+    deposit: sessionDeposit,
+    sessionTokens,
+    sessionSpent,
+    systemPrompt,
+  });
+
+  // Handler for recovering session: reconnect to the host if the job is still open
   const handleRecoverSession = () => {
-    if (!recoveredSession) return;
+    if (!recoveredSession || recoveryStatus !== "open" || !jobState) return;
 
-    // Note: In production, you would need to re-authenticate with the SDK
-    // and restore the session state. For now, we just dismiss the banner.
-    console.log("Recovering session:", recoveredSession);
-    dismissRecovery();
+    console.log("Recovering session:", recoveredSession.sessionId);
+    setSelectedHost(recoveredSession.selectedHost);
+    reconnectSession(
+      { session: recoveredSession, job: jobState },
+      { onSuccess: () => dismissRecovery() }
+    );
+  };
+
+  // A settled session has nothing left to recover
+  const handleDismissRecovery = () => {
+    if (recoveryStatus === "settled") {
+      clearSession();
+    } else {
+      dismissRecovery();
+    }
   };
 
   // Handler for Base Account connection
@@ -499,6 +770,9 @@ export default function ChatPage() {
           modelName={currentModelName}
           primaryBalance={primaryBalance}
           onModelClick={() => setShowModelSelector(true)}
+          personaName={currentPersonaName}
+          onPersonaClick={() => setShowPersonaSelector(true)}
+          onPromptsClick={() => setShowPromptLibrary(true)}
           onBalanceClick={() => setShowDepositModal(true)}
         />
       )}
@@ -509,6 +783,7 @@ export default function ChatPage() {
           <div className="container mx-auto max-w-6xl">
             <OfflineBanner
               pendingUpdates={0} // TODO: Get actual count from sync queue
+              queuedPrompts={queuedPrompts.length}
               onRetry={() => {
                 // Trigger manual refresh
                 window.location.reload();
@@ -588,8 +863,13 @@ export default function ChatPage() {
           <div className="max-w-4xl mx-auto">
             <SessionRecoveryBanner
               session={recoveredSession}
+              status={recoveryStatus}
+              job={jobState}
+              error={recoveryError}
+              isReconnecting={isReconnecting}
               onRecover={handleRecoverSession}
-              onDismiss={dismissRecovery}
+              onRetry={verifySession}
+              onDismiss={handleDismissRecovery}
             />
           </div>
         )}
@@ -768,7 +1048,7 @@ export default function ChatPage() {
         )}
 
         {/* USDC Deposit (Base Account only, when balance insufficient) */}
-        {accountInfo?.isUsingBaseAccount && accountInfo.primaryAccount && selectedHost && !hasEnough && (
+        {accountInfo?.isUsingBaseAccount && accountInfo.primaryAccount && selectedHost && sessionStartToken === 'USDC' && !hasEnoughUSDC && (
           <div className="max-w-4xl mx-auto">
             <USDCDeposit
               primaryAccount={accountInfo.primaryAccount}
@@ -787,42 +1067,196 @@ export default function ChatPage() {
           <div className="max-w-6xl mx-auto">
             <PaymentModeTabs defaultMode="usdc" compact={true}>
               <div className="space-y-4">
-                {/* Session Controls - Compact inline layout */}
-                <div className="flex items-center justify-center py-3">
-                  <SessionControls
-                    isSessionActive={isSessionActive}
-                    onStartSession={startSession}
-                    onEndSession={endSession}
-                    isStarting={isStartingSession}
-                    isEnding={isEndingSession}
-                    disabled={!selectedHost}
-                    insufficientBalance={{
-                      hasEnough,
-                      balance,
-                      address: checkingAddress,
-                      isUsingBaseAccount: accountInfo?.isUsingBaseAccount ?? false,
-                    }}
+                {compareMode ? (
+                  <CompareMode
+                    sessionManager={effectiveSessionManager}
+                    paymentManager={effectivePaymentManager}
+                    storageManager={effectiveStorageManager}
+                    userAddress={accountInfo?.subAccount || userAddress}
+                    hosts={availableHosts}
+                    defaultHost={selectedHost}
+                    settings={settings}
+                    systemPrompt={systemPrompt}
+                    onExit={() => setCompareMode(false)}
                   />
-                </div>
+                ) : (
+                  <>
+                    {/* Session Controls - Compact inline layout */}
+                    <div className="relative flex items-center justify-center py-3">
+                      <div className="absolute left-0 top-3 flex gap-1">
+                        <Button
+                          variant={showHistory ? "secondary" : "ghost"}
+                          size="sm"
+                          onClick={() => setShowHistory(!showHistory)}
+                        >
+                          <History className="h-4 w-4 mr-2" />
+                          History
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => {
+                            setViewingConversation(null);
+                            setCompareMode(true);
+                          }}
+                          disabled={isSessionActive || isStartingSession || availableHosts.length === 0}
+                          title={isSessionActive ? "End the current session first" : "Compare two hosts or models side by side"}
+                        >
+                          <Columns2 className="h-4 w-4 mr-2" />
+                          Compare
+                        </Button>
+                      </div>
+                      {!viewingConversation && (
+                        <div className="absolute right-0 top-3">
+                          <ConversationExportMenu
+                            getConversation={getCurrentConversation}
+                            disabled={messages.length === 0}
+                          />
+                        </div>
+                      )}
+                      <SessionControls
+                        isSessionActive={isSessionActive}
+                        onStartSession={startSession}
+                        onEndSession={endSession}
+                        isStarting={isStartingSession}
+                        isEnding={isEndingSession}
+                        isPaused={isPaused}
+                        onPauseSession={() => pauseSession()}
+                        onResumeSession={() => resumeSession()}
+                        isPausing={isPausing}
+                        isResuming={isResuming}
+                        pausedSessionId={pausedSession?.sessionId}
+                        disabled={!selectedHost}
+                        paymentToken={sessionStartToken}
+                        insufficientBalance={{
+                          hasEnough,
+                          balance: sessionStartBalance,
+                          address: checkingAddress,
+                          isUsingBaseAccount: accountInfo?.isUsingBaseAccount ?? false,
+                        }}
+                      />
+                    </div>
 
-                {/* Chat Interface - Takes main space */}
-                <ChatInterface
-                  messages={messages}
-                  onSendMessage={sendMessage}
-                  isSending={isSendingMessage}
-                  isSessionActive={isSessionActive}
-                />
+                    <div className="flex flex-col md:flex-row gap-4">
+                      {/* Conversation History Sidebar */}
+                      {showHistory && (
+                        <ConversationHistorySidebar
+                          conversations={historyConversations}
+                          isLoading={isLoadingHistory}
+                          activeConversationId={viewingConversation?.id}
+                          onOpenConversation={handleOpenConversation}
+                          onRefresh={refreshHistory}
+                          onImport={handleImportConversation}
+                          onClose={() => setShowHistory(false)}
+                          className="w-full md:w-72 md:shrink-0"
+                        />
+                      )}
+
+                      <div className="flex-1 min-w-0 space-y-2">
+                        {/* Read-only banner for a conversation opened from history */}
+                        {viewingConversation && (
+                          <div className="flex flex-wrap items-center gap-2 rounded-lg border bg-muted/50 px-3 py-2 text-sm">
+                            <Eye className="h-4 w-4 text-muted-foreground" />
+                            <span className="text-muted-foreground">Viewing a saved conversation (read-only)</span>
+                            <div className="ml-auto flex gap-2">
+                              <ConversationExportMenu
+                                getConversation={() =>
+                                  viewingConversation && {
+                                    ...viewingConversation.stored,
+                                    selectedChildren: viewingConversation.tree.selectedChildren,
+                                  }
+                                }
+                              />
+                              <Button
+                                size="sm"
+                                onClick={handleContinueConversation}
+                                disabled={isSessionActive || isStartingSession || !hasEnough}
+                                title={isSessionActive ? "End the current session first" : undefined}
+                              >
+                                <Play className="h-4 w-4 mr-2" />
+                                Continue in New Session
+                              </Button>
+                              <Button
+                                size="sm"
+                                variant="ghost"
+                                onClick={() => setViewingConversation(null)}
+                              >
+                                <X className="h-4 w-4 mr-2" />
+                                Close
+                              </Button>
+                            </div>
+                          </div>
+                        )}
+
+                        {/* Chat Interface - Takes main space */}
+                        {viewingConversation ? (
+                          <ChatInterface
+                            messages={viewingMessages}
+                            onSendMessage={() => {}}
+                            branchInfo={viewingBranchInfo}
+                            onSwitchBranch={(messageId, offset) =>
+                              setViewingConversation((prev) =>
+                                prev && { ...prev, tree: switchBranchInTree(prev.tree, messageId, offset) }
+                              )
+                            }
+                            isSending={false}
+                            isSessionActive={false}
+                            readOnly
+                            highlightMessageId={viewingConversation.highlightMessageId}
+                          />
+                        ) : (
+                          <ChatInterface
+                            messages={messages}
+                            onSendMessage={sendMessage}
+                            onStopGeneration={stopGeneration}
+                            branchInfo={branchInfo}
+                            onSwitchBranch={switchBranch}
+                            onRegenerate={regenerateMessage}
+                            onEditMessage={editMessage}
+                            contextWindow={contextWindow}
+                            isSending={isSendingMessage}
+                            isSessionActive={isSessionActive}
+                            promptTemplates={getAllPromptTemplates(settings?.promptTemplates)}
+                            queuedPrompts={queuedPrompts}
+                            onCancelQueued={cancelQueuedPrompt}
+                            onEditQueued={editQueuedPrompt}
+                            onRetryQueued={retryQueuedPrompts}
+                            isOnline={isBrowserOnline}
+                            selectedHost={selectedHost}
+                            paymentToken={sessionPaymentToken}
+                          />
+                        )}
+                      </div>
+                    </div>
+                  </>
+                )}
 
                 {/* Session Status - Collapsible details */}
                 {sessionId && (
                   <SessionStatus
                     sessionId={sessionId}
-                    totalTokens={totalTokens}
-                    totalCost={totalCost}
+                    totalTokens={sessionTokens}
+                    totalCost={sessionSpent}
                     hostAddress={selectedHost.address}
                     model={selectedHost.models[0]}
                     selectedHost={selectedHost}
-                    preferredPaymentToken={settings?.preferredPaymentToken}
+                    preferredPaymentToken={sessionPaymentToken}
+                    spendingCap={spendingCap}
+                    deposit={depositStatus}
+                    onTopUp={canTopUp ? () => topUpSession() : undefined}
+                    onRollover={rolloverSession}
+                    isToppingUp={isToppingUp}
+                    isRollingOver={isRollingOver}
+                    isPaused={isPaused}
+                  />
+                )}
+
+                {/* Proof checkpoints settled for the active session */}
+                {sessionId && (
+                  <CheckpointTimeline
+                    checkpoints={checkpoints}
+                    reconciliation={checkpointReconciliation}
+                    paymentToken={sessionPaymentToken}
                   />
                 )}
 
@@ -831,10 +1265,8 @@ export default function ChatPage() {
                   <CostDashboard
                     usdcBalance={usdcBalance}
                     ethBalance={ethBalance}
-                    totalCost={totalCost}
-                    totalTokens={totalTokens}
                     messages={messages}
-                    selectedHost={selectedHost}
+                    paymentToken={sessionPaymentToken}
                   />
                 )}
 
@@ -853,6 +1285,33 @@ export default function ChatPage() {
                   onDeposit={() => setShowDepositModal(true)}
                   currentModel={currentModelName}
                   onChangeModel={() => setShowModelSelector(true)}
+                  contextTokenBudget={settings?.contextTokenBudget}
+                  onContextBudgetChange={async (budget) => {
+                    await updateSettings({ contextTokenBudget: budget });
+                  }}
+                  sessionSpendingCaps={settings?.sessionSpendingCaps}
+                  onSpendingCapChange={async (token, cap) => {
+                    await updateSettings({ sessionSpendingCaps: { ...settings?.sessionSpendingCaps, [token]: cap } });
+                  }}
+                  dailySpendingQuotas={settings?.dailySpendingQuotas}
+                  monthlySpendingQuotas={settings?.monthlySpendingQuotas}
+                  quotaUsage={quotaUsage}
+                  onQuotaChange={async (period, token, quota) => {
+                    await updateSettings(
+                      period === 'daily'
+                        ? { dailySpendingQuotas: { ...settings?.dailySpendingQuotas, [token]: quota } }
+                        : { monthlySpendingQuotas: { ...settings?.monthlySpendingQuotas, [token]: quota } }
+                    );
+                  }}
+                  approvalPolicy={settings?.approvalPolicy}
+                  approvalCap={settings?.approvalCap}
+                  onApprovalPolicyChange={async (approvalPolicy, approvalCap) => {
+                    await updateSettings({ approvalPolicy, approvalCap });
+                  }}
+                  allowances={allowances}
+                  isLoadingAllowances={isLoadingAllowances}
+                  onRevokeAllowance={revokeAllowance}
+                  isRevokingAllowance={isRevokingAllowance}
                   currentTheme={settings?.theme}
                   onThemeChange={handleThemeChange}
                   preferredPaymentToken={settings?.preferredPaymentToken}
@@ -904,6 +1363,64 @@ export default function ChatPage() {
         />
       )}
 
+      {/* Persona Selector Modal */}
+      <PersonaSelector
+        open={showPersonaSelector}
+        onOpenChange={setShowPersonaSelector}
+        customPersonas={settings?.personas}
+        selectedPersonaId={activePersonaId}
+        systemPrompt={systemPrompt}
+        onApply={async (prompt, personaId) => {
+          setSystemPrompt(prompt);
+          setActivePersonaId(personaId);
+
+          // Remember the preset as the default for new conversations
+          if (personaId && personaId !== settings?.selectedPersonaId) {
+            await updateSettings({ selectedPersonaId: personaId });
+          }
+        }}
+        onSavePreset={async (preset) => {
+          await updateSettings({ personas: [...(settings?.personas || []), preset] });
+          toast({
+            title: "Preset saved",
+            description: `"${preset.name}" is now available in all conversations`,
+          });
+        }}
+        onDeletePreset={async (presetId) => {
+          await updateSettings({
+            personas: (settings?.personas || []).filter((p: PersonaPreset) => p.id !== presetId),
+            ...(settings?.selectedPersonaId === presetId && { selectedPersonaId: undefined }),
+          });
+        }}
+      />
+
+      {/* Prompt Library Modal */}
+      <PromptLibrary
+        open={showPromptLibrary}
+        onOpenChange={setShowPromptLibrary}
+        customTemplates={settings?.promptTemplates}
+        onSaveTemplate={async (template) => {
+          const existing = settings?.promptTemplates || [];
+          const isEdit = existing.some((t: PromptTemplate) => t.id === template.id);
+          await updateSettings({
+            promptTemplates: isEdit
+              ? existing.map((t: PromptTemplate) => (t.id === template.id ? template : t))
+              : [...existing, template],
+          });
+          toast({
+            title: isEdit ? "Template updated" : "Template saved",
+            description: `Type /${template.command} in the message box to use it`,
+          });
+        }}
+        onDeleteTemplate={async (templateId) => {
+          await updateSettings({
+            promptTemplates: (settings?.promptTemplates || []).filter(
+              (t: PromptTemplate) => t.id !== templateId
+            ),
+          });
+        }}
+      />
+
       {/* Model Selector Modal */}
       <ModelSelector
         open={showModelSelector}
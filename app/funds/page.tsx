@@ -0,0 +1,311 @@
+// Copyright (c) 2025 Fabstir
+// SPDX-License-Identifier: BUSL-1.1
+
+"use client";
+
+import { useMemo, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  Wallet,
+  RefreshCw,
+  ArrowDownToLine,
+  Loader2,
+  CheckCircle2,
+  XCircle,
+  ExternalLink,
+  Undo2,
+} from "lucide-react";
+import { useFabstirSDK } from "@/hooks/use-fabstir-sdk";
+import { useBaseAccount } from "@/hooks/use-base-account";
+import { useFunds } from "@/hooks/use-funds";
+import { useSpendPermissions } from "@/hooks/use-spend-permissions";
+import { SpendPermissionsManager } from "@/components/spend-permissions-manager";
+import { PaymentToken } from "@/types/chat";
+import { WithdrawalStatus } from "@/lib/funds";
+import { formatTokenAmount } from "@/lib/pricing";
+import { BLOCK_EXPLORER_URLS } from "@/lib/constants";
+
+const DEPOSIT_TOKENS: PaymentToken[] = ["USDC", "ETH"];
+
+const WITHDRAWAL_STATUS_LABELS: Record<WithdrawalStatus, string> = {
+  pending: "Pending",
+  confirmed: "Confirmed",
+  failed: "Failed",
+};
+
+export default function FundsPage() {
+  const { sdk, paymentManager, userAddress, isInitializing } = useFabstirSDK();
+  const { getSdk, accountInfo } = useBaseAccount();
+
+  // Base Account managers sign with the sub-account (popup-free)
+  const baseAccountSdk = getSdk();
+  const effectivePaymentManager = baseAccountSdk?.getPaymentManager() || paymentManager;
+  const depositor = accountInfo?.subAccount || userAddress || null;
+  // The signer the SDK was authenticated with sends USDC withdrawals
+  const signer = useMemo(() => {
+    if (!depositor) return null;
+    try {
+      return (baseAccountSdk || sdk)?.getAuthManager?.().getSigner(depositor) ?? null;
+    } catch {
+      // Not registered yet; withdrawals stay disabled until it is
+      return null;
+    }
+  }, [baseAccountSdk, sdk, depositor]);
+
+  const {
+    depositBalances,
+    isLoadingDeposits,
+    refunds,
+    isLoadingRefunds,
+    withdrawals,
+    withdraw,
+    isWithdrawing,
+    canWithdraw,
+    refresh,
+  } = useFunds(effectivePaymentManager, signer, depositor);
+
+  const spendPermissions = useSpendPermissions(accountInfo);
+
+  const [amounts, setAmounts] = useState<Record<PaymentToken, string>>({ USDC: "", ETH: "" });
+
+  const handleWithdraw = (paymentToken: PaymentToken) => {
+    withdraw(
+      { paymentToken, amount: amounts[paymentToken] },
+      { onSuccess: () => setAmounts((prev) => ({ ...prev, [paymentToken]: "" })) }
+    );
+  };
+
+  const totalRefunded = refunds
+    .filter((r) => r.settled)
+    .reduce<Record<PaymentToken, number>>(
+      (totals, r) => ({ ...totals, [r.paymentToken]: totals[r.paymentToken] + r.refund }),
+      { USDC: 0, ETH: 0 }
+    );
+
+  return (
+    <main className="container mx-auto p-4 sm:p-6 lg:p-8 max-w-4xl space-y-6">
+      {/* Page Header */}
+      <div className="flex items-start justify-between gap-4">
+        <div className="space-y-2">
+          <div className="flex items-center gap-2">
+            <Wallet className="h-6 w-6 text-primary" />
+            <h1 className="text-3xl md:text-4xl font-bold">Funds</h1>
+          </div>
+          <p className="text-muted-foreground">
+            Escrowed deposits, refunds from ended sessions, and withdrawals
+          </p>
+        </div>
+        <Button variant="outline" size="sm" onClick={refresh} disabled={!effectivePaymentManager}>
+          <RefreshCw className="mr-2 h-4 w-4" />
+          Refresh
+        </Button>
+      </div>
+
+      {!effectivePaymentManager && !isInitializing && (
+        <Card>
+          <CardContent className="p-6 text-center text-muted-foreground">
+            Connect your wallet on the Chat page to see your funds.
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Deposit Balances */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Deposit Balances</CardTitle>
+          <CardDescription>
+            Unused escrow that new sessions can draw from, or that you can withdraw.{" "}
+            {baseAccountSdk
+              ? "Withdrawals are signed by your Base Account sub-account (no popup)."
+              : "Withdrawals are signed by your connected wallet."}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {DEPOSIT_TOKENS.map((paymentToken) => {
+            const available = depositBalances?.[paymentToken] ?? 0;
+            const supported = canWithdraw(paymentToken);
+
+            return (
+              <div key={paymentToken} className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label htmlFor={`withdraw-${paymentToken}`} className="flex items-center gap-2">
+                    {paymentToken} Deposit
+                  </Label>
+                  <span className="text-lg font-semibold font-mono">
+                    {isLoadingDeposits ? (
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                    ) : (
+                      formatTokenAmount(available, paymentToken)
+                    )}
+                  </span>
+                </div>
+                <div className="flex gap-2">
+                  <Input
+                    id={`withdraw-${paymentToken}`}
+                    type="number"
+                    step={paymentToken === "ETH" ? "0.0001" : "0.01"}
+                    min="0"
+                    placeholder={`Amount in ${paymentToken}`}
+                    value={amounts[paymentToken]}
+                    onChange={(e) => setAmounts((prev) => ({ ...prev, [paymentToken]: e.target.value }))}
+                    disabled={!supported || available <= 0}
+                  />
+                  <Button
+                    variant="outline"
+                    onClick={() => setAmounts((prev) => ({ ...prev, [paymentToken]: available.toString() }))}
+                    disabled={!supported || available <= 0}
+                  >
+                    Max
+                  </Button>
+                  <Button
+                    onClick={() => handleWithdraw(paymentToken)}
+                    disabled={!supported || isWithdrawing || !amounts[paymentToken]}
+                  >
+                    {isWithdrawing ? (
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    ) : (
+                      <ArrowDownToLine className="mr-2 h-4 w-4" />
+                    )}
+                    Withdraw
+                  </Button>
+                </div>
+                {!supported && effectivePaymentManager && (
+                  <p className="text-xs text-muted-foreground">
+                    This SDK version can't withdraw {paymentToken} deposits.
+                  </p>
+                )}
+              </div>
+            );
+          })}
+        </CardContent>
+      </Card>
+
+      {/* Withdrawals */}
+      {withdrawals.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Withdrawals</CardTitle>
+            <CardDescription>Pending withdrawals keep being tracked after a reload.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ul className="divide-y">
+              {withdrawals.map((w) => (
+                <li key={w.id} className="flex items-center justify-between gap-4 py-3 text-sm">
+                  <div className="space-y-1 min-w-0">
+                    <div className="font-medium font-mono">{formatTokenAmount(Number(w.amount), w.paymentToken)}</div>
+                    <div className="text-xs text-muted-foreground">
+                      {new Date(w.requestedAt).toLocaleString()}
+                      {w.error && <span className="text-destructive"> · {w.error}</span>}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-3 shrink-0">
+                    {w.txHash && (
+                      <a
+                        href={`${BLOCK_EXPLORER_URLS.BASE_SEPOLIA}/tx/${w.txHash}`}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="flex items-center gap-1 font-mono text-xs text-muted-foreground hover:text-foreground"
+                      >
+                        {w.txHash.slice(0, 10)}...
+                        <ExternalLink className="h-3 w-3" />
+                      </a>
+                    )}
+                    <Badge
+                      variant="outline"
+                      className={
+                        w.status === "confirmed"
+                          ? "border-green-500/50 text-green-600"
+                          : w.status === "failed"
+                            ? "border-red-500/50 text-red-600"
+                            : "border-orange-500/50 text-orange-600"
+                      }
+                    >
+                      {w.status === "pending" && <Loader2 className="h-3 w-3 mr-1 animate-spin" />}
+                      {w.status === "confirmed" && <CheckCircle2 className="h-3 w-3 mr-1" />}
+                      {w.status === "failed" && <XCircle className="h-3 w-3 mr-1" />}
+                      {WITHDRAWAL_STATUS_LABELS[w.status]}
+                    </Badge>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Spend Permissions (Base Account only) */}
+      {accountInfo?.isUsingBaseAccount && (
+        <SpendPermissionsManager
+          permissions={spendPermissions.permissions}
+          isLoading={spendPermissions.isLoading}
+          error={spendPermissions.error}
+          terms={spendPermissions.terms}
+          onRenew={spendPermissions.renew}
+          onRevoke={spendPermissions.revoke}
+          onRefresh={spendPermissions.refresh}
+          isRenewing={spendPermissions.isRenewing}
+          isRevoking={spendPermissions.isRevoking}
+        />
+      )}
+
+      {/* Refunds */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Undo2 className="h-5 w-5" />
+            Session Refunds
+          </CardTitle>
+          <CardDescription>
+            Unused deposit returned when a session settles
+            {(totalRefunded.USDC > 0 || totalRefunded.ETH > 0) && (
+              <>
+                {" "}
+                ({DEPOSIT_TOKENS.filter((t) => totalRefunded[t] > 0)
+                  .map((t) => formatTokenAmount(totalRefunded[t], t))
+                  .join(" + ")}{" "}
+                refunded)
+              </>
+            )}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoadingRefunds ? (
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Reading sessions on-chain...
+            </div>
+          ) : refunds.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No ended sessions yet.</p>
+          ) : (
+            <ul className="divide-y">
+              {refunds.map((r) => (
+                <li key={r.sessionId} className="flex items-center justify-between gap-4 py-3 text-sm">
+                  <div className="space-y-1">
+                    <div className="font-medium">Session #{r.sessionId.slice(-8)}</div>
+                    <div className="text-xs text-muted-foreground">
+                      {new Date(r.endedAt).toLocaleString()} · host {r.hostAddress.slice(0, 10)}...
+                    </div>
+                    <div className="text-xs text-muted-foreground font-mono">
+                      deposit {formatTokenAmount(r.deposit, r.paymentToken)} · spent{" "}
+                      {formatTokenAmount(r.spent, r.paymentToken)}
+                    </div>
+                  </div>
+                  <div className="text-right space-y-1 shrink-0">
+                    <div className="font-semibold font-mono">{formatTokenAmount(r.refund, r.paymentToken)}</div>
+                    <Badge variant={r.settled ? "secondary" : "outline"} className="text-xs">
+                      {r.settled ? "Refunded" : "Awaiting settlement"}
+                    </Badge>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+    </main>
+  );
+}
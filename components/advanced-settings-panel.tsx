@@ -5,14 +5,20 @@
 
 import { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { ChevronDown, ChevronUp, Settings, Server, Wallet, Zap, BarChart3, RotateCcw, DollarSign, Palette } from 'lucide-react';
+import { ChevronDown, ChevronUp, Settings, Server, Wallet, Zap, BarChart3, RotateCcw, DollarSign, Palette, Layers, ShieldAlert, Gauge, KeyRound, Loader2, ShieldOff } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
 import { Separator } from '@/components/ui/separator';
 import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
 import { PaymentTokenSelector } from '@/components/payment-token-selector';
 import { ThemeSelector } from '@/components/theme-selector';
 import { SettingsPanel } from '@/components/settings-panel';
+import { QuotaPeriod, QuotaUsage, QUOTA_PERIOD_LABELS } from '@/lib/usage-quotas';
+import type { PaymentToken, TokenAmounts } from '@/types/chat';
+import { ApprovalPolicy, APPROVAL_POLICY_LABELS, APPROVAL_POLICY_DESCRIPTIONS, DEFAULT_APPROVAL_CAP, DEFAULT_APPROVAL_POLICY, formatAllowance } from '@/lib/approvals';
+import type { TokenAllowance } from '@/hooks/use-token-approvals';
+import { DEFAULT_CONTEXT_BUDGET, MIN_CONTEXT_BUDGET, RESPONSE_TOKEN_RESERVE, getModelContextLimit } from '@/lib/context-manager';
 
 interface AdvancedSettingsPanelProps {
   // Session details
@@ -36,6 +42,29 @@ interface AdvancedSettingsPanelProps {
   currentModel?: string;
   onChangeModel?: () => void;
 
+  // Context window
+  contextTokenBudget?: number;
+  onContextBudgetChange?: (budget: number) => void;
+
+  // Spending cap per payment token (undefined = no cap)
+  sessionSpendingCaps?: TokenAmounts;
+  onSpendingCapChange?: (token: PaymentToken, cap: number | undefined) => void;
+
+  // Daily/monthly quotas across sessions, per payment token (undefined = no quota)
+  dailySpendingQuotas?: TokenAmounts;
+  monthlySpendingQuotas?: TokenAmounts;
+  quotaUsage?: QuotaUsage[];
+  onQuotaChange?: (period: QuotaPeriod, token: PaymentToken, quota: number | undefined) => void;
+
+  // USDC approvals (cap only applies to the 'capped' policy)
+  approvalPolicy?: ApprovalPolicy;
+  approvalCap?: number;
+  onApprovalPolicyChange?: (policy: ApprovalPolicy, cap?: number) => void;
+  allowances?: TokenAllowance[];
+  isLoadingAllowances?: boolean;
+  onRevokeAllowance?: (spender: string) => void;
+  isRevokingAllowance?: boolean;
+
   // Preferences
   currentTheme?: 'light' | 'dark' | 'auto';
   onThemeChange?: (theme: 'light' | 'dark' | 'auto') => void;
@@ -65,6 +94,21 @@ export function AdvancedSettingsPanel({
   onDeposit,
   currentModel,
   onChangeModel,
+  contextTokenBudget,
+  onContextBudgetChange,
+  sessionSpendingCaps,
+  onSpendingCapChange,
+  dailySpendingQuotas,
+  monthlySpendingQuotas,
+  quotaUsage = [],
+  onQuotaChange,
+  approvalPolicy = DEFAULT_APPROVAL_POLICY,
+  approvalCap,
+  onApprovalPolicyChange,
+  allowances = [],
+  isLoadingAllowances = false,
+  onRevokeAllowance,
+  isRevokingAllowance = false,
   currentTheme,
   onThemeChange,
   preferredPaymentToken,
@@ -80,6 +124,99 @@ export function AdvancedSettingsPanel({
   const isExpanded = controlledExpanded !== undefined ? controlledExpanded : internalExpanded;
   const setIsExpanded = onExpandedChange || setInternalExpanded;
 
+  // Edit locally, save on blur (avoids an S5 write per keystroke)
+  const [budgetInput, setBudgetInput] = useState(String(contextTokenBudget ?? DEFAULT_CONTEXT_BUDGET));
+  useEffect(() => {
+    setBudgetInput(String(contextTokenBudget ?? DEFAULT_CONTEXT_BUDGET));
+  }, [contextTokenBudget]);
+
+  const modelContextMax = getModelContextLimit(currentModel) - RESPONSE_TOKEN_RESERVE;
+
+  const commitBudget = () => {
+    const parsed = parseInt(budgetInput, 10);
+    if (!onContextBudgetChange || isNaN(parsed)) {
+      setBudgetInput(String(contextTokenBudget ?? DEFAULT_CONTEXT_BUDGET));
+      return;
+    }
+    const budget = Math.max(MIN_CONTEXT_BUDGET, parsed);
+    setBudgetInput(String(budget));
+    if (budget !== contextTokenBudget) onContextBudgetChange(budget);
+  };
+
+  const [capInputs, setCapInputs] = useState<Record<PaymentToken, string>>({ USDC: '', ETH: '' });
+  useEffect(() => {
+    setCapInputs({
+      USDC: sessionSpendingCaps?.USDC ? String(sessionSpendingCaps.USDC) : '',
+      ETH: sessionSpendingCaps?.ETH ? String(sessionSpendingCaps.ETH) : '',
+    });
+  }, [sessionSpendingCaps?.USDC, sessionSpendingCaps?.ETH]);
+
+  // Empty (or zero) clears the cap
+  const commitCap = (token: PaymentToken) => {
+    const input = capInputs[token].trim();
+    const parsed = parseFloat(input);
+    const saved = sessionSpendingCaps?.[token];
+    if (!onSpendingCapChange || (input !== '' && (isNaN(parsed) || parsed < 0))) {
+      setCapInputs((prev) => ({ ...prev, [token]: saved ? String(saved) : '' }));
+      return;
+    }
+    const cap = input === '' || parsed === 0 ? undefined : parsed;
+    setCapInputs((prev) => ({ ...prev, [token]: cap ? String(cap) : '' }));
+    if (cap !== saved) onSpendingCapChange(token, cap);
+  };
+
+  const savedQuotas: Record<QuotaPeriod, TokenAmounts | undefined> = {
+    daily: dailySpendingQuotas,
+    monthly: monthlySpendingQuotas,
+  };
+  const toQuotaInputs = (quotas?: TokenAmounts): Record<PaymentToken, string> => ({
+    USDC: quotas?.USDC ? String(quotas.USDC) : '',
+    ETH: quotas?.ETH ? String(quotas.ETH) : '',
+  });
+  const [quotaInputs, setQuotaInputs] = useState<Record<QuotaPeriod, Record<PaymentToken, string>>>({
+    daily: toQuotaInputs(),
+    monthly: toQuotaInputs(),
+  });
+  useEffect(() => {
+    setQuotaInputs({
+      daily: toQuotaInputs(dailySpendingQuotas),
+      monthly: toQuotaInputs(monthlySpendingQuotas),
+    });
+  }, [dailySpendingQuotas?.USDC, dailySpendingQuotas?.ETH, monthlySpendingQuotas?.USDC, monthlySpendingQuotas?.ETH]);
+
+  const setQuotaInput = (period: QuotaPeriod, token: PaymentToken, value: string) =>
+    setQuotaInputs((prev) => ({ ...prev, [period]: { ...prev[period], [token]: value } }));
+
+  // Same rules as the cap: empty (or zero) clears the quota
+  const commitQuota = (period: QuotaPeriod, token: PaymentToken) => {
+    const input = quotaInputs[period][token].trim();
+    const parsed = parseFloat(input);
+    const saved = savedQuotas[period]?.[token];
+    if (!onQuotaChange || (input !== '' && (isNaN(parsed) || parsed < 0))) {
+      setQuotaInput(period, token, saved ? String(saved) : '');
+      return;
+    }
+    const quota = input === '' || parsed === 0 ? undefined : parsed;
+    setQuotaInput(period, token, quota ? String(quota) : '');
+    if (quota !== saved) onQuotaChange(period, token, quota);
+  };
+
+  const [approvalCapInput, setApprovalCapInput] = useState(String(approvalCap ?? DEFAULT_APPROVAL_CAP));
+  useEffect(() => {
+    setApprovalCapInput(String(approvalCap ?? DEFAULT_APPROVAL_CAP));
+  }, [approvalCap]);
+
+  // Unlike the spending cap, an approval cap can't be empty (the policy picks "unlimited")
+  const commitApprovalCap = () => {
+    const parsed = parseFloat(approvalCapInput);
+    if (!onApprovalPolicyChange || isNaN(parsed) || parsed <= 0) {
+      setApprovalCapInput(String(approvalCap ?? DEFAULT_APPROVAL_CAP));
+      return;
+    }
+    setApprovalCapInput(String(parsed));
+    if (parsed !== approvalCap) onApprovalPolicyChange('capped', parsed);
+  };
+
   return (
     <Collapsible
       open={isExpanded}
@@ -258,6 +395,222 @@ export function AdvancedSettingsPanel({
               </>
             )}
 
+            {/* Context Window */}
+            {onContextBudgetChange && (
+              <>
+                <Separator />
+                <div className="space-y-3">
+                  <div className="flex items-center gap-2 text-sm font-semibold">
+                    <Layers className="h-4 w-4" />
+                    Context Window
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Input
+                      type="number"
+                      min={MIN_CONTEXT_BUDGET}
+                      step={256}
+                      value={budgetInput}
+                      onChange={(e) => setBudgetInput(e.target.value)}
+                      onBlur={commitBudget}
+                      onKeyDown={(e) => e.key === 'Enter' && commitBudget()}
+                      className="w-32"
+                      aria-label="Context token budget"
+                    />
+                    <span className="text-sm text-muted-foreground">tokens per prompt</span>
+                  </div>
+                  <div className="text-xs text-muted-foreground">
+                    Older messages beyond this budget are cut to their first line. This model fits up to{' '}
+                    {modelContextMax.toLocaleString()} prompt tokens.
+                  </div>
+                </div>
+              </>
+            )}
+
+            {/* Spending Cap */}
+            {onSpendingCapChange && (
+              <>
+                <Separator />
+                <div className="space-y-3">
+                  <div className="flex items-center gap-2 text-sm font-semibold">
+                    <ShieldAlert className="h-4 w-4" />
+                    Spending Cap
+                  </div>
+                  {(['USDC', 'ETH'] as PaymentToken[]).map((token) => (
+                    <div key={token} className="flex items-center gap-2">
+                      <Input
+                        type="number"
+                        min={0}
+                        step={token === 'ETH' ? 0.0001 : 0.01}
+                        placeholder="No cap"
+                        value={capInputs[token]}
+                        onChange={(e) => setCapInputs((prev) => ({ ...prev, [token]: e.target.value }))}
+                        onBlur={() => commitCap(token)}
+                        onKeyDown={(e) => e.key === 'Enter' && commitCap(token)}
+                        className="w-32"
+                        aria-label={`Session spending cap in ${token}`}
+                      />
+                      <span className="text-sm text-muted-foreground">{token} per session</span>
+                    </div>
+                  ))}
+                  <div className="text-xs text-muted-foreground">
+                    Each cap applies to sessions paid in its token. You&apos;ll be warned at 80%. Prompts that
+                    would go over the cap are blocked, and the session ends once it is reached. Leave empty for
+                    no cap.
+                  </div>
+                </div>
+              </>
+            )}
+
+            {/* Usage Quotas */}
+            {onQuotaChange && (
+              <>
+                <Separator />
+                <div className="space-y-3">
+                  <div className="flex items-center gap-2 text-sm font-semibold">
+                    <Gauge className="h-4 w-4" />
+                    Usage Quotas
+                  </div>
+                  {(['daily', 'monthly'] as QuotaPeriod[]).flatMap((period) =>
+                    (['USDC', 'ETH'] as PaymentToken[]).map((token) => {
+                      const usage = quotaUsage.find((q) => q.period === period && q.paymentToken === token);
+                      const percent = usage ? Math.min(100, (usage.spent / usage.limit) * 100) : 0;
+                      const quotaDecimals = token === 'ETH' ? 6 : 2;
+                      return (
+                        <div key={`${period}-${token}`} className="space-y-1.5">
+                          <div className="flex items-center gap-2">
+                            <span className="text-sm text-muted-foreground w-16">
+                              {QUOTA_PERIOD_LABELS[period]}
+                            </span>
+                            <Input
+                              type="number"
+                              min={0}
+                              step={token === 'ETH' ? 0.001 : 1}
+                              placeholder="No quota"
+                              value={quotaInputs[period][token]}
+                              onChange={(e) => setQuotaInput(period, token, e.target.value)}
+                              onBlur={() => commitQuota(period, token)}
+                              onKeyDown={(e) => e.key === 'Enter' && commitQuota(period, token)}
+                              className="w-28"
+                              aria-label={`${QUOTA_PERIOD_LABELS[period]} spending quota in ${token}`}
+                            />
+                            <span className="text-sm text-muted-foreground">{token}</span>
+                          </div>
+                          {usage && (
+                            <div className="space-y-1">
+                              <div className="h-1.5 w-full rounded-full bg-muted overflow-hidden">
+                                <div
+                                  className={`h-full transition-all ${
+                                    percent >= 100 ? 'bg-red-500' : percent >= 80 ? 'bg-orange-500' : 'bg-primary'
+                                  }`}
+                                  style={{ width: `${percent}%` }}
+                                />
+                              </div>
+                              <div className="text-xs text-muted-foreground">
+                                {usage.spent.toFixed(quotaDecimals)} of {usage.limit.toFixed(quotaDecimals)} used
+                                {' · '}
+                                {usage.remaining.toFixed(quotaDecimals)} left
+                              </div>
+                            </div>
+                          )}
+                        </div>
+                      );
+                    })
+                  )}
+                  <div className="text-xs text-muted-foreground">
+                    Spend across all sessions, per token. New sessions are blocked when their deposit would go
+                    over a quota, and prompts once it is used up.
+                  </div>
+                </div>
+              </>
+            )}
+
+            {/* Token Approvals */}
+            {onApprovalPolicyChange && (
+              <>
+                <Separator />
+                <div className="space-y-3">
+                  <div className="flex items-center gap-2 text-sm font-semibold">
+                    <KeyRound className="h-4 w-4" />
+                    Token Approvals
+                  </div>
+                  <div className="flex flex-wrap gap-2">
+                    {(['exact', 'capped', 'unlimited'] as ApprovalPolicy[]).map((policy) => (
+                      <Button
+                        key={policy}
+                        variant={approvalPolicy === policy ? 'default' : 'outline'}
+                        size="sm"
+                        onClick={() =>
+                          policy !== approvalPolicy &&
+                          onApprovalPolicyChange(policy, policy === 'capped' ? approvalCap ?? DEFAULT_APPROVAL_CAP : approvalCap)
+                        }
+                      >
+                        {APPROVAL_POLICY_LABELS[policy]}
+                      </Button>
+                    ))}
+                  </div>
+                  <div className="text-xs text-muted-foreground">
+                    {APPROVAL_POLICY_DESCRIPTIONS[approvalPolicy]}
+                  </div>
+                  {approvalPolicy === 'capped' && (
+                    <div className="flex items-center gap-2">
+                      <Input
+                        type="number"
+                        min={0}
+                        step={1}
+                        value={approvalCapInput}
+                        onChange={(e) => setApprovalCapInput(e.target.value)}
+                        onBlur={commitApprovalCap}
+                        onKeyDown={(e) => e.key === 'Enter' && commitApprovalCap()}
+                        className="w-32"
+                        aria-label="USDC approval cap"
+                      />
+                      <span className="text-sm text-muted-foreground">USDC</span>
+                    </div>
+                  )}
+
+                  {/* Current allowances per spender */}
+                  <div className="space-y-2 text-sm">
+                    {isLoadingAllowances ? (
+                      <div className="flex items-center gap-2 text-muted-foreground">
+                        <Loader2 className="h-3 w-3 animate-spin" />
+                        Reading allowances...
+                      </div>
+                    ) : allowances.length === 0 ? (
+                      <div className="text-xs text-muted-foreground">No spenders configured.</div>
+                    ) : (
+                      allowances.map((a) => (
+                        <div key={a.spender} className="flex items-center justify-between gap-2">
+                          <div>
+                            <div>{a.spenderName}</div>
+                            <div className="text-xs text-muted-foreground font-mono">
+                              {a.spender.slice(0, 6)}...{a.spender.slice(-4)}
+                            </div>
+                          </div>
+                          <div className="flex items-center gap-2">
+                            <Badge variant="outline">
+                              {a.allowance > BigInt(0) ? formatAllowance(a.allowance) : 'None'}
+                            </Badge>
+                            {onRevokeAllowance && a.allowance > BigInt(0) && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                className="h-7 text-destructive hover:text-destructive"
+                                onClick={() => onRevokeAllowance(a.spender)}
+                                disabled={isRevokingAllowance}
+                              >
+                                <ShieldOff className="h-3 w-3 mr-1" />
+                                Revoke
+                              </Button>
+                            )}
+                          </div>
+                        </div>
+                      ))
+                    )}
+                  </div>
+                </div>
+              </>
+            )}
+
             {/* Payment Preference */}
             {onPaymentTokenChange && (
               <>
@@ -10,7 +10,7 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Logo, ShimmerText } from "@/components/brand";
 import { cn } from "@/lib/utils";
-import { MessageSquare, Settings, Home } from "lucide-react";
+import { MessageSquare, Settings, Home, Wallet } from "lucide-react";
 import { useFabstirSDK } from "@/hooks/use-fabstir-sdk";
 
 export function AppHeader() {
@@ -20,6 +20,7 @@ export function AppHeader() {
   const navItems = [
     { href: "/", label: "Home", icon: Home },
     { href: "/chat", label: "Chat", icon: MessageSquare },
+    { href: "/funds", label: "Funds", icon: Wallet },
     { href: "/settings", label: "Settings", icon: Settings },
   ];
 
@@ -3,9 +3,30 @@
 
 "use client";
 
-import { useState, useRef, useEffect } from "react";
+import { useState, useRef, useEffect, useMemo } from "react";
 import { motion, AnimatePresence } from "framer-motion";
-import { Send, Loader2, Bot, User, AlertCircle } from "lucide-react";
+import {
+  Send,
+  Loader2,
+  Bot,
+  User,
+  AlertCircle,
+  Square,
+  ChevronLeft,
+  ChevronRight,
+  Pencil,
+  RefreshCw,
+  Layers,
+  Receipt,
+  ChevronDown,
+  ChevronUp,
+  Paperclip,
+  FileText,
+  X,
+  BookText,
+  Clock,
+  WifiOff,
+} from "lucide-react";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
@@ -14,38 +35,236 @@ import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { Badge } from "@/components/ui/badge";
 import { ChatEmptyState, ThinkingAnimation } from "@/components/brand";
 import { cn } from "@/lib/utils";
-import { ChatMessage } from "@/types/chat";
+import { useToast } from "@/hooks/use-toast";
+import { ChatAttachment, ChatMessage, PaymentToken } from "@/types/chat";
+import { ParsedHost } from "@/types/host";
+import { BranchInfo } from "@/lib/conversation-tree";
+import { ContextWindow } from "@/lib/context-manager";
+import { formatTokenAmount, formatPricePerToken, calculateCost, getPricePerToken } from "@/lib/pricing";
+import {
+  ATTACHMENT_ACCEPT,
+  MAX_ATTACHMENTS,
+  readAttachment,
+  formatFileSize,
+} from "@/lib/attachments";
+import { PromptTemplate, matchPromptTemplates, extractVariables } from "@/lib/prompt-templates";
+import { PromptVariablesDialog } from "@/components/prompt-variables-dialog";
+import { QueuedPrompt } from "@/lib/outbound-queue";
 
 interface ChatInterfaceProps {
   messages: ChatMessage[];
-  onSendMessage: (message: string) => void;
+  onSendMessage: (message: string, attachments?: ChatAttachment[]) => void;
+  onStopGeneration?: () => void;
+  branchInfo?: Record<string, BranchInfo>;
+  onSwitchBranch?: (messageId: string, offset: -1 | 1) => void;
+  onRegenerate?: (messageId: string) => void;
+  onEditMessage?: (messageId: string, content: string) => void;
+  contextWindow?: ContextWindow;
   isSending: boolean;
   isSessionActive: boolean;
+  readOnly?: boolean; // Viewing a saved conversation
+  highlightMessageId?: string | null; // Scrolled to and outlined (e.g. a search hit)
+  promptTemplates?: PromptTemplate[]; // Offered when the message starts with "/"
+  queuedPrompts?: QueuedPrompt[]; // Waiting to be sent (see lib/outbound-queue)
+  onCancelQueued?: (id: string) => void;
+  onEditQueued?: (id: string, prompt: string) => void;
+  onRetryQueued?: () => void;
+  isOnline?: boolean;
+  selectedHost?: ParsedHost | null; // Prices the running cost of a streaming reply
+  paymentToken?: PaymentToken;
 }
 
 export function ChatInterface({
   messages,
   onSendMessage,
+  onStopGeneration,
+  branchInfo,
+  onSwitchBranch,
+  onRegenerate,
+  onEditMessage,
+  contextWindow,
   isSending,
   isSessionActive,
+  readOnly = false,
+  highlightMessageId,
+  promptTemplates = [],
+  queuedPrompts = [],
+  onCancelQueued,
+  onEditQueued,
+  onRetryQueued,
+  isOnline = true,
+  selectedHost,
+  paymentToken = "USDC",
 }: ChatInterfaceProps) {
   const [input, setInput] = useState("");
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editText, setEditText] = useState("");
+  const [expandedReceipts, setExpandedReceipts] = useState<Set<string>>(new Set());
+  const [attachments, setAttachments] = useState<ChatAttachment[]>([]);
+  const [isReadingFiles, setIsReadingFiles] = useState(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const { toast } = useToast();
+
+  // Slash-command autocomplete: "/word" with no spaces yet
+  const [suggestionIndex, setSuggestionIndex] = useState(0);
+  const [suggestionsDismissed, setSuggestionsDismissed] = useState(false);
+  const [pendingTemplate, setPendingTemplate] = useState<PromptTemplate | null>(null);
+  const slashQuery = /^\/\S*$/.test(input) ? input.slice(1) : null;
+  const suggestions = useMemo(
+    () =>
+      slashQuery === null ? [] : matchPromptTemplates(slashQuery, promptTemplates).slice(0, 8),
+    [slashQuery, promptTemplates]
+  );
+  const showSuggestions = suggestions.length > 0 && !suggestionsDismissed && !readOnly;
 
-  // Auto-scroll to bottom
   useEffect(() => {
+    setSuggestionIndex(0);
+    setSuggestionsDismissed(false);
+  }, [slashQuery]);
+
+  // Once the placeholder reply exists, chunks render inside it instead of the thinking indicator
+  const isStreaming = messages.some((m) => m.status === "streaming");
+
+  // Auto-scroll to bottom, or to the highlighted message when there is one
+  useEffect(() => {
+    if (highlightMessageId) {
+      document
+        .getElementById(`message-${highlightMessageId}`)
+        ?.scrollIntoView({ behavior: "smooth", block: "center" });
+      return;
+    }
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
-  }, [messages]);
+  }, [messages, highlightMessageId]);
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (!input.trim() || isSending || !isSessionActive) return;
+    if (!input.trim() || isSending || !isSessionActive || readOnly) return;
 
-    onSendMessage(input);
+    onSendMessage(input, attachments.length > 0 ? attachments : undefined);
     setInput("");
+    setAttachments([]);
+  };
+
+  /**
+   * Parse picked files in the browser and add them as attachment chips
+   */
+  const handleFilesSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = ""; // Allow picking the same file again
+
+    const room = MAX_ATTACHMENTS - attachments.length;
+    if (files.length > room) {
+      toast({
+        title: "Too many attachments",
+        description: `Up to ${MAX_ATTACHMENTS} files can be attached to a prompt.`,
+        variant: "destructive",
+      });
+    }
+
+    setIsReadingFiles(true);
+    try {
+      for (const file of files.slice(0, Math.max(0, room))) {
+        try {
+          const attachment = await readAttachment(file);
+          setAttachments((prev) => [...prev, attachment]);
+        } catch (error: any) {
+          console.error("❌ Failed to read attachment:", error);
+          toast({
+            title: "Could not attach file",
+            description: error.message,
+            variant: "destructive",
+          });
+        }
+      }
+    } finally {
+      setIsReadingFiles(false);
+    }
+  };
+
+  const removeAttachment = (id: string) => {
+    setAttachments((prev) => prev.filter((a) => a.id !== id));
+  };
+
+  const attachmentTokens = attachments.reduce((sum, a) => sum + a.tokens, 0);
+
+  const toggleReceipt = (messageId: string) => {
+    setExpandedReceipts((prev) => {
+      const next = new Set(prev);
+      if (next.has(messageId)) {
+        next.delete(messageId);
+      } else {
+        next.add(messageId);
+      }
+      return next;
+    });
+  };
+
+  const startEditing = (message: ChatMessage) => {
+    setEditingId(message.id!);
+    setEditText(message.content);
+  };
+
+  const handleEditSubmit = () => {
+    if (!editingId || !editText.trim() || !onEditMessage) return;
+
+    onEditMessage(editingId, editText);
+    setEditingId(null);
+    setEditText("");
+  };
+
+  const startEditingQueued = (entry: QueuedPrompt) => {
+    setEditingId(entry.id);
+    setEditText(entry.prompt);
+  };
+
+  const handleQueuedEditSubmit = () => {
+    if (!editingId || !editText.trim() || !onEditQueued) return;
+
+    onEditQueued(editingId, editText);
+    setEditingId(null);
+    setEditText("");
+  };
+
+  // Turns folded into the digest instead of being sent verbatim
+  const digestedIds = new Set(contextWindow?.digested.map((m) => m.id));
+
+  // Branch actions need a settled conversation and a live session
+  const canBranch = isSessionActive && !isSending && !readOnly;
+
+  /**
+   * Use a template: insert it directly, or ask for its variables first
+   */
+  const pickTemplate = (template: PromptTemplate) => {
+    if (extractVariables(template.body).length > 0) {
+      setPendingTemplate(template);
+    } else {
+      setInput(template.body);
+      textareaRef.current?.focus();
+    }
   };
 
   const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (showSuggestions) {
+      if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+        e.preventDefault();
+        const step = e.key === "ArrowDown" ? 1 : -1;
+        setSuggestionIndex((i) => (i + step + suggestions.length) % suggestions.length);
+        return;
+      }
+      if (e.key === "Enter" || e.key === "Tab") {
+        e.preventDefault();
+        pickTemplate(suggestions[suggestionIndex]);
+        return;
+      }
+      if (e.key === "Escape") {
+        e.preventDefault();
+        setSuggestionsDismissed(true);
+        return;
+      }
+    }
+
     if (e.key === "Enter" && !e.shiftKey) {
       e.preventDefault();
       handleSubmit(e);
@@ -66,7 +285,9 @@ export function ChatInterface({
             >
               <ChatEmptyState />
               <p className="mt-4 text-sm text-muted-foreground max-w-md">
-                {!isSessionActive
+                {readOnly
+                  ? "This conversation has no messages"
+                  : !isSessionActive
                   ? "Start a session to begin chatting with AI"
                   : "Send your first message to start the conversation"}
               </p>
@@ -75,7 +296,8 @@ export function ChatInterface({
 
           {messages.map((message, idx) => (
             <motion.div
-              key={`${message.timestamp}-${idx}`}
+              key={message.id ?? `${message.timestamp}-${idx}`}
+              id={message.id ? `message-${message.id}` : undefined}
               initial={{ opacity: 0, y: 10 }}
               animate={{ opacity: 1, y: 0 }}
               exit={{ opacity: 0, y: -10 }}
@@ -108,26 +330,303 @@ export function ChatInterface({
                   message.role === "user" &&
                     "bg-primary text-primary-foreground ml-8 md:ml-12",
                   message.role === "assistant" && "bg-muted mr-8 md:mr-12",
-                  message.role === "system" && "bg-accent/50 text-center"
+                  message.role === "system" && "bg-accent/50 text-center",
+                  digestedIds.has(message.id) && "opacity-60",
+                  highlightMessageId === message.id && "ring-2 ring-yellow-400"
                 )}
               >
-                <div className="whitespace-pre-wrap break-words">
-                  {message.content}
-                </div>
+                {editingId === message.id ? (
+                  <div className="space-y-2">
+                    <Textarea
+                      value={editText}
+                      onChange={(e) => setEditText(e.target.value)}
+                      rows={3}
+                      className="resize-none bg-background text-foreground"
+                      autoFocus
+                    />
+                    <div className="flex justify-end gap-2">
+                      <Button
+                        type="button"
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => setEditingId(null)}
+                      >
+                        Cancel
+                      </Button>
+                      <Button
+                        type="button"
+                        size="sm"
+                        variant="secondary"
+                        onClick={handleEditSubmit}
+                        disabled={!editText.trim() || !canBranch}
+                      >
+                        Save & Send
+                      </Button>
+                    </div>
+                  </div>
+                ) : message.status === "streaming" && !message.content ? (
+                  <ThinkingAnimation />
+                ) : (
+                  <div className="whitespace-pre-wrap break-words">
+                    {message.content}
+                    {message.status === "streaming" && (
+                      <span className="inline-block w-2 h-4 ml-0.5 align-text-bottom bg-current animate-pulse" />
+                    )}
+                  </div>
+                )}
+
+                {message.attachments && message.attachments.length > 0 && (
+                  <div className="mt-2 flex flex-wrap gap-1">
+                    {message.attachments.map((attachment) => (
+                      <Badge
+                        key={attachment.id}
+                        variant="secondary"
+                        className="gap-1 font-normal"
+                        title={`${formatFileSize(attachment.size)} · ~${attachment.tokens.toLocaleString()} tokens`}
+                      >
+                        <FileText className="w-3 h-3" />
+                        {attachment.name}
+                      </Badge>
+                    ))}
+                  </div>
+                )}
 
-                {message.tokens && (
+                {message.truncated && (
+                  <div className="mt-2 flex items-center gap-1 text-xs opacity-70">
+                    <Square className="w-3 h-3" />
+                    Stopped early - response truncated
+                  </div>
+                )}
+
+                {digestedIds.has(message.id) && (
+                  <div className="mt-2 flex items-center gap-1 text-xs opacity-70">
+                    <Layers className="w-3 h-3" />
+                    Digested - only its first line is still sent
+                  </div>
+                )}
+
+                {message.status === "error" && (
+                  <div className="mt-2 flex items-center gap-1 text-xs text-destructive">
+                    <AlertCircle className="w-3 h-3" />
+                    Response interrupted
+                  </div>
+                )}
+
+                {!!message.tokens && (
                   <div className="mt-2 text-xs opacity-70">
-                    <Badge variant="outline">
-                      {message.tokens} tokens (~$
-                      {((message.tokens * 2000) / 1000000).toFixed(4)})
-                    </Badge>
+                    {message.receipt && message.id ? (
+                      <button
+                        type="button"
+                        onClick={() => toggleReceipt(message.id!)}
+                        aria-expanded={expandedReceipts.has(message.id)}
+                        aria-label="Toggle cost breakdown"
+                      >
+                        <Badge variant="outline" className="gap-1 cursor-pointer">
+                          <Receipt className="w-3 h-3" />
+                          {message.tokens} tokens ·{" "}
+                          {formatTokenAmount(message.receipt.cost, message.receipt.paymentToken)}
+                          {expandedReceipts.has(message.id) ? (
+                            <ChevronUp className="w-3 h-3" />
+                          ) : (
+                            <ChevronDown className="w-3 h-3" />
+                          )}
+                        </Badge>
+                      </button>
+                    ) : (
+                      <Badge variant="outline" className={cn(message.status === "streaming" && "gap-1")}>
+                        {message.status === "streaming" && (
+                          <Loader2 className="w-3 h-3 animate-spin" />
+                        )}
+                        {message.tokens} tokens
+                        {message.status === "streaming" && selectedHost && (
+                          <>
+                            {" "}·{" "}
+                            {formatTokenAmount(
+                              calculateCost(message.tokens, getPricePerToken(selectedHost, paymentToken), paymentToken),
+                              paymentToken
+                            )}
+                          </>
+                        )}
+                      </Badge>
+                    )}
+
+                    {message.receipt && message.id && expandedReceipts.has(message.id) && (
+                      <dl className="mt-2 grid grid-cols-[max-content_1fr] gap-x-3 gap-y-1">
+                        <dt>Input tokens</dt>
+                        <dd className="font-mono">{message.receipt.inputTokens.toLocaleString()}</dd>
+                        <dt>Output tokens</dt>
+                        <dd className="font-mono">{message.receipt.outputTokens.toLocaleString()}</dd>
+                        <dt>Host</dt>
+                        <dd className="font-mono break-all">{message.receipt.hostAddress}</dd>
+                        <dt>Price</dt>
+                        <dd className="font-mono">
+                          {formatPricePerToken(message.receipt.pricePerToken, message.receipt.paymentToken)}
+                        </dd>
+                        <dt>Paid in</dt>
+                        <dd>{message.receipt.paymentToken}</dd>
+                        <dt>Cost</dt>
+                        <dd className="font-mono">
+                          {formatTokenAmount(message.receipt.cost, message.receipt.paymentToken)}
+                        </dd>
+                      </dl>
+                    )}
+                  </div>
+                )}
+
+                {message.id && message.role !== "system" && editingId !== message.id && (
+                  <div className="mt-2 flex items-center gap-1 text-xs opacity-70">
+                    {branchInfo?.[message.id] && branchInfo[message.id].total > 1 && (
+                      <>
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="icon"
+                          className="h-6 w-6"
+                          onClick={() => onSwitchBranch?.(message.id!, -1)}
+                          disabled={isSending || branchInfo[message.id].index === 0}
+                          aria-label="Previous version"
+                        >
+                          <ChevronLeft className="w-3 h-3" />
+                        </Button>
+                        <span>
+                          {branchInfo[message.id].index + 1}/{branchInfo[message.id].total}
+                        </span>
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="icon"
+                          className="h-6 w-6"
+                          onClick={() => onSwitchBranch?.(message.id!, 1)}
+                          disabled={
+                            isSending ||
+                            branchInfo[message.id].index === branchInfo[message.id].total - 1
+                          }
+                          aria-label="Next version"
+                        >
+                          <ChevronRight className="w-3 h-3" />
+                        </Button>
+                      </>
+                    )}
+                    {message.role === "user" && onEditMessage && !readOnly && (
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        className="h-6 w-6"
+                        onClick={() => startEditing(message)}
+                        disabled={!canBranch}
+                        aria-label="Edit message"
+                      >
+                        <Pencil className="w-3 h-3" />
+                      </Button>
+                    )}
+                    {message.role === "assistant" &&
+                      message.status !== "streaming" &&
+                      onRegenerate &&
+                      !readOnly && (
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="icon"
+                          className="h-6 w-6"
+                          onClick={() => onRegenerate(message.id!)}
+                          disabled={!canBranch}
+                          aria-label="Regenerate response"
+                        >
+                          <RefreshCw className="w-3 h-3" />
+                        </Button>
+                      )}
                   </div>
                 )}
               </div>
             </motion.div>
           ))}
 
-          {isSending && (
+          {queuedPrompts.map((entry) => (
+            <motion.div
+              key={entry.id}
+              initial={{ opacity: 0, y: 10 }}
+              animate={{ opacity: 1, y: 0 }}
+              exit={{ opacity: 0, y: -10 }}
+              transition={{ duration: 0.2 }}
+              className="flex gap-3 mb-3 flex-row-reverse"
+            >
+              <Avatar className="w-8 h-8 bg-muted">
+                <AvatarFallback>
+                  <Clock className="w-4 h-4" />
+                </AvatarFallback>
+              </Avatar>
+
+              <div className="flex-1 rounded-lg p-3 md:p-4 ml-8 md:ml-12 border-2 border-dashed border-primary/40 bg-primary/5">
+                {editingId === entry.id ? (
+                  <div className="space-y-2">
+                    <Textarea
+                      value={editText}
+                      onChange={(e) => setEditText(e.target.value)}
+                      rows={3}
+                      className="resize-none bg-background text-foreground"
+                      autoFocus
+                    />
+                    <div className="flex justify-end gap-2">
+                      <Button type="button" size="sm" variant="ghost" onClick={() => setEditingId(null)}>
+                        Cancel
+                      </Button>
+                      <Button
+                        type="button"
+                        size="sm"
+                        variant="secondary"
+                        onClick={handleQueuedEditSubmit}
+                        disabled={!editText.trim()}
+                      >
+                        Save
+                      </Button>
+                    </div>
+                  </div>
+                ) : (
+                  <div className="whitespace-pre-wrap break-words">{entry.prompt}</div>
+                )}
+
+                <div className="mt-2 flex items-center gap-1 text-xs text-muted-foreground">
+                  <Clock className="w-3 h-3" />
+                  <span>
+                    {entry.retryOf ? "Queued for retry" : "Queued"}
+                    {!isOnline && " · sends when back online"}
+                  </span>
+                  {entry.attachments && entry.attachments.length > 0 && (
+                    <span>· {entry.attachments.length} attachment(s)</span>
+                  )}
+                  <div className="ml-auto flex gap-1">
+                    {onEditQueued && editingId !== entry.id && (
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        className="h-6 w-6"
+                        onClick={() => startEditingQueued(entry)}
+                        aria-label="Edit queued prompt"
+                      >
+                        <Pencil className="w-3 h-3" />
+                      </Button>
+                    )}
+                    {onCancelQueued && (
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        className="h-6 w-6"
+                        onClick={() => onCancelQueued(entry.id)}
+                        aria-label="Cancel queued prompt"
+                      >
+                        <X className="w-3 h-3" />
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              </div>
+            </motion.div>
+          ))}
+
+          {isSending && !isStreaming && (
             <motion.div
               key="loading-indicator"
               initial={{ opacity: 0, y: 10 }}
@@ -150,40 +649,188 @@ export function ChatInterface({
 
       {/* Input Area - Always Visible at Bottom */}
       <div className="border-t p-3 md:p-4 bg-background">
+        {contextWindow && messages.length > 0 && (
+          <div className="mb-2 flex items-center gap-2 text-xs text-muted-foreground">
+            <Layers className="w-3 h-3" />
+            <span>
+              In context: {contextWindow.included.length} message
+              {contextWindow.included.length === 1 ? "" : "s"}
+              {contextWindow.digested.length > 0 &&
+                ` + digest of ${contextWindow.digested.length} earlier`}
+            </span>
+            <span className="ml-auto font-mono">
+              ~{contextWindow.tokens.toLocaleString()} / {contextWindow.budget.toLocaleString()} tokens
+            </span>
+          </div>
+        )}
+        {(!isOnline || (queuedPrompts.length > 0 && !isSending)) && !readOnly && (
+          <div className="mb-2 flex items-center gap-2 text-xs text-muted-foreground">
+            {isOnline ? <Clock className="w-3 h-3" /> : <WifiOff className="w-3 h-3" />}
+            <span>
+              {!isOnline
+                ? "Offline - new prompts are queued and sent when you reconnect"
+                : `${queuedPrompts.length} prompt${queuedPrompts.length === 1 ? "" : "s"} waiting to send`}
+            </span>
+            {isOnline && onRetryQueued && queuedPrompts.length > 0 && isSessionActive && (
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                className="ml-auto h-6 px-2 text-xs"
+                onClick={onRetryQueued}
+              >
+                <RefreshCw className="w-3 h-3 mr-1" />
+                Send now
+              </Button>
+            )}
+          </div>
+        )}
+        {attachments.length > 0 && (
+          <div className="mb-2 space-y-1">
+            <div className="flex flex-wrap gap-1">
+              {attachments.map((attachment) => (
+                <Badge key={attachment.id} variant="secondary" className="gap-1 font-normal">
+                  <FileText className="w-3 h-3" />
+                  <span className="max-w-[12rem] truncate">{attachment.name}</span>
+                  <span className="text-muted-foreground">
+                    ~{attachment.tokens.toLocaleString()} tokens
+                  </span>
+                  <button
+                    type="button"
+                    onClick={() => removeAttachment(attachment.id)}
+                    className="ml-1 rounded-sm opacity-70 hover:opacity-100"
+                    aria-label={`Remove ${attachment.name}`}
+                  >
+                    <X className="w-3 h-3" />
+                  </button>
+                </Badge>
+              ))}
+            </div>
+            {contextWindow && attachmentTokens > contextWindow.budget && (
+              <p className="text-xs text-muted-foreground">
+                Attachments exceed the {contextWindow.budget.toLocaleString()}-token context budget
+                and will be truncated
+              </p>
+            )}
+          </div>
+        )}
+        {showSuggestions && (
+          <div
+            role="listbox"
+            aria-label="Prompt templates"
+            className="mb-2 rounded-md border bg-popover text-popover-foreground shadow-md overflow-hidden"
+          >
+            {suggestions.map((template, index) => (
+              <button
+                key={template.id}
+                type="button"
+                role="option"
+                aria-selected={index === suggestionIndex}
+                onMouseEnter={() => setSuggestionIndex(index)}
+                onMouseDown={(e) => e.preventDefault()} // Keep focus in the textarea
+                onClick={() => pickTemplate(template)}
+                className={cn(
+                  "flex w-full items-center gap-2 px-3 py-2 text-left text-sm",
+                  index === suggestionIndex && "bg-accent text-accent-foreground"
+                )}
+              >
+                <BookText className="w-4 h-4 shrink-0 text-muted-foreground" />
+                <span className="font-mono">/{template.command}</span>
+                <span className="truncate text-muted-foreground">
+                  {template.description || template.name}
+                </span>
+              </button>
+            ))}
+          </div>
+        )}
         <form onSubmit={handleSubmit} className="flex gap-2">
+          <input
+            ref={fileInputRef}
+            type="file"
+            multiple
+            accept={ATTACHMENT_ACCEPT}
+            onChange={handleFilesSelected}
+            className="hidden"
+          />
+          <Button
+            type="button"
+            variant="outline"
+            size="lg"
+            className="h-auto px-3"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={
+              !isSessionActive ||
+              isSending ||
+              readOnly ||
+              isReadingFiles ||
+              attachments.length >= MAX_ATTACHMENTS
+            }
+            aria-label="Attach files"
+          >
+            {isReadingFiles ? (
+              <Loader2 className="w-5 h-5 animate-spin" />
+            ) : (
+              <Paperclip className="w-5 h-5" />
+            )}
+          </Button>
           <Textarea
+            ref={textareaRef}
             value={input}
             onChange={(e) => setInput(e.target.value)}
             onKeyDown={handleKeyDown}
             placeholder={
-              !isSessionActive
+              readOnly
+                ? "Viewing a saved conversation (read-only)"
+                : !isSessionActive
                 ? "Start a session first..."
-                : "Type your message... (Enter to send, Shift+Enter for new line)"
+                : "Type your message or / for templates... (Enter to send, Shift+Enter for new line)"
             }
-            disabled={!isSessionActive || isSending}
+            disabled={!isSessionActive || isSending || readOnly}
             rows={2}
             className="resize-none min-h-[60px]"
           />
-          <Button
-            type="submit"
-            disabled={!isSessionActive || !input.trim() || isSending}
-            size="lg"
-            className="h-auto px-4 transition-all duration-300 hover:scale-105 active:scale-95 hover:shadow-lg hover:shadow-primary/50"
-          >
-            {isSending ? (
-              <Loader2 className="w-5 h-5 animate-spin" />
-            ) : (
-              <Send className="w-5 h-5 transition-transform group-hover:translate-x-1" />
-            )}
-          </Button>
+          {isSending && onStopGeneration ? (
+            <Button
+              type="button"
+              onClick={onStopGeneration}
+              variant="destructive"
+              size="lg"
+              className="h-auto px-4"
+              aria-label="Stop generating"
+            >
+              <Square className="w-5 h-5" />
+            </Button>
+          ) : (
+            <Button
+              type="submit"
+              disabled={!isSessionActive || !input.trim() || isSending || readOnly}
+              size="lg"
+              className="h-auto px-4 transition-all duration-300 hover:scale-105 active:scale-95 hover:shadow-lg hover:shadow-primary/50"
+            >
+              {isSending ? (
+                <Loader2 className="w-5 h-5 animate-spin" />
+              ) : (
+                <Send className="w-5 h-5 transition-transform group-hover:translate-x-1" />
+              )}
+            </Button>
+          )}
         </form>
 
-        {!isSessionActive && (
+        {!isSessionActive && !readOnly && (
           <p className="mt-2 text-xs md:text-sm text-muted-foreground text-center">
             Please start a session to begin chatting
           </p>
         )}
       </div>
+
+      <PromptVariablesDialog
+        template={pendingTemplate}
+        onOpenChange={(open) => !open && setPendingTemplate(null)}
+        onSubmit={(prompt) => {
+          setInput(prompt);
+          textareaRef.current?.focus();
+        }}
+      />
     </Card>
   );
 }
@@ -0,0 +1,146 @@
+// Copyright (c) 2025 Fabstir
+// SPDX-License-Identifier: BUSL-1.1
+
+"use client";
+
+import { useState } from "react";
+import { AlertTriangle, CheckCircle2, ChevronDown, ChevronUp, ExternalLink, ShieldCheck } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { PaymentToken, ProofCheckpoint } from "@/types/chat";
+import { CheckpointReconciliation } from "@/lib/checkpoints";
+import { formatTokenAmount } from "@/lib/pricing";
+import { BLOCK_EXPLORER_URLS } from "@/lib/constants";
+
+interface CheckpointTimelineProps {
+  checkpoints: ProofCheckpoint[];
+  reconciliation: CheckpointReconciliation;
+  paymentToken?: PaymentToken;
+}
+
+const RECONCILIATION_LABELS: Record<CheckpointReconciliation["status"], string> = {
+  "in-sync": "In sync",
+  behind: "Checkpoint overdue",
+  "over-settled": "Settled more than counted",
+};
+
+export function CheckpointTimeline({
+  checkpoints,
+  reconciliation,
+  paymentToken = "USDC",
+}: CheckpointTimelineProps) {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const { localTokens, settledTokens, settledAmount, unsettledTokens, proofInterval, status } =
+    reconciliation;
+
+  return (
+    <Collapsible open={isExpanded} onOpenChange={setIsExpanded} className="w-full space-y-2">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-muted-foreground flex items-center gap-2">
+          <ShieldCheck className="h-4 w-4" />
+          Proof Checkpoints
+          <Badge variant="secondary" className="text-xs">
+            {checkpoints.length}
+          </Badge>
+        </h3>
+        <CollapsibleTrigger asChild>
+          <Button variant="ghost" size="sm">
+            {isExpanded ? (
+              <>
+                <ChevronUp className="h-4 w-4 mr-1" />
+                Hide Timeline
+              </>
+            ) : (
+              <>
+                <ChevronDown className="h-4 w-4 mr-1" />
+                Show Timeline
+              </>
+            )}
+          </Button>
+        </CollapsibleTrigger>
+      </div>
+
+      <CollapsibleContent>
+        <Card>
+          <CardContent className="p-4 space-y-4">
+            {/* Reconciliation: local receipt counts vs settled checkpoints */}
+            <div className="flex items-start justify-between gap-4 flex-wrap text-sm">
+              <div className="space-y-1">
+                <div>
+                  <span className="text-muted-foreground">Counted locally:</span>{" "}
+                  <span className="font-mono">{localTokens.toLocaleString()}</span> tokens
+                </div>
+                <div>
+                  <span className="text-muted-foreground">Settled:</span>{" "}
+                  <span className="font-mono">{settledTokens.toLocaleString()}</span> tokens (
+                  {formatTokenAmount(settledAmount, paymentToken)})
+                </div>
+                <div className="text-xs text-muted-foreground">
+                  {unsettledTokens >= 0
+                    ? `${unsettledTokens.toLocaleString()} tokens awaiting the next checkpoint (every ${proofInterval} tokens)`
+                    : `${(-unsettledTokens).toLocaleString()} more tokens settled than counted locally`}
+                </div>
+              </div>
+              <Badge
+                variant="outline"
+                className={`text-xs ${
+                  status === "in-sync" ? "border-green-500/50 text-green-600" : "border-orange-500/50 text-orange-600"
+                }`}
+              >
+                {status === "in-sync" ? (
+                  <CheckCircle2 className="h-3 w-3 mr-1" />
+                ) : (
+                  <AlertTriangle className="h-3 w-3 mr-1" />
+                )}
+                {RECONCILIATION_LABELS[status]}
+              </Badge>
+            </div>
+
+            {checkpoints.length === 0 ? (
+              <p className="text-xs text-muted-foreground">
+                No checkpoints yet. The host proves usage on-chain every {proofInterval} tokens.
+              </p>
+            ) : (
+              <ol className="border-l border-muted ml-2 space-y-3">
+                {[...checkpoints].reverse().map((checkpoint) => (
+                  <li key={checkpoint.checkpointNumber} className="relative ml-4">
+                    <div className="absolute -left-[1.4rem] top-1.5 h-3 w-3 rounded-full border border-background bg-green-500" />
+                    <div className="flex items-center justify-between gap-2 flex-wrap text-sm">
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium">#{checkpoint.checkpointNumber}</span>
+                        <span className="font-mono text-xs text-muted-foreground">
+                          tokens {checkpoint.startToken.toLocaleString()}–{(checkpoint.endToken - 1).toLocaleString()}
+                        </span>
+                      </div>
+                      <span className="font-mono text-xs">
+                        {formatTokenAmount(checkpoint.amount, checkpoint.paymentToken)}
+                      </span>
+                    </div>
+                    <div className="flex items-center justify-between gap-2 flex-wrap text-xs text-muted-foreground">
+                      <span>{new Date(checkpoint.timestamp).toLocaleTimeString()}</span>
+                      {checkpoint.txHash ? (
+                        <a
+                          href={`${BLOCK_EXPLORER_URLS.BASE_SEPOLIA}/tx/${checkpoint.txHash}`}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="flex items-center gap-1 font-mono hover:text-foreground"
+                        >
+                          {checkpoint.txHash.slice(0, 10)}...{checkpoint.txHash.slice(-6)}
+                          <ExternalLink className="h-3 w-3" />
+                        </a>
+                      ) : (
+                        <span>tx pending</span>
+                      )}
+                    </div>
+                  </li>
+                ))}
+              </ol>
+            )}
+          </CardContent>
+        </Card>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
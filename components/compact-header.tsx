@@ -4,20 +4,26 @@
 'use client';
 
 import Image from 'next/image';
-import { ChevronDown, Wallet } from 'lucide-react';
+import { BookText, ChevronDown, UserCog, Wallet } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 
 interface CompactHeaderProps {
   modelName?: string;
+  personaName?: string;
   primaryBalance?: string;
   onModelClick?: () => void;
+  onPersonaClick?: () => void;
+  onPromptsClick?: () => void;
   onBalanceClick?: () => void;
 }
 
 export function CompactHeader({
   modelName = 'No model selected',
+  personaName,
   primaryBalance,
   onModelClick,
+  onPersonaClick,
+  onPromptsClick,
   onBalanceClick,
 }: CompactHeaderProps) {
   return (
@@ -35,16 +41,42 @@ export function CompactHeader({
           />
         </div>
 
-        {/* Center: Model Name (Clickable) */}
-        <Button
-          variant="ghost"
-          size="sm"
-          onClick={onModelClick}
-          className="flex items-center gap-2 font-medium"
-        >
-          <span className="text-sm">{modelName}</span>
-          <ChevronDown className="h-4 w-4 opacity-50" />
-        </Button>
+        {/* Center: Model Name and Persona (Clickable) */}
+        <div className="flex items-center gap-1">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={onModelClick}
+            className="flex items-center gap-2 font-medium"
+          >
+            <span className="text-sm">{modelName}</span>
+            <ChevronDown className="h-4 w-4 opacity-50" />
+          </Button>
+          {onPersonaClick && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={onPersonaClick}
+              className="flex items-center gap-2"
+              aria-label="Choose persona"
+            >
+              <UserCog className="h-4 w-4" />
+              <span className="hidden sm:inline text-sm">{personaName || 'No persona'}</span>
+            </Button>
+          )}
+          {onPromptsClick && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={onPromptsClick}
+              className="flex items-center gap-2"
+              aria-label="Prompt library"
+            >
+              <BookText className="h-4 w-4" />
+              <span className="hidden sm:inline text-sm">Prompts</span>
+            </Button>
+          )}
+        </div>
 
         {/* Right: PRIMARY Balance (Clickable) */}
         <Button
@@ -0,0 +1,471 @@
+// Copyright (c) 2025 Fabstir
+// SPDX-License-Identifier: BUSL-1.1
+
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import {
+  Send,
+  Square,
+  Loader2,
+  Play,
+  StopCircle,
+  Trophy,
+  Timer,
+  Zap,
+  DollarSign,
+  X,
+  Columns2,
+} from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { ThinkingAnimation } from "@/components/brand";
+import { getModelDisplayName } from "@/components/model-selector";
+import { useChatSession } from "@/hooks/use-chat-session";
+import { UserSettings } from "@/hooks/use-user-settings";
+import { useAnalytics } from "@/lib/analytics";
+import { cn } from "@/lib/utils";
+import { resolveModelFile } from "@/lib/models";
+import { formatTokenAmount, formatPricePerToken, getPricePerToken, sumReceipts } from "@/lib/pricing";
+import { ChatMessage } from "@/types/chat";
+import { ParsedHost } from "@/types/host";
+
+// SDK types
+type SessionManager = any;
+type StorageManager = any;
+
+type Side = "left" | "right";
+type Verdict = Side | "tie";
+
+interface CompareModeProps {
+  sessionManager: SessionManager | null;
+  paymentManager?: any;
+  storageManager?: StorageManager | null;
+  userAddress?: string;
+  hosts: ParsedHost[];
+  defaultHost: ParsedHost | null;
+  settings?: UserSettings | null; // Caps, quotas and approval policy apply to both sides
+  systemPrompt?: string; // Applied to both sides
+  onExit: () => void;
+}
+
+// One host/model pair; a host serving several models yields several options
+interface CompareOption {
+  key: string;
+  host: ParsedHost;
+  model: string;
+}
+
+const selectClassName =
+  "h-8 w-full rounded-md border border-input bg-background px-2 text-xs disabled:opacity-50";
+
+function shortAddress(address: string): string {
+  return address.length > 12 ? `${address.slice(0, 6)}...${address.slice(-4)}` : address;
+}
+
+function formatMs(ms?: number): string {
+  if (ms === undefined) return "–";
+  return ms < 1000 ? `${ms} ms` : `${(ms / 1000).toFixed(1)} s`;
+}
+
+function getOptions(hosts: ParsedHost[]): CompareOption[] {
+  return hosts.flatMap((host) =>
+    host.models.map((model) => ({ key: `${host.address}|${model}`, host, model }))
+  );
+}
+
+/**
+ * Default pairing: the current host on the left, and on the right another
+ * model (or, failing that, another host) so the sides actually differ
+ */
+function getDefaultKeys(options: CompareOption[], defaultHost: ParsedHost | null): [string, string] {
+  const left =
+    options.find((o) => o.host.address === defaultHost?.address) ?? options[0];
+  const right =
+    options.find((o) => left && o.model !== left.model) ??
+    options.find((o) => left && o.key !== left.key) ??
+    left;
+  return [left?.key ?? "", right?.key ?? ""];
+}
+
+/**
+ * Assistant replies on the active branch, one per round
+ */
+function getReplies(messages: ChatMessage[]): ChatMessage[] {
+  return messages.filter((m) => m.role === "assistant");
+}
+
+function isSettled(message?: ChatMessage): boolean {
+  return !!message && message.status !== "streaming";
+}
+
+export function CompareMode({
+  sessionManager,
+  paymentManager,
+  storageManager,
+  userAddress,
+  hosts,
+  defaultHost,
+  settings,
+  systemPrompt = "",
+  onExit,
+}: CompareModeProps) {
+  const options = getOptions(hosts);
+  const [selectedKeys, setSelectedKeys] = useState<Record<Side, string>>(() => {
+    const [left, right] = getDefaultKeys(options, defaultHost);
+    return { left, right };
+  });
+  const [input, setInput] = useState("");
+  // Winner per round (index into each side's replies)
+  const [verdicts, setVerdicts] = useState<Record<number, Verdict>>({});
+  const analytics = useAnalytics();
+
+  const leftOption = options.find((o) => o.key === selectedKeys.left) ?? null;
+  const rightOption = options.find((o) => o.key === selectedKeys.right) ?? null;
+
+  // Two independent sessions; each side pins its model via settings.selectedModel
+  const left = useChatSession(
+    sessionManager,
+    leftOption?.host ?? null,
+    paymentManager,
+    userAddress,
+    storageManager,
+    { ...settings, selectedModel: leftOption?.model }
+  );
+  const right = useChatSession(
+    sessionManager,
+    rightOption?.host ?? null,
+    paymentManager,
+    userAddress,
+    storageManager,
+    { ...settings, selectedModel: rightOption?.model }
+  );
+  const sides: Record<Side, { session: typeof left; option: CompareOption | null }> = {
+    left: { session: left, option: leftOption },
+    right: { session: right, option: rightOption },
+  };
+
+  // Both sides answer with the same persona
+  const { setSystemPrompt: setLeftSystemPrompt } = left;
+  const { setSystemPrompt: setRightSystemPrompt } = right;
+  useEffect(() => {
+    setLeftSystemPrompt(systemPrompt);
+    setRightSystemPrompt(systemPrompt);
+  }, [systemPrompt, setLeftSystemPrompt, setRightSystemPrompt]);
+
+  const bothActive = left.isSessionActive && right.isSessionActive;
+  const anyActive = left.isSessionActive || right.isSessionActive;
+  const isStarting = left.isStartingSession || right.isStartingSession;
+  const isEnding = left.isEndingSession || right.isEndingSession;
+  const isSending = left.isSendingMessage || right.isSendingMessage;
+
+  const leftReplies = getReplies(left.messages);
+  const rightReplies = getReplies(right.messages);
+  const rounds = Math.min(leftReplies.length, rightReplies.length);
+
+  const wins = Object.values(verdicts).reduce(
+    (tally, verdict) => ({ ...tally, [verdict]: tally[verdict] + 1 }),
+    { left: 0, right: 0, tie: 0 } as Record<Verdict, number>
+  );
+
+  // One side at a time: both sessions approve and deposit from the same account,
+  // and concurrent transactions from it would collide on nonces
+  const handleStart = () => {
+    const startRight = () => {
+      if (!right.isSessionActive) right.startSession();
+    };
+
+    if (left.isSessionActive) {
+      startRight();
+    } else {
+      left.startSession(undefined, { onSettled: startRight });
+    }
+  };
+
+  const handleEnd = () => {
+    if (left.isSessionActive) left.endSession();
+    if (right.isSessionActive) right.endSession();
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!input.trim() || !bothActive || isSending) return;
+
+    // Fan out: the same prompt goes to both sessions at once
+    left.sendMessage(input);
+    right.sendMessage(input);
+    setInput("");
+  };
+
+  const handleStop = () => {
+    left.stopGeneration();
+    right.stopGeneration();
+  };
+
+  const pickWinner = (round: number, verdict: Verdict) => {
+    setVerdicts((prev) => ({ ...prev, [round]: verdict }));
+
+    if (!leftOption || !rightOption) return;
+    const describe = (option: CompareOption) => ({
+      model: resolveModelFile(option.model) ?? option.model,
+      hostAddress: option.host.address,
+    });
+    analytics.compareVerdict(round + 1, verdict, describe(leftOption), describe(rightOption));
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* Toolbar */}
+      <div className="flex flex-wrap items-center gap-2">
+        <Columns2 className="h-5 w-5 text-primary" />
+        <h2 className="font-semibold">Compare Mode</h2>
+        {rounds > 0 && (
+          <Badge variant="outline" className="gap-1">
+            <Trophy className="h-3 w-3" />
+            Left {wins.left} · Right {wins.right} · Tie {wins.tie}
+          </Badge>
+        )}
+        <div className="ml-auto flex gap-2">
+          {anyActive ? (
+            <Button size="sm" variant="destructive" onClick={handleEnd} disabled={isEnding || isSending}>
+              {isEnding ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <StopCircle className="h-4 w-4 mr-2" />
+              )}
+              End Both Sessions
+            </Button>
+          ) : (
+            <Button
+              size="sm"
+              onClick={handleStart}
+              disabled={isStarting || !leftOption || !rightOption}
+            >
+              {isStarting ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <Play className="h-4 w-4 mr-2" />
+              )}
+              Start Both Sessions
+            </Button>
+          )}
+          {!bothActive && anyActive && !isStarting && (
+            <Button size="sm" variant="outline" onClick={handleStart}>
+              Retry Start
+            </Button>
+          )}
+          <Button
+            size="sm"
+            variant="ghost"
+            onClick={onExit}
+            disabled={anyActive}
+            title={anyActive ? "End both sessions first" : undefined}
+          >
+            <X className="h-4 w-4 mr-2" />
+            Exit Compare
+          </Button>
+        </div>
+      </div>
+
+      {/* Side-by-side panels */}
+      <div className="grid gap-4 md:grid-cols-2">
+        {(["left", "right"] as Side[]).map((side) => {
+          const { session, option } = sides[side];
+          const replies = side === "left" ? leftReplies : rightReplies;
+          const otherReplies = side === "left" ? rightReplies : leftReplies;
+          const lastReply = replies[replies.length - 1];
+          const totals = sumReceipts(replies);
+          const paymentToken = session.sessionPaymentToken;
+          const price = option
+            ? formatPricePerToken(getPricePerToken(option.host, paymentToken).toString(), paymentToken)
+            : "–";
+
+          return (
+            <Card key={side} className="flex flex-col">
+              <CardHeader className="space-y-2 pb-3">
+                <CardTitle className="flex items-center justify-between text-sm">
+                  <span>{side === "left" ? "Left" : "Right"}</span>
+                  <span className="flex items-center gap-2">
+                    {wins[side] > 0 && (
+                      <Badge variant="secondary" className="gap-1">
+                        <Trophy className="h-3 w-3" />
+                        {wins[side]}
+                      </Badge>
+                    )}
+                    <span
+                      className={cn(
+                        "h-2 w-2 rounded-full",
+                        session.isSessionActive ? "bg-green-500" : "bg-gray-400"
+                      )}
+                    />
+                  </span>
+                </CardTitle>
+                <select
+                  value={selectedKeys[side]}
+                  onChange={(e) => setSelectedKeys((prev) => ({ ...prev, [side]: e.target.value }))}
+                  disabled={session.isSessionActive || session.isStartingSession}
+                  className={selectClassName}
+                  aria-label={`${side} host and model`}
+                >
+                  {options.map((o) => (
+                    <option key={o.key} value={o.key}>
+                      {getModelDisplayName(o.model)} · {shortAddress(o.host.address)}
+                    </option>
+                  ))}
+                </select>
+
+                {/* Per-side stats */}
+                <div className="grid grid-cols-2 gap-x-3 gap-y-1 text-xs text-muted-foreground">
+                  <span className="flex items-center gap-1" title="Time to first token / total">
+                    <Timer className="h-3 w-3" />
+                    {formatMs(lastReply?.timing?.firstTokenMs)} / {formatMs(lastReply?.timing?.totalMs)}
+                  </span>
+                  <span className="flex items-center gap-1">
+                    <Zap className="h-3 w-3" />
+                    {(totals.inputTokens + totals.outputTokens).toLocaleString()} tokens
+                  </span>
+                  <span className="flex items-center gap-1">
+                    <DollarSign className="h-3 w-3" />
+                    {formatTokenAmount(totals.cost[paymentToken], paymentToken)}
+                  </span>
+                  <span className="font-mono truncate" title={price}>
+                    {price}
+                  </span>
+                </div>
+              </CardHeader>
+
+              <CardContent className="flex-1 p-0">
+                <ScrollArea className="h-[50vh] px-4 pb-4">
+                  {session.messages.length === 0 && (
+                    <p className="py-8 text-center text-sm text-muted-foreground">
+                      Responses from this side appear here
+                    </p>
+                  )}
+                  {session.messages.map((message, idx) => {
+                    const round = message.role === "assistant" ? replies.indexOf(message) : -1;
+                    const canJudge =
+                      round >= 0 && isSettled(message) && isSettled(otherReplies[round]);
+
+                    return (
+                      <div
+                        key={message.id ?? idx}
+                        className={cn(
+                          "mb-3 rounded-lg p-3 text-sm",
+                          message.role === "user" && "bg-primary text-primary-foreground ml-6",
+                          message.role === "assistant" && "bg-muted mr-6",
+                          message.role === "system" && "bg-accent/50 text-center text-xs",
+                          round >= 0 && verdicts[round] === side && "ring-2 ring-yellow-400"
+                        )}
+                      >
+                        {message.status === "streaming" && !message.content ? (
+                          <ThinkingAnimation />
+                        ) : (
+                          <div className="whitespace-pre-wrap break-words">{message.content}</div>
+                        )}
+
+                        {message.role === "assistant" && (
+                          <div className="mt-2 flex flex-wrap items-center gap-2 text-xs opacity-70">
+                            {!!message.tokens && (
+                              <Badge variant="outline">
+                                {message.tokens} tokens
+                                {message.receipt &&
+                                  ` · ${formatTokenAmount(message.receipt.cost, message.receipt.paymentToken)}`}
+                              </Badge>
+                            )}
+                            {message.timing && (
+                              <span>
+                                {formatMs(message.timing.firstTokenMs)} first token ·{" "}
+                                {formatMs(message.timing.totalMs)} total
+                              </span>
+                            )}
+                            {canJudge && (
+                              <Button
+                                type="button"
+                                size="sm"
+                                variant={verdicts[round] === side ? "secondary" : "ghost"}
+                                className="ml-auto h-6 px-2 text-xs"
+                                onClick={() => pickWinner(round, side)}
+                              >
+                                <Trophy className="h-3 w-3 mr-1" />
+                                {verdicts[round] === side ? "Winner" : "Pick"}
+                              </Button>
+                            )}
+                          </div>
+                        )}
+                      </div>
+                    );
+                  })}
+                </ScrollArea>
+              </CardContent>
+            </Card>
+          );
+        })}
+      </div>
+
+      {/* Latest round verdict */}
+      {rounds > 0 && isSettled(leftReplies[rounds - 1]) && isSettled(rightReplies[rounds - 1]) && (
+        <div className="flex items-center justify-center gap-2 text-sm">
+          <span className="text-muted-foreground">Round {rounds}:</span>
+          {(["left", "tie", "right"] as Verdict[]).map((verdict) => (
+            <Button
+              key={verdict}
+              type="button"
+              size="sm"
+              variant={verdicts[rounds - 1] === verdict ? "default" : "outline"}
+              onClick={() => pickWinner(rounds - 1, verdict)}
+            >
+              {verdict === "left" ? "Left is better" : verdict === "right" ? "Right is better" : "Tie"}
+            </Button>
+          ))}
+        </div>
+      )}
+
+      {/* Shared composer: one prompt, both sides */}
+      <form onSubmit={handleSubmit} className="flex gap-2">
+        <Textarea
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter" && !e.shiftKey) {
+              e.preventDefault();
+              handleSubmit(e);
+            }
+          }}
+          placeholder={
+            bothActive
+              ? "Send the same prompt to both sides... (Enter to send)"
+              : "Start both sessions to compare"
+          }
+          disabled={!bothActive || isSending}
+          rows={2}
+          className="resize-none min-h-[60px]"
+        />
+        {isSending ? (
+          <Button
+            type="button"
+            onClick={handleStop}
+            variant="destructive"
+            size="lg"
+            className="h-auto px-4"
+            aria-label="Stop both"
+          >
+            <Square className="w-5 h-5" />
+          </Button>
+        ) : (
+          <Button
+            type="submit"
+            disabled={!bothActive || !input.trim()}
+            size="lg"
+            className="h-auto px-4"
+            aria-label="Send to both"
+          >
+            <Send className="w-5 h-5" />
+          </Button>
+        )}
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,61 @@
+// Copyright (c) 2025 Fabstir
+// SPDX-License-Identifier: BUSL-1.1
+
+"use client";
+
+import { Download, FileText, FileJson, FileCode } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { StoredConversation } from "@/hooks/use-s5-storage";
+import { ExportFormat, downloadConversation } from "@/lib/conversation-export";
+
+interface ConversationExportMenuProps {
+  // Built lazily so the export reflects the conversation at click time
+  getConversation: () => StoredConversation | null;
+  disabled?: boolean;
+}
+
+const FORMAT_OPTIONS: { format: ExportFormat; label: string; icon: typeof FileText }[] = [
+  { format: "markdown", label: "Markdown (.md)", icon: FileText },
+  { format: "json", label: "JSON (.json)", icon: FileJson },
+  { format: "html", label: "HTML page (.html)", icon: FileCode },
+];
+
+export function ConversationExportMenu({
+  getConversation,
+  disabled = false,
+}: ConversationExportMenuProps) {
+  const handleExport = (format: ExportFormat) => {
+    const conversation = getConversation();
+    if (!conversation) return;
+    downloadConversation(conversation, format);
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="sm" disabled={disabled}>
+          <Download className="h-4 w-4 mr-2" />
+          Export
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel>Export conversation</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {FORMAT_OPTIONS.map(({ format, label, icon: Icon }) => (
+          <DropdownMenuItem key={format} onClick={() => handleExport(format)}>
+            <Icon className="h-4 w-4 mr-2" />
+            {label}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,295 @@
+// Copyright (c) 2025 Fabstir
+// SPDX-License-Identifier: BUSL-1.1
+
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { History, RefreshCw, MessageSquare, X, Search, Loader2, Upload } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Input } from "@/components/ui/input";
+import { cn } from "@/lib/utils";
+import { StoredConversation, getConversationTitle } from "@/hooks/use-s5-storage";
+import { getModelDisplayName } from "@/components/model-selector";
+import { formatTokenAmount } from "@/lib/pricing";
+import { useConversationSearch } from "@/hooks/use-conversation-search";
+
+// Date filter options (age in milliseconds)
+const DATE_RANGES = [
+  { label: "Any time", value: "" },
+  { label: "Last 24 hours", value: String(24 * 60 * 60 * 1000) },
+  { label: "Last 7 days", value: String(7 * 24 * 60 * 60 * 1000) },
+  { label: "Last 30 days", value: String(30 * 24 * 60 * 60 * 1000) },
+];
+
+const selectClassName =
+  "h-8 w-full rounded-md border border-input bg-background px-2 text-xs";
+
+interface ConversationHistorySidebarProps {
+  conversations: StoredConversation[];
+  isLoading: boolean;
+  activeConversationId?: string | null;
+  onOpenConversation: (conversationId: string, messageId?: string) => void;
+  onRefresh: () => void;
+  onImport?: (file: File) => void;
+  onClose?: () => void;
+  className?: string;
+}
+
+function shortAddress(address: string): string {
+  return address.length > 12 ? `${address.slice(0, 6)}...${address.slice(-4)}` : address;
+}
+
+function formatDate(timestamp: number): string {
+  return new Date(timestamp).toLocaleString(undefined, {
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+export function ConversationHistorySidebar({
+  conversations,
+  isLoading,
+  activeConversationId,
+  onOpenConversation,
+  onRefresh,
+  onImport,
+  onClose,
+  className,
+}: ConversationHistorySidebarProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { query, setQuery, filters, setFilters, results, facets, refreshFacets, isSearching } =
+    useConversationSearch();
+  const [dateRange, setDateRange] = useState("");
+
+  // New conversations may add models or hosts to filter by
+  useEffect(() => {
+    refreshFacets();
+  }, [conversations, refreshFacets]);
+
+  const isSearchActive = query.trim().length > 0;
+
+  // Newest first
+  const sorted = [...conversations].sort(
+    (a, b) => (b.metadata?.timestamp ?? 0) - (a.metadata?.timestamp ?? 0)
+  );
+
+  return (
+    <Card className={cn("flex flex-col h-[70vh] md:h-[65vh] lg:h-[70vh]", className)}>
+      <CardHeader className="p-4 pb-2">
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2 text-base">
+            <History className="h-4 w-4" />
+            History
+          </CardTitle>
+          <div className="flex items-center gap-1">
+            {onImport && (
+              <>
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept="application/json,.json"
+                  className="hidden"
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) onImport(file);
+                    e.target.value = ""; // Allow re-importing the same file
+                  }}
+                />
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7"
+                  onClick={() => fileInputRef.current?.click()}
+                  aria-label="Import conversation"
+                  title="Import JSON export"
+                >
+                  <Upload className="h-4 w-4" />
+                </Button>
+              </>
+            )}
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7"
+              onClick={onRefresh}
+              disabled={isLoading}
+              aria-label="Refresh history"
+            >
+              <RefreshCw className={cn("h-4 w-4", isLoading && "animate-spin")} />
+            </Button>
+            {onClose && (
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7"
+                onClick={onClose}
+                aria-label="Close history"
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            )}
+          </div>
+        </div>
+      </CardHeader>
+
+      {/* Search & Filters */}
+      <div className="px-4 pb-2 space-y-2">
+        <div className="relative">
+          <Search className="absolute left-2 top-2 h-4 w-4 text-muted-foreground" />
+          <Input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search conversations..."
+            className="h-8 pl-8 text-sm"
+            aria-label="Search conversations"
+          />
+        </div>
+        {isSearchActive && (
+          <div className="grid grid-cols-3 gap-1">
+            <select
+              value={filters.model ?? ""}
+              onChange={(e) => setFilters({ ...filters, model: e.target.value || undefined })}
+              className={selectClassName}
+              aria-label="Filter by model"
+            >
+              <option value="">All models</option>
+              {facets.models.map((model) => (
+                <option key={model} value={model}>
+                  {getModelDisplayName(model)}
+                </option>
+              ))}
+            </select>
+            <select
+              value={filters.provider ?? ""}
+              onChange={(e) => setFilters({ ...filters, provider: e.target.value || undefined })}
+              className={selectClassName}
+              aria-label="Filter by host"
+            >
+              <option value="">All hosts</option>
+              {facets.providers.map((provider) => (
+                <option key={provider} value={provider}>
+                  {shortAddress(provider)}
+                </option>
+              ))}
+            </select>
+            <select
+              value={dateRange}
+              onChange={(e) => {
+                setDateRange(e.target.value);
+                setFilters({
+                  ...filters,
+                  from: e.target.value ? Date.now() - Number(e.target.value) : undefined,
+                });
+              }}
+              className={selectClassName}
+              aria-label="Filter by date"
+            >
+              {DATE_RANGES.map((range) => (
+                <option key={range.label} value={range.value}>
+                  {range.label}
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+      </div>
+
+      <CardContent className="flex-1 p-0 min-h-0">
+        <ScrollArea className="h-full px-2 pb-2">
+          {/* Search Results */}
+          {isSearchActive && (
+            <>
+              {isSearching && (
+                <div className="flex items-center justify-center gap-2 p-4 text-sm text-muted-foreground">
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                  Searching...
+                </div>
+              )}
+              {!isSearching && results.length === 0 && (
+                <div className="p-6 text-center text-sm text-muted-foreground">
+                  No messages match "{query}"
+                </div>
+              )}
+              {results.map((result) => (
+                <button
+                  key={`${result.conversationId}:${result.messageId}`}
+                  onClick={() => onOpenConversation(result.conversationId, result.messageId)}
+                  className="w-full rounded-md p-3 text-left transition-colors hover:bg-muted"
+                >
+                  <div className="text-xs font-medium text-muted-foreground line-clamp-1">
+                    {result.title || "Untitled conversation"}
+                  </div>
+                  <div className="mt-1 text-sm break-words">
+                    <span className="text-xs font-semibold mr-1">
+                      {result.role === "user" ? "You:" : "AI:"}
+                    </span>
+                    {result.snippet.map((segment, i) =>
+                      segment.match ? (
+                        <mark key={i} className="rounded bg-yellow-200 px-0.5 dark:bg-yellow-800">
+                          {segment.text}
+                        </mark>
+                      ) : (
+                        <span key={i}>{segment.text}</span>
+                      )
+                    )}
+                  </div>
+                  <div className="mt-1 text-xs text-muted-foreground">
+                    {formatDate(result.timestamp)} · {getModelDisplayName(result.model)}
+                  </div>
+                </button>
+              ))}
+            </>
+          )}
+
+          {!isSearchActive && sorted.length === 0 && !isLoading && (
+            <div className="flex flex-col items-center justify-center gap-2 p-6 text-center text-sm text-muted-foreground">
+              <MessageSquare className="h-6 w-6" />
+              No saved conversations yet
+            </div>
+          )}
+
+          {!isSearchActive && sorted.map((conversation) => (
+            <button
+              key={conversation.id}
+              onClick={() => onOpenConversation(conversation.id)}
+              className={cn(
+                "w-full rounded-md p-3 text-left transition-colors hover:bg-muted",
+                activeConversationId === conversation.id && "bg-muted"
+              )}
+            >
+              <div className="text-sm font-medium line-clamp-2">
+                {getConversationTitle(conversation)}
+              </div>
+              <div className="mt-1 text-xs text-muted-foreground">
+                {conversation.metadata?.timestamp
+                  ? formatDate(conversation.metadata.timestamp)
+                  : "Unknown date"}
+              </div>
+              <div className="mt-2 flex flex-wrap gap-1">
+                {conversation.metadata?.model && (
+                  <Badge variant="outline" className="text-xs">
+                    {getModelDisplayName(conversation.metadata.model)}
+                  </Badge>
+                )}
+                <Badge variant="outline" className="text-xs">
+                  {(conversation.metadata?.totalTokens ?? 0).toLocaleString()} tokens
+                </Badge>
+                <Badge variant="outline" className="text-xs">
+                  {formatTokenAmount(
+                    conversation.metadata?.totalCost ?? 0,
+                    conversation.metadata?.paymentToken ?? "USDC"
+                  )}
+                </Badge>
+              </div>
+            </button>
+          ))}
+        </ScrollArea>
+      </CardContent>
+    </Card>
+  );
+}
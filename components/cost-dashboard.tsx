@@ -17,49 +17,50 @@ import {
   ResponsiveContainer,
 } from "recharts";
 import { DollarSign, Zap, TrendingUp, Wallet, ChevronDown, ChevronUp, BarChart3 } from "lucide-react";
-import { ParsedHost } from "@/types/host";
+import { ChatMessage, PaymentToken } from "@/types/chat";
+import { formatTokenAmount, sumReceipts } from "@/lib/pricing";
 import { useState } from "react";
 
 interface CostDashboardProps {
   usdcBalance: string;
   ethBalance?: string;
-  totalCost: number;
-  totalTokens: number;
-  messages: Array<{
-    timestamp: number;
-    tokens?: number;
-    role?: string;
-  }>;
-  selectedHost?: ParsedHost | null;
+  messages: ChatMessage[];
+  // Token the session is paying in (used when there are no receipts yet)
+  paymentToken?: PaymentToken;
 }
 
 export function CostDashboard({
   usdcBalance,
   ethBalance,
-  totalCost,
-  totalTokens,
   messages,
-  selectedHost,
+  paymentToken = "USDC",
 }: CostDashboardProps) {
-  // Prepare data for chart - only include messages with tokens
-  const messagesWithTokens = messages.filter((m) => m.tokens && m.role !== "system");
+  // Aggregate from the same per-message receipts shown in the chat
+  const receiptMessages = messages.filter((m) => m.receipt && m.role !== "system");
+  const totals = sumReceipts(receiptMessages);
+  const totalTokens = totals.inputTokens + totals.outputTokens;
 
-  // Use actual pricing from selected host
-  const pricePerToken = selectedHost?.minPricePerTokenStable
-    ? Number(selectedHost.minPricePerTokenStable)
-    : 316;  // Fallback to 0.000316 USDC/token
+  // A session pays in a single token, so its receipts all share one
+  const costToken: PaymentToken = receiptMessages[0]?.receipt?.paymentToken ?? paymentToken;
+  const totalCost = totals.cost[costToken];
 
-  const chartData = messagesWithTokens.map((m, idx) => ({
-    index: idx + 1,
-    tokens: m.tokens!,
-    cost: (m.tokens! * pricePerToken) / 1000000,
-    cumulative: messagesWithTokens
-      .slice(0, idx + 1)
-      .reduce((sum, msg) => sum + (msg.tokens || 0), 0),
-  }));
+  let cumulative = 0;
+  const chartData = receiptMessages.map((m, idx) => {
+    const tokens = m.receipt!.inputTokens + m.receipt!.outputTokens;
+    cumulative += tokens;
+    return {
+      index: idx + 1,
+      tokens,
+      inputTokens: m.receipt!.inputTokens,
+      outputTokens: m.receipt!.outputTokens,
+      cost: m.receipt!.cost,
+      paymentToken: m.receipt!.paymentToken,
+      cumulative,
+    };
+  });
 
-  const avgCostPerMessage =
-    messagesWithTokens.length > 0 ? totalCost / messagesWithTokens.length : 0;
+  const avgCostPerMessage = totals.messages > 0 ? totalCost / totals.messages : 0;
+  const costPer1kTokens = totalTokens > 0 ? (totalCost / totalTokens) * 1000 : 0;
 
   const [isExpanded, setIsExpanded] = useState(false);
 
@@ -105,22 +106,22 @@ export function CostDashboard({
             <CardContent>
               <div className="text-2xl font-bold">${usdcBalance}</div>
               <p className="text-xs text-muted-foreground">
-                Available for sessions
+                {costToken === "USDC" ? "Paying this session" : "Available for sessions"}
               </p>
             </CardContent>
           </Card>
 
           {/* ETH Balance */}
-          {ethBalance && (
+          {(ethBalance || costToken === "ETH") && (
             <Card>
               <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
                 <CardTitle className="text-sm font-medium">ETH Balance</CardTitle>
                 <Wallet className="h-4 w-4 text-muted-foreground" />
               </CardHeader>
               <CardContent>
-                <div className="text-2xl font-bold">{ethBalance} ETH</div>
+                <div className="text-2xl font-bold">{ethBalance ?? "0.0000"} ETH</div>
                 <p className="text-xs text-muted-foreground">
-                  For gas fees
+                  {costToken === "ETH" ? "Paying this session" : "For gas fees"}
                 </p>
               </CardContent>
             </Card>
@@ -133,9 +134,12 @@ export function CostDashboard({
               <TrendingUp className="h-4 w-4 text-muted-foreground" />
             </CardHeader>
             <CardContent>
-              <div className="text-2xl font-bold">${totalCost.toFixed(4)}</div>
+              <div className="text-2xl font-bold">{formatTokenAmount(totalCost, costToken)}</div>
               <p className="text-xs text-muted-foreground">
-                ${avgCostPerMessage.toFixed(4)}/message avg
+                {formatTokenAmount(avgCostPerMessage, costToken)}/message avg
+              </p>
+              <p className="text-xs text-muted-foreground">
+                {formatTokenAmount(costPer1kTokens, costToken)} per 1K tokens
               </p>
             </CardContent>
           </Card>
@@ -148,6 +152,9 @@ export function CostDashboard({
             </CardHeader>
             <CardContent>
               <div className="text-2xl font-bold">{totalTokens}</div>
+              <p className="text-xs text-muted-foreground">
+                {totals.inputTokens} in / {totals.outputTokens} out
+              </p>
               <Badge variant="secondary" className="mt-1">
                 ~{Math.ceil(totalTokens / 100)} checkpoints
               </Badge>
@@ -200,10 +207,11 @@ export function CostDashboard({
                               Message #{payload[0].payload.index}
                             </p>
                             <p className="text-sm text-muted-foreground">
-                              Tokens: {payload[0].payload.tokens}
+                              Tokens: {payload[0].payload.tokens} ({payload[0].payload.inputTokens} in /{" "}
+                              {payload[0].payload.outputTokens} out)
                             </p>
                             <p className="text-sm text-muted-foreground">
-                              Cost: ${payload[0].payload.cost.toFixed(4)}
+                              Cost: {formatTokenAmount(payload[0].payload.cost, payload[0].payload.paymentToken)}
                             </p>
                             <p className="text-sm font-medium mt-1">
                               Cumulative: {payload[0].payload.cumulative} tokens
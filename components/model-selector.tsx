@@ -8,6 +8,7 @@ import { Check, Sparkles, Clock } from 'lucide-react';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
+import { resolveModelFile } from '@/lib/models';
 
 // Available models with metadata
 export const AVAILABLE_MODELS = [
@@ -37,6 +38,14 @@ export const AVAILABLE_MODELS = [
   },
 ];
 
+/**
+ * Display name of a model file or ModelRegistry ID (the file name when it isn't listed)
+ */
+export function getModelDisplayName(model: string): string {
+  const file = resolveModelFile(model) ?? model;
+  return AVAILABLE_MODELS.find((m) => m.id === file)?.name || file;
+}
+
 interface ModelSelectorProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
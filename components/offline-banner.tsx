@@ -9,10 +9,11 @@ import { Button } from '@/components/ui/button';
 
 interface OfflineBannerProps {
   pendingUpdates?: number;
+  queuedPrompts?: number; // Prompts waiting in the outbound queue
   onRetry?: () => void;
 }
 
-export function OfflineBanner({ pendingUpdates = 0, onRetry }: OfflineBannerProps) {
+export function OfflineBanner({ pendingUpdates = 0, queuedPrompts = 0, onRetry }: OfflineBannerProps) {
   return (
     <Card className="border-amber-500/50 bg-amber-500/10">
       <CardContent className="flex items-center justify-between gap-4 p-3">
@@ -27,6 +28,11 @@ export function OfflineBanner({ pendingUpdates = 0, onRetry }: OfflineBannerProp
                 ? `${pendingUpdates} change${pendingUpdates !== 1 ? 's' : ''} will sync when reconnected`
                 : 'Changes will sync when your connection is restored'}
             </p>
+            {queuedPrompts > 0 && (
+              <p className="text-xs text-amber-700 dark:text-amber-300">
+                {queuedPrompts} prompt{queuedPrompts !== 1 ? 's' : ''} queued - sent in order when you're back online
+              </p>
+            )}
           </div>
         </div>
 
@@ -0,0 +1,188 @@
+// Copyright (c) 2025 Fabstir
+// SPDX-License-Identifier: BUSL-1.1
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Check, UserCog, Trash2, Save } from 'lucide-react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Separator } from '@/components/ui/separator';
+import { PersonaPreset, getAllPersonas, createPersonaId } from '@/lib/personas';
+
+interface PersonaSelectorProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  customPersonas?: PersonaPreset[];
+  selectedPersonaId?: string;
+  systemPrompt: string;
+  onApply: (systemPrompt: string, personaId?: string) => void;
+  onSavePreset: (preset: PersonaPreset) => void;
+  onDeletePreset: (presetId: string) => void;
+}
+
+export function PersonaSelector({
+  open,
+  onOpenChange,
+  customPersonas = [],
+  selectedPersonaId,
+  systemPrompt,
+  onApply,
+  onSavePreset,
+  onDeletePreset,
+}: PersonaSelectorProps) {
+  const [activeId, setActiveId] = useState<string | undefined>(selectedPersonaId);
+  const [draft, setDraft] = useState(systemPrompt);
+  const [presetName, setPresetName] = useState('');
+
+  // Start from the conversation's current prompt each time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setActiveId(selectedPersonaId);
+      setDraft(systemPrompt);
+      setPresetName('');
+    }
+  }, [open, selectedPersonaId, systemPrompt]);
+
+  const personas = getAllPersonas(customPersonas);
+
+  const handlePick = (persona: PersonaPreset) => {
+    setActiveId(persona.id);
+    setDraft(persona.systemPrompt);
+  };
+
+  const handleApply = () => {
+    // Keep the preset link only if the prompt wasn't edited afterwards
+    const persona = personas.find(p => p.id === activeId);
+    onApply(draft, persona && persona.systemPrompt === draft ? persona.id : undefined);
+    onOpenChange(false);
+  };
+
+  const handleSave = () => {
+    if (!presetName.trim() || !draft.trim()) return;
+
+    const preset: PersonaPreset = {
+      id: createPersonaId(),
+      name: presetName.trim(),
+      systemPrompt: draft.trim(),
+    };
+    onSavePreset(preset);
+    setActiveId(preset.id);
+    setPresetName('');
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <UserCog className="h-5 w-5 text-primary" />
+            Persona & System Prompt
+          </DialogTitle>
+          <DialogDescription>
+            Pick a preset or write your own instructions for this conversation
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          {/* Presets */}
+          <div className="grid gap-3 sm:grid-cols-2">
+            {personas.map(persona => (
+              <div
+                key={persona.id}
+                role="button"
+                tabIndex={0}
+                onClick={() => handlePick(persona)}
+                onKeyDown={(e) => e.key === 'Enter' && handlePick(persona)}
+                className={`p-3 rounded-lg border-2 text-left transition-all hover:border-primary/50 cursor-pointer ${
+                  activeId === persona.id
+                    ? 'border-primary bg-primary/5'
+                    : 'border-muted'
+                }`}
+              >
+                <div className="flex items-start justify-between gap-2">
+                  <div className="flex items-center gap-2">
+                    <h4 className="font-semibold text-sm">{persona.name}</h4>
+                    {activeId === persona.id && (
+                      <Check className="h-4 w-4 text-primary" />
+                    )}
+                  </div>
+                  {persona.builtIn ? (
+                    <Badge variant="outline" className="text-xs">Built-in</Badge>
+                  ) : (
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      className="h-6 w-6"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        onDeletePreset(persona.id);
+                        if (activeId === persona.id) setActiveId(undefined);
+                      }}
+                      aria-label={`Delete ${persona.name}`}
+                    >
+                      <Trash2 className="h-3 w-3" />
+                    </Button>
+                  )}
+                </div>
+                <p className="text-xs text-muted-foreground mt-1 line-clamp-2">
+                  {persona.description || persona.systemPrompt}
+                </p>
+              </div>
+            ))}
+          </div>
+
+          <Separator />
+
+          {/* System Prompt Editor */}
+          <div className="space-y-2">
+            <Label htmlFor="system-prompt">System prompt for this conversation</Label>
+            <Textarea
+              id="system-prompt"
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              placeholder="e.g. You are a friendly assistant that answers in plain English."
+              rows={5}
+              className="resize-none"
+            />
+            <p className="text-xs text-muted-foreground">
+              Sent ahead of every prompt. Leave empty to chat without a system prompt.
+            </p>
+          </div>
+
+          {/* Save as Preset */}
+          <div className="flex gap-2">
+            <Input
+              value={presetName}
+              onChange={(e) => setPresetName(e.target.value)}
+              placeholder="Preset name"
+            />
+            <Button
+              type="button"
+              variant="outline"
+              onClick={handleSave}
+              disabled={!presetName.trim() || !draft.trim()}
+            >
+              <Save className="h-4 w-4 mr-2" />
+              Save as Preset
+            </Button>
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="ghost" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="button" onClick={handleApply}>
+              Apply to Conversation
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,234 @@
+// Copyright (c) 2025 Fabstir
+// SPDX-License-Identifier: BUSL-1.1
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import { BookText, Pencil, Trash2, Save } from 'lucide-react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Separator } from '@/components/ui/separator';
+import {
+  PromptTemplate,
+  getAllPromptTemplates,
+  extractVariables,
+  toCommand,
+  createPromptTemplateId,
+} from '@/lib/prompt-templates';
+
+interface PromptLibraryProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  customTemplates?: PromptTemplate[];
+  onSaveTemplate: (template: PromptTemplate) => void; // Adds, or replaces the template with the same ID
+  onDeleteTemplate: (templateId: string) => void;
+}
+
+const EMPTY_DRAFT = { name: '', command: '', description: '', body: '' };
+
+export function PromptLibrary({
+  open,
+  onOpenChange,
+  customTemplates = [],
+  onSaveTemplate,
+  onDeleteTemplate,
+}: PromptLibraryProps) {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState(EMPTY_DRAFT);
+
+  useEffect(() => {
+    if (open) {
+      setEditingId(null);
+      setDraft(EMPTY_DRAFT);
+    }
+  }, [open]);
+
+  const templates = getAllPromptTemplates(customTemplates);
+  const command = toCommand(draft.command || draft.name);
+  const variables = extractVariables(draft.body);
+
+  // Commands must be unique so `/command` always resolves to one template
+  const commandTaken = templates.some(t => t.command === command && t.id !== editingId);
+  const canSave = !!draft.name.trim() && !!draft.body.trim() && !!command && !commandTaken;
+
+  const startEditing = (template: PromptTemplate) => {
+    setEditingId(template.id);
+    setDraft({
+      name: template.name,
+      command: template.command,
+      description: template.description || '',
+      body: template.body,
+    });
+  };
+
+  const handleSave = () => {
+    if (!canSave) return;
+
+    onSaveTemplate({
+      id: editingId || createPromptTemplateId(),
+      command,
+      name: draft.name.trim(),
+      description: draft.description.trim() || undefined,
+      body: draft.body,
+    });
+    setEditingId(null);
+    setDraft(EMPTY_DRAFT);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <BookText className="h-5 w-5 text-primary" />
+            Prompt Library
+          </DialogTitle>
+          <DialogDescription>
+            Type <span className="font-mono">/</span> in the message box to use a template.
+            Use <span className="font-mono">{'{{variable}}'}</span> for parts you fill in each time.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          {/* Templates */}
+          <div className="grid gap-3 sm:grid-cols-2">
+            {templates.map(template => (
+              <div
+                key={template.id}
+                className={`p-3 rounded-lg border-2 ${
+                  editingId === template.id ? 'border-primary bg-primary/5' : 'border-muted'
+                }`}
+              >
+                <div className="flex items-start justify-between gap-2">
+                  <div className="min-w-0">
+                    <h4 className="font-semibold text-sm truncate">{template.name}</h4>
+                    <p className="text-xs font-mono text-muted-foreground">/{template.command}</p>
+                  </div>
+                  {template.builtIn ? (
+                    <Badge variant="outline" className="text-xs">Built-in</Badge>
+                  ) : (
+                    <div className="flex gap-1">
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        className="h-6 w-6"
+                        onClick={() => startEditing(template)}
+                        aria-label={`Edit ${template.name}`}
+                      >
+                        <Pencil className="h-3 w-3" />
+                      </Button>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        className="h-6 w-6"
+                        onClick={() => {
+                          onDeleteTemplate(template.id);
+                          if (editingId === template.id) {
+                            setEditingId(null);
+                            setDraft(EMPTY_DRAFT);
+                          }
+                        }}
+                        aria-label={`Delete ${template.name}`}
+                      >
+                        <Trash2 className="h-3 w-3" />
+                      </Button>
+                    </div>
+                  )}
+                </div>
+                <p className="text-xs text-muted-foreground mt-1 line-clamp-2">
+                  {template.description || template.body}
+                </p>
+              </div>
+            ))}
+          </div>
+
+          <Separator />
+
+          {/* Template Editor */}
+          <div className="space-y-3">
+            <h4 className="text-sm font-semibold">
+              {editingId ? 'Edit template' : 'New template'}
+            </h4>
+            <div className="grid gap-3 sm:grid-cols-2">
+              <div className="space-y-1">
+                <Label htmlFor="template-name">Name</Label>
+                <Input
+                  id="template-name"
+                  value={draft.name}
+                  onChange={(e) => setDraft(prev => ({ ...prev, name: e.target.value }))}
+                  placeholder="e.g. Bug Report"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="template-command">Command</Label>
+                <Input
+                  id="template-command"
+                  value={draft.command}
+                  onChange={(e) => setDraft(prev => ({ ...prev, command: e.target.value }))}
+                  placeholder={command ? `/${command}` : '/bug'}
+                  className="font-mono"
+                />
+                {commandTaken && (
+                  <p className="text-xs text-destructive">/{command} is already in use</p>
+                )}
+              </div>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="template-description">Description (optional)</Label>
+              <Input
+                id="template-description"
+                value={draft.description}
+                onChange={(e) => setDraft(prev => ({ ...prev, description: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="template-body">Prompt</Label>
+              <Textarea
+                id="template-body"
+                value={draft.body}
+                onChange={(e) => setDraft(prev => ({ ...prev, body: e.target.value }))}
+                placeholder="Write a bug report for {{component}}. Steps to reproduce: {{steps}}"
+                rows={5}
+                className="resize-none font-mono text-xs"
+              />
+              {variables.length > 0 && (
+                <div className="flex flex-wrap gap-1">
+                  {variables.map(name => (
+                    <Badge key={name} variant="secondary" className="font-mono text-xs">
+                      {name}
+                    </Badge>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+
+          <div className="flex justify-end gap-2">
+            {editingId && (
+              <Button
+                type="button"
+                variant="ghost"
+                onClick={() => {
+                  setEditingId(null);
+                  setDraft(EMPTY_DRAFT);
+                }}
+              >
+                Cancel Edit
+              </Button>
+            )}
+            <Button type="button" onClick={handleSave} disabled={!canSave}>
+              <Save className="h-4 w-4 mr-2" />
+              {editingId ? 'Save Changes' : 'Save Template'}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,92 @@
+// Copyright (c) 2025 Fabstir
+// SPDX-License-Identifier: BUSL-1.1
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Braces } from 'lucide-react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { PromptTemplate, extractVariables, fillTemplate } from '@/lib/prompt-templates';
+
+interface PromptVariablesDialogProps {
+  template: PromptTemplate | null; // Open while set
+  onOpenChange: (open: boolean) => void;
+  onSubmit: (prompt: string) => void;
+}
+
+export function PromptVariablesDialog({
+  template,
+  onOpenChange,
+  onSubmit,
+}: PromptVariablesDialogProps) {
+  const [values, setValues] = useState<Record<string, string>>({});
+
+  // Start with empty fields for every template that's opened
+  useEffect(() => {
+    setValues({});
+  }, [template?.id]);
+
+  if (!template) return null;
+
+  const variables = extractVariables(template.body);
+  const preview = fillTemplate(template.body, values);
+  const isComplete = variables.every(name => values[name]?.trim());
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isComplete) return;
+    onSubmit(preview);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={!!template} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Braces className="h-5 w-5 text-primary" />
+            /{template.command} · {template.name}
+          </DialogTitle>
+          <DialogDescription>
+            Fill in the template variables. The prompt is placed in the composer for review.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {variables.map((name, index) => (
+            <div key={name} className="space-y-1">
+              <Label htmlFor={`template-var-${name}`}>{name}</Label>
+              <Textarea
+                id={`template-var-${name}`}
+                value={values[name] ?? ''}
+                onChange={(e) => setValues(prev => ({ ...prev, [name]: e.target.value }))}
+                rows={2}
+                className="resize-y"
+                autoFocus={index === 0}
+              />
+            </div>
+          ))}
+
+          <div className="space-y-1">
+            <Label>Preview</Label>
+            <pre className="max-h-48 overflow-y-auto whitespace-pre-wrap break-words rounded-md bg-muted p-3 text-xs">
+              {preview}
+            </pre>
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="ghost" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={!isComplete}>
+              Use Prompt
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -4,10 +4,12 @@
 "use client";
 
 import { motion } from "framer-motion";
-import { Play, Square, Loader2, AlertCircle } from "lucide-react";
+import { Play, Pause, Square, Loader2, AlertCircle, RotateCcw } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { ShimmerButton } from "@/components/ui/shimmer-button";
 import { Alert, AlertDescription } from "@/components/ui/alert";
+import { PaymentToken } from "@/types/chat";
+import { SESSION_DEPOSIT_AMOUNTS, formatDepositAmount } from "@/lib/pricing";
 
 interface SessionControlsProps {
   isSessionActive: boolean;
@@ -15,7 +17,15 @@ interface SessionControlsProps {
   onEndSession: () => void;
   isStarting: boolean;
   isEnding: boolean;
+  // Pause / resume
+  isPaused?: boolean;
+  onPauseSession?: () => void;
+  onResumeSession?: () => void;
+  isPausing?: boolean;
+  isResuming?: boolean;
+  pausedSessionId?: string; // Paused session that can be resumed (e.g. after a reload)
   disabled?: boolean;
+  paymentToken?: PaymentToken; // Token the next session's deposit is paid in
   insufficientBalance?: {
     hasEnough: boolean;
     balance: string;
@@ -30,10 +40,18 @@ export function SessionControls({
   onEndSession,
   isStarting,
   isEnding,
+  isPaused = false,
+  onPauseSession,
+  onResumeSession,
+  isPausing = false,
+  isResuming = false,
+  pausedSessionId,
   disabled = false,
+  paymentToken = "USDC",
   insufficientBalance,
 }: SessionControlsProps) {
   const showInsufficientBalanceWarning = insufficientBalance && !insufficientBalance.hasEnough && !isSessionActive;
+  const depositLabel = formatDepositAmount(SESSION_DEPOSIT_AMOUNTS[paymentToken], paymentToken);
 
   return (
     <motion.div
@@ -49,17 +67,17 @@ export function SessionControls({
             <p className="mt-1">
               {insufficientBalance.isUsingBaseAccount ? (
                 <>
-                  Your balance: {insufficientBalance.balance} USDC (need $2.00 USDC)
+                  Your balance: {insufficientBalance.balance} {paymentToken} (need {depositLabel})
                   <br />
                   <span className="text-xs">
-                    💡 Deposit USDC to your account to start chatting
+                    💡 Deposit {paymentToken} to your account to start chatting
                   </span>
                 </>
               ) : (
                 <>
-                  Your wallet has {insufficientBalance.balance} USDC. Need at least $2 USDC to start a session.
+                  Your wallet has {insufficientBalance.balance} {paymentToken}. Need at least {depositLabel} to start a session.
                   <br />
-                  <span className="text-xs">💡 Add USDC to your wallet to continue</span>
+                  <span className="text-xs">💡 Add {paymentToken} to your wallet to continue</span>
                 </>
               )}
             </p>
@@ -68,6 +86,48 @@ export function SessionControls({
       )}
 
       <div className="flex gap-3 justify-center">
+        {!isSessionActive && pausedSessionId && onResumeSession && (
+          <Button onClick={onResumeSession} disabled={isResuming || isStarting} variant="outline" size="lg">
+            {isResuming ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Resuming...
+              </>
+            ) : (
+              <>
+                <RotateCcw className="mr-2 h-4 w-4" />
+                Resume Session #{pausedSessionId.slice(-8)}
+              </>
+            )}
+          </Button>
+        )}
+
+        {isSessionActive && (onPauseSession || onResumeSession) && (
+          <Button
+            onClick={isPaused ? onResumeSession : onPauseSession}
+            disabled={isPausing || isResuming || isEnding}
+            variant="outline"
+            size="lg"
+          >
+            {isPausing || isResuming ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                {isPausing ? "Pausing..." : "Resuming..."}
+              </>
+            ) : isPaused ? (
+              <>
+                <Play className="mr-2 h-4 w-4" />
+                Resume
+              </>
+            ) : (
+              <>
+                <Pause className="mr-2 h-4 w-4" />
+                Pause
+              </>
+            )}
+          </Button>
+        )}
+
         {!isSessionActive ? (
           <ShimmerButton
             onClick={onStartSession}
@@ -82,7 +142,7 @@ export function SessionControls({
             ) : (
               <>
                 <Play className="mr-2 h-4 w-4" />
-                Start Session ($2 USDC)
+                Start Session ({depositLabel})
               </>
             )}
           </ShimmerButton>
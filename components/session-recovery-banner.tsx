@@ -5,18 +5,31 @@
 
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
-import { AlertCircle, X } from "lucide-react";
-import { RecoverableSession } from "@/hooks/use-session-recovery";
+import { AlertCircle, CheckCircle2, Loader2, RotateCcw, X } from "lucide-react";
+import { RecoverableSession, RecoveryStatus } from "@/hooks/use-session-recovery";
+import { SessionJobState } from "@/lib/session-jobs";
+import { formatTokenAmount } from "@/lib/pricing";
+import { getActivePath, restoreTree } from "@/lib/conversation-tree";
 
 interface SessionRecoveryBannerProps {
   session: RecoverableSession;
+  status: RecoveryStatus | null;
+  job: SessionJobState | null;
+  error?: string | null;
+  isReconnecting?: boolean;
   onRecover: () => void;
+  onRetry: () => void;
   onDismiss: () => void;
 }
 
 export function SessionRecoveryBanner({
   session,
+  status,
+  job,
+  error,
+  isReconnecting = false,
   onRecover,
+  onRetry,
   onDismiss,
 }: SessionRecoveryBannerProps) {
   const timeAgo = Math.floor((Date.now() - session.timestamp) / 1000 / 60);
@@ -24,26 +37,66 @@ export function SessionRecoveryBanner({
     timeAgo < 60
       ? `${timeAgo} minute${timeAgo !== 1 ? "s" : ""} ago`
       : `${Math.floor(timeAgo / 60)} hour${Math.floor(timeAgo / 60) !== 1 ? "s" : ""} ago`;
+  const shortId = session.sessionId.slice(-8);
+  // Messages on the branch that was open (all branches are saved)
+  const messageCount = getActivePath(restoreTree(session.messages, session.selectedChildren)).length;
+
+  let title = "Previous session found";
+  let description = `You had a session ${timeAgoText} with ${messageCount} message${
+    messageCount !== 1 ? "s" : ""
+  } and ${session.totalTokens} tokens used.`;
+
+  if (status === "checking") {
+    description = `Checking session #${shortId} on-chain...`;
+  } else if (status === "open" && job) {
+    title = "Session still open";
+    description = `Session #${shortId} from ${timeAgoText} is still active on-chain with ${formatTokenAmount(
+      job.refund,
+      job.paymentToken
+    )} of its ${formatTokenAmount(job.deposit, job.paymentToken)} deposit available. Reconnect to continue the conversation.`;
+  } else if (status === "settled" && job) {
+    title = "Session settled";
+    description =
+      `Session #${shortId}: ${job.tokensUsed} tokens settled for ${formatTokenAmount(job.settled, job.paymentToken)} ` +
+      `(host ${formatTokenAmount(job.hostPayout, job.paymentToken)}, treasury ${formatTokenAmount(
+        job.treasuryFee,
+        job.paymentToken
+      )}). Refunded ${formatTokenAmount(job.refund, job.paymentToken)}.`;
+  } else if (status === "error") {
+    title = "Couldn't check previous session";
+    description = `Session #${shortId} could not be read on-chain${error ? `: ${error}` : "."}`;
+  }
 
   return (
-    <Card className="border-primary/50 bg-primary/5">
+    <Card className={status === "settled" ? "border-green-500/50 bg-green-500/5" : "border-primary/50 bg-primary/5"}>
       <CardContent className="flex items-center justify-between gap-4 p-4">
         <div className="flex items-start gap-3 flex-1">
-          <AlertCircle className="h-5 w-5 text-primary mt-0.5" />
+          {status === "checking" ? (
+            <Loader2 className="h-5 w-5 text-primary mt-0.5 animate-spin" />
+          ) : status === "settled" ? (
+            <CheckCircle2 className="h-5 w-5 text-green-500 mt-0.5" />
+          ) : (
+            <AlertCircle className="h-5 w-5 text-primary mt-0.5" />
+          )}
           <div className="space-y-1 flex-1">
-            <p className="text-sm font-medium">Previous session found</p>
-            <p className="text-xs text-muted-foreground">
-              You have an active session from {timeAgoText} with{" "}
-              {session.messages.length} message{session.messages.length !== 1 ? "s" : ""} and{" "}
-              {session.totalTokens} tokens used (${session.totalCost.toFixed(4)}).
-            </p>
+            <p className="text-sm font-medium">{title}</p>
+            <p className="text-xs text-muted-foreground">{description}</p>
           </div>
         </div>
 
         <div className="flex items-center gap-2">
-          <Button onClick={onRecover} size="sm" variant="default">
-            Recover Session
-          </Button>
+          {status === "open" && (
+            <Button onClick={onRecover} size="sm" variant="default" disabled={isReconnecting}>
+              {isReconnecting && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+              Reconnect
+            </Button>
+          )}
+          {status === "error" && (
+            <Button onClick={onRetry} size="sm" variant="outline">
+              <RotateCcw className="h-4 w-4 mr-1" />
+              Retry
+            </Button>
+          )}
           <Button
             onClick={onDismiss}
             size="sm"
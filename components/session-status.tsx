@@ -4,10 +4,15 @@
 "use client";
 
 import { motion } from "framer-motion";
-import { CheckCircle2, DollarSign, Hash, TrendingUp } from "lucide-react";
+import { AlertTriangle, CheckCircle2, DollarSign, PauseCircle, Hash, Loader2, PiggyBank, RefreshCw, TrendingUp } from "lucide-react";
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
 import { ParsedHost } from "@/types/host";
+import { DepositStatus } from "@/lib/pricing";
+
+// Matches the low-deposit warning in useChatSession
+const LOW_DEPOSIT_RATIO = 0.2;
 
 interface SessionStatusProps {
   sessionId: bigint | null;
@@ -17,6 +22,13 @@ interface SessionStatusProps {
   model?: string;
   selectedHost?: ParsedHost | null;
   preferredPaymentToken?: 'USDC' | 'ETH';
+  spendingCap?: number; // In preferredPaymentToken (the session's token)
+  deposit?: DepositStatus | null;
+  onTopUp?: () => void;
+  onRollover?: () => void;
+  isToppingUp?: boolean;
+  isRollingOver?: boolean;
+  isPaused?: boolean;
 }
 
 export function SessionStatus({
@@ -27,6 +39,13 @@ export function SessionStatus({
   model,
   selectedHost,
   preferredPaymentToken = 'USDC',
+  spendingCap,
+  deposit,
+  onTopUp,
+  onRollover,
+  isToppingUp = false,
+  isRollingOver = false,
+  isPaused = false,
 }: SessionStatusProps) {
   if (!sessionId) return null;
 
@@ -37,18 +56,27 @@ export function SessionStatus({
       : `${(Number(selectedHost.minPricePerTokenStable) / 1_000_000).toFixed(6)} USDC/token`
     : null;
 
+  const decimals = preferredPaymentToken === 'ETH' ? 8 : 4;
+  const nearCap = spendingCap !== undefined && totalCost >= spendingCap * 0.8;
+  const isDepositLow = !!deposit && deposit.remainingRatio <= LOW_DEPOSIT_RATIO;
+  const toPercent = (amount: number) => (deposit && deposit.deposit > 0 ? (amount / deposit.deposit) * 100 : 0);
+
   return (
     <motion.div
       initial={{ opacity: 0, y: -10 }}
       animate={{ opacity: 1, y: 0 }}
       exit={{ opacity: 0, y: -10 }}
     >
-      <Card className="border-green-500/50 bg-green-500/5">
+      <Card className={isPaused ? "border-amber-500/50 bg-amber-500/5" : "border-green-500/50 bg-green-500/5"}>
         <CardContent className="p-4">
           <div className="flex items-center justify-between gap-4 flex-wrap">
             <div className="flex items-center gap-2">
-              <CheckCircle2 className="h-5 w-5 text-green-500" />
-              <span className="font-medium">Active Session</span>
+              {isPaused ? (
+                <PauseCircle className="h-5 w-5 text-amber-500" />
+              ) : (
+                <CheckCircle2 className="h-5 w-5 text-green-500" />
+              )}
+              <span className="font-medium">{isPaused ? "Paused Session" : "Active Session"}</span>
               <Badge variant="outline" className="font-mono text-xs">
                 #{sessionId.toString().slice(-8)}
               </Badge>
@@ -81,8 +109,15 @@ export function SessionStatus({
 
               <div className="flex items-center gap-1">
                 <DollarSign className="h-4 w-4 text-muted-foreground" />
-                <span className="font-mono">{totalCost.toFixed(4)}</span>
-                <span className="text-muted-foreground text-xs">USD</span>
+                <span className={`font-mono ${nearCap ? "text-orange-500" : ""}`}>
+                  {totalCost.toFixed(decimals)}
+                </span>
+                {spendingCap !== undefined && (
+                  <span className="text-muted-foreground text-xs">
+                    of {spendingCap.toFixed(decimals)} cap
+                  </span>
+                )}
+                <span className="text-muted-foreground text-xs">{preferredPaymentToken}</span>
               </div>
 
               {pricingRate && (
@@ -93,6 +128,81 @@ export function SessionStatus({
               )}
             </div>
           </div>
+
+          {/* Deposit meter: proven (settled at checkpoints) + pending usage against the escrow */}
+          {deposit && (
+            <div className="mt-3 space-y-1.5">
+              <div className="flex items-center justify-between text-xs">
+                <div className="flex items-center gap-1 text-muted-foreground">
+                  <PiggyBank className="h-3.5 w-3.5" />
+                  <span>Deposit</span>
+                </div>
+                <span className={`font-mono ${isDepositLow ? "text-orange-500" : ""}`}>
+                  {deposit.remaining.toFixed(decimals)} of {deposit.deposit.toFixed(decimals)}{" "}
+                  {preferredPaymentToken} left
+                </span>
+              </div>
+              <div className="flex h-1.5 w-full overflow-hidden rounded-full bg-muted">
+                <div
+                  className="h-full bg-green-600 transition-all"
+                  style={{ width: `${toPercent(deposit.proven)}%` }}
+                  title={`Proven: ${deposit.proven.toFixed(decimals)} ${preferredPaymentToken}`}
+                />
+                <div
+                  className={`h-full transition-all ${isDepositLow ? "bg-orange-500" : "bg-green-400"}`}
+                  style={{ width: `${toPercent(deposit.pending)}%` }}
+                  title={`Since last checkpoint: ${deposit.pending.toFixed(decimals)} ${preferredPaymentToken}`}
+                />
+              </div>
+              <div className="text-xs text-muted-foreground">
+                {deposit.proven.toFixed(decimals)} proven at checkpoints ·{" "}
+                {deposit.pending.toFixed(decimals)} since the last checkpoint
+              </div>
+
+              {isDepositLow && (
+                <div className="flex items-center justify-between gap-2 flex-wrap rounded-md border border-orange-500/50 bg-orange-500/10 px-3 py-2 text-xs">
+                  <div className="flex items-center gap-1.5 text-orange-600 dark:text-orange-400">
+                    <AlertTriangle className="h-3.5 w-3.5" />
+                    <span>Deposit running low. Top up or start a new session to keep chatting.</span>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    {onTopUp && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        className="h-7 text-xs"
+                        onClick={onTopUp}
+                        disabled={isToppingUp || isRollingOver}
+                      >
+                        {isToppingUp ? (
+                          <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+                        ) : (
+                          <DollarSign className="h-3 w-3 mr-1" />
+                        )}
+                        Top Up
+                      </Button>
+                    )}
+                    {onRollover && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        className="h-7 text-xs"
+                        onClick={onRollover}
+                        disabled={isToppingUp || isRollingOver}
+                      >
+                        {isRollingOver ? (
+                          <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+                        ) : (
+                          <RefreshCw className="h-3 w-3 mr-1" />
+                        )}
+                        Roll Over
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
         </CardContent>
       </Card>
     </motion.div>
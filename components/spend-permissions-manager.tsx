@@ -0,0 +1,222 @@
+// Copyright (c) 2025 Fabstir
+// SPDX-License-Identifier: BUSL-1.1
+
+"use client";
+
+import { useState } from "react";
+import { formatUnits, parseUnits } from "viem";
+import { KeyRound, Loader2, RefreshCw, ShieldOff } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { SpendPermission, SpendPermissionState, SpendPermissionTerms } from "@/lib/spend-permissions";
+
+const DAY_SECONDS = 86400;
+const USDC_DECIMALS = 6;
+
+interface SpendPermissionsManagerProps {
+  permissions: SpendPermissionState[];
+  isLoading: boolean;
+  error?: string | null;
+  terms: SpendPermissionTerms;
+  onRenew: (terms: SpendPermissionTerms) => void;
+  onRevoke: (permission: SpendPermission) => void;
+  onRefresh: () => void;
+  isRenewing: boolean;
+  isRevoking: boolean;
+}
+
+function formatUSDC(amount: bigint): string {
+  return `$${Number(formatUnits(amount, USDC_DECIMALS)).toFixed(2)}`;
+}
+
+function formatDays(seconds: number): string {
+  const days = Math.round(seconds / DAY_SECONDS);
+  return days === 1 ? "day" : `${days} days`;
+}
+
+function getStatusLabel(state: SpendPermissionState): string {
+  if (state.isRevoked) return "Revoked";
+  if (state.isExpired) return "Expired";
+  return state.isActive ? "Active" : "Not approved";
+}
+
+export function SpendPermissionsManager({
+  permissions,
+  isLoading,
+  error,
+  terms,
+  onRenew,
+  onRevoke,
+  onRefresh,
+  isRenewing,
+  isRevoking,
+}: SpendPermissionsManagerProps) {
+  const [allowanceInput, setAllowanceInput] = useState(formatUnits(terms.allowance, USDC_DECIMALS));
+  const [periodDays, setPeriodDays] = useState(String(Math.round(terms.period / DAY_SECONDS)));
+  const [durationDays, setDurationDays] = useState(String(Math.round(terms.duration / DAY_SECONDS)));
+
+  const hasActive = permissions.some((p) => p.isActive);
+  const period = Number(periodDays);
+  const duration = Number(durationDays);
+  const isValidTerms =
+    Number(allowanceInput) > 0 && period >= 1 && duration >= period && Number.isInteger(period);
+
+  const handleRenew = () => {
+    if (!isValidTerms) return;
+    onRenew({
+      allowance: parseUnits(allowanceInput, USDC_DECIMALS),
+      period: period * DAY_SECONDS,
+      duration: duration * DAY_SECONDS,
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div className="space-y-1.5">
+            <CardTitle className="flex items-center gap-2">
+              <KeyRound className="h-5 w-5" />
+              Spend Permissions
+            </CardTitle>
+            <CardDescription>
+              How much your sub-account may spend from your Base Account for popup-free sessions.
+              Changes are signed by your Base Account.
+            </CardDescription>
+          </div>
+          <Button variant="ghost" size="sm" onClick={onRefresh} disabled={isLoading}>
+            <RefreshCw className={`h-4 w-4 ${isLoading ? "animate-spin" : ""}`} />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {/* Current permissions, read from the SpendPermissionManager */}
+        {isLoading ? (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Reading permissions on-chain...
+          </div>
+        ) : error ? (
+          <p className="text-sm text-destructive">Could not read permissions: {error}</p>
+        ) : permissions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No spend permissions granted yet.</p>
+        ) : (
+          <ul className="space-y-4">
+            {permissions.map((state) => {
+              const usedRatio =
+                state.allowance > BigInt(0) ? Number(state.spent) / Number(state.allowance) : 0;
+
+              return (
+                <li key={state.permission.salt.toString()} className="rounded-lg border p-3 space-y-2 text-sm">
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="font-medium">
+                      {formatUSDC(state.allowance)} per {formatDays(state.permission.period)}
+                    </div>
+                    <Badge
+                      variant="outline"
+                      className={state.isActive ? "border-green-500/50 text-green-600" : "text-muted-foreground"}
+                    >
+                      {getStatusLabel(state)}
+                    </Badge>
+                  </div>
+
+                  {state.isActive && (
+                    <>
+                      <div className="h-2 w-full rounded-full bg-muted overflow-hidden">
+                        <div
+                          className={`h-full ${usedRatio >= 0.8 ? "bg-orange-500" : "bg-primary"}`}
+                          style={{ width: `${Math.min(100, usedRatio * 100)}%` }}
+                        />
+                      </div>
+                      <div className="flex justify-between text-xs text-muted-foreground">
+                        <span>
+                          {formatUSDC(state.spent)} spent · {formatUSDC(state.remaining)} left this period
+                        </span>
+                        <span>Resets {new Date(state.periodEnd).toLocaleDateString()}</span>
+                      </div>
+                    </>
+                  )}
+
+                  <div className="flex items-center justify-between text-xs text-muted-foreground">
+                    <span>
+                      {state.isExpired ? "Expired" : "Expires"} {new Date(state.expiresAt).toLocaleDateString()}
+                    </span>
+                    {state.isActive && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-7 text-destructive hover:text-destructive"
+                        onClick={() => onRevoke(state.permission)}
+                        disabled={isRevoking || isRenewing}
+                      >
+                        <ShieldOff className="h-3 w-3 mr-1" />
+                        Revoke
+                      </Button>
+                    )}
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+
+        {/* New terms (replaces the active permission in one batch) */}
+        <div className="space-y-3 border-t pt-4">
+          <div className="grid gap-3 sm:grid-cols-3">
+            <div className="space-y-1">
+              <Label htmlFor="permission-allowance" className="text-xs">
+                Allowance per period (USDC)
+              </Label>
+              <Input
+                id="permission-allowance"
+                type="number"
+                min="0"
+                step="1"
+                value={allowanceInput}
+                onChange={(e) => setAllowanceInput(e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="permission-period" className="text-xs">
+                Period (days)
+              </Label>
+              <Input
+                id="permission-period"
+                type="number"
+                min="1"
+                step="1"
+                value={periodDays}
+                onChange={(e) => setPeriodDays(e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="permission-duration" className="text-xs">
+                Valid for (days)
+              </Label>
+              <Input
+                id="permission-duration"
+                type="number"
+                min="1"
+                step="1"
+                value={durationDays}
+                onChange={(e) => setDurationDays(e.target.value)}
+              />
+            </div>
+          </div>
+          {!isValidTerms && (
+            <p className="text-xs text-muted-foreground">
+              Enter an allowance, a whole number of days per period, and a validity of at least one period.
+            </p>
+          )}
+          <Button onClick={handleRenew} disabled={!isValidTerms || isRenewing || isRevoking}>
+            {isRenewing && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {hasActive ? "Renew with These Terms" : "Grant Permission"}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -5,6 +5,8 @@
 
 import { useQuery } from "@tanstack/react-query";
 import { IS_MOCK_MODE } from "@/lib/constants";
+import { PaymentToken } from "@/types/chat";
+import { PAYMENT_TOKEN_DECIMALS } from "@/lib/pricing";
 
 // SDK types
 type PaymentManager = any;
@@ -64,7 +66,7 @@ export function useBalances(
         throw new Error("Payment manager or address not available");
       }
 
-      const balance = await paymentManager.getETHBalance(userAddress);
+      const balance = await paymentManager.getNativeBalance(userAddress);
       // Convert from wei to decimal (18 decimals for ETH)
       const balanceString = (Number(balance) / 1e18).toFixed(4);
       return balanceString;
@@ -91,18 +93,28 @@ export function useBalances(
  *
  * For Base Account: Checks SUB account + PRIMARY account combined balance
  * For EOA: Checks user's wallet balance
+ *
+ * USDC sessions check the USDC token balance; ETH sessions check the native balance
  */
 export function useHasSufficientBalance(
   accountInfo: { primaryAccount?: string; subAccount?: string; isUsingBaseAccount?: boolean } | null,
   userAddress: string | null,
-  minRequired: number = 2.0 // Default $2 USDC minimum
+  minRequired: number = 2.0, // Default $2 USDC minimum
+  paymentToken: PaymentToken = "USDC"
 ) {
   const {
     data: balance,
     isLoading,
     refetch,
   } = useQuery({
-    queryKey: ["sufficient-balance-check", accountInfo?.subAccount, accountInfo?.primaryAccount, userAddress],
+    queryKey: [
+      "sufficient-balance-check",
+      paymentToken,
+      minRequired,
+      accountInfo?.subAccount,
+      accountInfo?.primaryAccount,
+      userAddress,
+    ],
     queryFn: async () => {
       const { ethers } = await import("ethers");
       const rpcUrl = process.env.NEXT_PUBLIC_RPC_URL_BASE_SEPOLIA;
@@ -114,34 +126,39 @@ export function useHasSufficientBalance(
         ["function balanceOf(address) view returns (uint256)"],
         provider
       );
+      const getBalance = (address: string): Promise<bigint> =>
+        paymentToken === "ETH" ? provider.getBalance(address) : usdcContract.balanceOf(address);
+      const decimals = PAYMENT_TOKEN_DECIMALS[paymentToken];
+      // Session deposits in ETH are small (e.g. 0.0006), so show more decimals
+      const displayDecimals = paymentToken === "ETH" ? 6 : 2;
 
       if (accountInfo?.isUsingBaseAccount && accountInfo.subAccount && accountInfo.primaryAccount) {
         // Base Account Mode: Check SUB + PRIMARY combined balance
         const [subBal, primaryBal] = await Promise.all([
-          usdcContract.balanceOf(accountInfo.subAccount),
-          usdcContract.balanceOf(accountInfo.primaryAccount),
+          getBalance(accountInfo.subAccount),
+          getBalance(accountInfo.primaryAccount),
         ]);
 
-        const subBalance = parseFloat(ethers.formatUnits(subBal, 6));
-        const primaryBalance = parseFloat(ethers.formatUnits(primaryBal, 6));
+        const subBalance = parseFloat(ethers.formatUnits(subBal, decimals));
+        const primaryBalance = parseFloat(ethers.formatUnits(primaryBal, decimals));
         const totalBalance = subBalance + primaryBalance;
 
         console.log("💰 Balance Check (Base Account):");
-        console.log(`  - SUB (${accountInfo.subAccount.slice(0, 10)}...): ${subBalance.toFixed(2)} USDC`);
-        console.log(`  - PRIMARY (${accountInfo.primaryAccount.slice(0, 10)}...): ${primaryBalance.toFixed(2)} USDC`);
-        console.log(`  - TOTAL: ${totalBalance.toFixed(2)} USDC (need ${minRequired} USDC)`);
+        console.log(`  - SUB (${accountInfo.subAccount.slice(0, 10)}...): ${subBalance.toFixed(displayDecimals)} ${paymentToken}`);
+        console.log(`  - PRIMARY (${accountInfo.primaryAccount.slice(0, 10)}...): ${primaryBalance.toFixed(displayDecimals)} ${paymentToken}`);
+        console.log(`  - TOTAL: ${totalBalance.toFixed(displayDecimals)} ${paymentToken} (need ${minRequired} ${paymentToken})`);
 
         return {
           hasEnough: totalBalance >= minRequired,
-          balance: totalBalance.toFixed(2),
-          subBalance: subBalance.toFixed(2),
-          primaryBalance: primaryBalance.toFixed(2),
+          balance: totalBalance.toFixed(displayDecimals),
+          subBalance: subBalance.toFixed(displayDecimals),
+          primaryBalance: primaryBalance.toFixed(displayDecimals),
           address: accountInfo.primaryAccount, // Show primary for deposit instructions
         };
       } else if (userAddress) {
         // EOA Mode: Check user's wallet
-        const bal = await usdcContract.balanceOf(userAddress);
-        const balanceFormatted = ethers.formatUnits(bal, 6);
+        const bal = await getBalance(userAddress);
+        const balanceFormatted = ethers.formatUnits(bal, decimals);
         const hasEnough = parseFloat(balanceFormatted) >= minRequired;
 
         return {
@@ -6,7 +6,11 @@
 import { useState, useCallback } from "react";
 import { useToast } from "@/hooks/use-toast";
 import { createSDK, connectWallet, getAccountInfo } from "@/lib/base-account";
-import { getDefaultPermissionParams } from "@/lib/spend-permissions";
+import {
+  getDefaultPermissionParams,
+  hasSpendPermission,
+  loadSpendPermissionTerms,
+} from "@/lib/spend-permissions";
 import type { FabstirSDKCore } from "@fabstir/sdk-core";
 import { ensureSubAccount, createSubAccountSigner } from "@fabstir/sdk-core";
 
@@ -36,10 +40,12 @@ export interface BaseAccountInfo {
  */
 // Store SDK reference module-level
 let sdkInstance: any = null;
+// Connected accounts, kept module-level too so other pages (e.g. Funds) see them
+let accountInfoInstance: BaseAccountInfo | null = null;
 
 export function useBaseAccount() {
   const { toast } = useToast();
-  const [accountInfo, setAccountInfo] = useState<BaseAccountInfo | null>(null);
+  const [accountInfo, setAccountInfo] = useState<BaseAccountInfo | null>(accountInfoInstance);
   const [isConnecting, setIsConnecting] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
@@ -87,6 +93,8 @@ export function useBaseAccount() {
           token: usdcAddress as `0x${string}`,
           depositAmount: "2.00", // Default deposit amount
         });
+        // Terms the user chose in the Spend Permissions manager take precedence
+        const chosenTerms = loadSpendPermissionTerms();
 
         // Set environment variable for SDK (needed for ensureSubAccount)
         if (typeof process !== 'undefined' && process.env) {
@@ -99,13 +107,28 @@ export function useBaseAccount() {
           {
             tokenAddress: usdcAddress as `0x${string}`,
             tokenDecimals: 6,
-            maxAllowance: permissionParams.allowance.toString(),
-            periodDays: 365,
+            maxAllowance: (chosenTerms?.allowance ?? permissionParams.allowance).toString(),
+            periodDays: chosenTerms ? Math.max(1, Math.round(chosenTerms.period / 86400)) : 365,
           }
         );
 
         const subAccountAddress = subAccountResult.address;
 
+        // An existing sub-account may have had its permission revoked or used up
+        const canSpend = await hasSpendPermission(
+          baseAccountSDK.getProvider(),
+          smartWallet as `0x${string}`,
+          subAccountAddress as `0x${string}`,
+          usdcAddress as `0x${string}`
+        );
+        if (!canSpend) {
+          toast({
+            title: "No Spend Permission",
+            description: "The sub-account has no USDC allowance left. Renew its spend permission on the Funds page.",
+            variant: "destructive",
+          });
+        }
+
         // Step 4: Create sub-account signer
         const subAccountSigner = createSubAccountSigner({
           provider: baseAccountSDK.getProvider(),
@@ -158,6 +181,7 @@ export function useBaseAccount() {
         console.log("  - SUB Account (Spender - sends transactions):", subAccountAddress);
         console.log("💡 Workflow: Deposit USDC to PRIMARY, SUB-account uses it via spend permissions");
 
+        accountInfoInstance = info;
         setAccountInfo(info);
 
         toast({
@@ -188,6 +212,7 @@ export function useBaseAccount() {
    * Disconnect and reset state
    */
   const disconnect = useCallback(() => {
+    accountInfoInstance = null;
     setAccountInfo(null);
     setError(null);
   }, []);
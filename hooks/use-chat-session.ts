@@ -3,14 +3,87 @@
 
 "use client";
 
-import { useState, useCallback, useEffect } from "react";
+import { useState, useCallback, useEffect, useRef, useMemo } from "react";
 import { useMutation } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
-import { ChatMessage } from "@/types/chat";
+import {
+  ChatAttachment,
+  ProofCheckpoint,
+  ChatMessage,
+  MessageReceipt,
+  PaymentToken,
+  ResponseTiming,
+  TokenAmounts,
+} from "@/types/chat";
 import { ParsedHost } from "@/types/host";
 import { IS_MOCK_MODE } from "@/lib/constants";
+import { MockSessionManager, isMockSessionManager } from "@/lib/sdk/MockSessionManager";
+import { createMessageId } from "@/lib/utils";
+import {
+  ConversationTree,
+  BranchInfo,
+  createEmptyTree,
+  appendMessage,
+  updateMessageInTree,
+  getActivePath,
+  getActiveLeafId,
+  getPathTo,
+  getBranchInfo,
+  findMessage,
+  switchBranch as switchBranchInTree,
+  restoreTree,
+} from "@/lib/conversation-tree";
+import { selectContext, getEffectiveBudget, RESPONSE_TOKEN_RESERVE } from "@/lib/context-manager";
+import { withAttachments } from "@/lib/attachments";
+import {
+  QueuedPrompt,
+  isTransientError,
+  createQueuedPromptId,
+  listQueuedPrompts,
+  saveQueuedPrompt,
+  removeQueuedPrompt,
+} from "@/lib/outbound-queue";
+import { Tokenizer, ESTIMATE_TOKENIZER, loadTokenizer } from "@/lib/tokenizers";
+import {
+  DepositStatus,
+  createReceipt,
+  calculateCost,
+  getPricePerToken,
+  formatTokenAmount,
+  formatDepositAmount,
+  getDepositStatus,
+  SESSION_DEPOSIT_AMOUNTS,
+} from "@/lib/pricing";
+import {
+  PromptTurn,
+  getChatTemplate,
+  cutAtStopSequence,
+  cleanTemplateResponse,
+} from "@/lib/chat-templates";
+import { resolveModelFile } from "@/lib/models";
 import { useS5Storage } from "@/hooks/use-s5-storage";
 import { useAnalytics } from "@/lib/analytics";
+import type { RecoverableSession } from "@/hooks/use-session-recovery";
+import { SessionJobState, fetchSessionJobState } from "@/lib/session-jobs";
+import {
+  CheckpointEvent,
+  CHECKPOINT_EVENT,
+  appendCheckpoint,
+  createCheckpointEvent,
+  reconcileCheckpoints,
+} from "@/lib/checkpoints";
+import {
+  QuotaUsage,
+  UsageQuotas,
+  SpendLedger,
+  loadSpendLedger,
+  recordSpend,
+  subscribeToSpendLedger,
+  getQuotaUsage,
+  findExceededQuota,
+  describeQuotaLimit,
+} from "@/lib/usage-quotas";
+import { ApprovalPolicy, DEFAULT_APPROVAL_POLICY, getApprovalAmount } from "@/lib/approvals";
 import {
   messageRateLimiter,
   sessionRateLimiter,
@@ -22,9 +95,14 @@ type SessionManager = any;
 type StorageManager = any;
 
 // Session configuration constants
-const SESSION_DEPOSIT = "2.0";
 const PROOF_INTERVAL = 100;
+// How often the session job is read for new proofs while one is due
+const CHECKPOINT_POLL_INTERVAL_MS = 30 * 1000;
 const SESSION_DURATION = 86400;
+// Warn once the session has spent this share of its spending cap
+const SPENDING_CAP_WARNING_RATIO = 0.8;
+// Warn when this share of the session deposit is left
+const LOW_DEPOSIT_RATIO = 0.2;
 
 /**
  * Verify endpoint serves the expected host address
@@ -77,6 +155,99 @@ async function verifyEndpointHost(
   }
 }
 
+/**
+ * Create the error thrown when a prompt is cancelled
+ */
+function createAbortError(): Error {
+  const error = new Error("Generation stopped by user");
+  error.name = "AbortError";
+  return error;
+}
+
+function isAbortError(error: any): boolean {
+  return error?.name === "AbortError";
+}
+
+/**
+ * Reject as soon as the signal aborts, even if the underlying promise keeps running
+ */
+function raceAbort<T>(promise: Promise<T>, signal: AbortSignal): Promise<T> {
+  if (signal.aborted) return Promise.reject(createAbortError());
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(createAbortError());
+    signal.addEventListener("abort", onAbort, { once: true });
+    promise.then(
+      (value) => {
+        signal.removeEventListener("abort", onAbort);
+        resolve(value);
+      },
+      (error) => {
+        signal.removeEventListener("abort", onAbort);
+        reject(error);
+      }
+    );
+  });
+}
+
+// Mock mode sends prompts through MockSessionManager (created on first use)
+let mockSessionManager: MockSessionManager | null = null;
+
+function getMockSessionManager(): MockSessionManager {
+  if (!mockSessionManager) mockSessionManager = new MockSessionManager();
+  return mockSessionManager;
+}
+
+const PAUSED_SESSION_STORAGE_KEY = "fabstir_paused_session";
+
+/**
+ * A paused session, persisted so it can be resumed after a reload
+ * Usage is kept so the deposit meter and spending cap carry on where they left off
+ */
+export interface PausedSession {
+  sessionId: string;
+  jobId?: string; // Older records: same as sessionId
+  hostAddress?: string;
+  paymentToken: PaymentToken;
+  deposit: number;
+  sessionTokens: number;
+  sessionSpent: number;
+  pausedAt: number;
+}
+
+function loadPausedSession(): PausedSession | null {
+  if (typeof window === "undefined") return null;
+  try {
+    const stored = localStorage.getItem(PAUSED_SESSION_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : null;
+  } catch {
+    localStorage.removeItem(PAUSED_SESSION_STORAGE_KEY);
+    return null;
+  }
+}
+
+function savePausedSession(paused: PausedSession | null): void {
+  if (typeof window === "undefined") return;
+  if (paused) {
+    localStorage.setItem(PAUSED_SESSION_STORAGE_KEY, JSON.stringify(paused));
+  } else {
+    localStorage.removeItem(PAUSED_SESSION_STORAGE_KEY);
+  }
+}
+
+/**
+ * Variables for sendMessageMutation
+ * Regenerating reuses an existing user message; sending and editing create a new one
+ */
+interface SendMessageRequest {
+  prompt: string;
+  userMessageId: string;
+  parentId: string | null; // Parent of the user message
+  attachments?: ChatAttachment[];
+  isRegenerate?: boolean;
+  queuedPrompt?: QueuedPrompt; // Set when flushing the outbound queue
+}
+
 interface SessionConfig {
   depositAmount: string;
   pricePerToken: number;
@@ -93,22 +264,121 @@ export function useChatSession(
   paymentManager?: any,
   userAddress?: string,
   storageManager?: StorageManager | null,
-  settings?: { preferredPaymentToken?: 'USDC' | 'ETH' } | null
+  settings?: {
+    preferredPaymentToken?: 'USDC' | 'ETH';
+    selectedModel?: string;
+    contextTokenBudget?: number;
+    sessionSpendingCaps?: TokenAmounts;
+    dailySpendingQuotas?: TokenAmounts;
+    monthlySpendingQuotas?: TokenAmounts;
+    approvalPolicy?: ApprovalPolicy;
+    approvalCap?: number;
+  } | null
 ) {
   const { toast } = useToast();
 
-  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  // Every message across all branches; `messages` is the active branch
+  const [tree, setTree] = useState<ConversationTree>(createEmptyTree);
+  const messages = useMemo(() => getActivePath(tree), [tree]);
+  // Per-conversation system prompt (persona), sent ahead of every context
+  const [systemPrompt, setSystemPrompt] = useState("");
+
+  // Manager prompts are streamed through, so mock mode exercises the same
+  // streaming, cancellation and checkpoint handling as production
+  const promptSessionManager: SessionManager | null = IS_MOCK_MODE
+    ? getMockSessionManager()
+    : sessionManager;
+
+  // Model the session runs: the preferred model if the host serves it, else the host's first
+  // Hosts list models by ModelRegistry ID, so entries are matched by their model file
+  const preferredModel = settings?.selectedModel;
+  const contextModel = !selectedHost
+    ? preferredModel
+    : selectedHost.models.find(
+        (m) => preferredModel && (m === preferredModel || resolveModelFile(m) === preferredModel)
+      ) ?? selectedHost.models[0];
+  const contextModelName = resolveModelFile(contextModel) ?? contextModel;
+
+  // Tokenizer for the current model; the estimate is used until it has loaded
+  const [tokenizer, setTokenizer] = useState<Tokenizer>(ESTIMATE_TOKENIZER);
+  useEffect(() => {
+    let cancelled = false;
+    loadTokenizer(contextModel).then((loaded) => {
+      if (!cancelled) setTokenizer(loaded);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [contextModel]);
+
   const [sessionId, setSessionId] = useState<bigint | null>(null);
   const [totalTokens, setTotalTokens] = useState(0);
   const [totalCost, setTotalCost] = useState(0);
-  const [isApprovalDone, setIsApprovalDone] = useState(false);
+  // Token the active session's deposit is in; receipts are priced in it
+  const [sessionPaymentToken, setSessionPaymentToken] = useState<PaymentToken>("USDC");
   const [showSuccessAnimation, setShowSuccessAnimation] = useState(false);
 
+  // Per-session spending cap for the session's payment token (unset = no cap)
+  const sessionCap = settings?.sessionSpendingCaps?.[sessionPaymentToken];
+  const spendingCap = sessionCap && sessionCap > 0 ? sessionCap : undefined;
+  const capWarningShownRef = useRef(false);
+
+  // Escrowed deposit of the active session, and the conversation totals when it
+  // started (totals keep counting across sessions, e.g. after a rollover)
+  const [sessionDeposit, setSessionDeposit] = useState(0);
+  // On-chain job of the active session (job state is looked up by it)
+  const [sessionJobId, setSessionJobId] = useState<string | null>(null);
+  const [sessionBaseline, setSessionBaseline] = useState({ tokens: 0, cost: 0 });
+  const [isRollingOver, setIsRollingOver] = useState(false);
+  const lowDepositWarnedRef = useRef(false);
+  const sessionTokens = totalTokens - sessionBaseline.tokens;
+  const sessionSpent = totalCost - sessionBaseline.cost;
+
+  // Account-wide daily/monthly quotas per payment token (unset = no quota)
+  const dailyQuotas = settings?.dailySpendingQuotas;
+  const monthlyQuotas = settings?.monthlySpendingQuotas;
+  const quotas: UsageQuotas = useMemo(
+    () => ({ daily: dailyQuotas, monthly: monthlyQuotas }),
+    [dailyQuotas, monthlyQuotas]
+  );
+
+  // Daily spend per token, updated after every reply (from any session in the tab)
+  const [spendLedger, setSpendLedger] = useState<SpendLedger>({});
+  useEffect(() => {
+    setSpendLedger(loadSpendLedger(analytics.getSessionHistory()));
+    return subscribeToSpendLedger(setSpendLedger);
+  }, []);
+
+  // Proof checkpoints the host has submitted for the active session
+  const [checkpoints, setCheckpoints] = useState<ProofCheckpoint[]>([]);
+
+  // Paused session (the active one, or one paused before a reload)
+  const [pausedSession, setPausedSession] = useState<PausedSession | null>(null);
+  const isPaused = pausedSession !== null && sessionId?.toString() === pausedSession.sessionId;
+  useEffect(() => {
+    setPausedSession(loadPausedSession());
+  }, []);
+
+  // ID of the assistant message currently receiving streamed chunks
+  const streamingMessageIdRef = useRef<string | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  // Outbound queue (see lib/outbound-queue): prompts waiting for connectivity
+  const [queuedPrompts, setQueuedPrompts] = useState<QueuedPrompt[]>([]);
+  const [isOnline, setIsOnline] = useState(
+    () => typeof navigator === "undefined" || navigator.onLine
+  );
+  // Set when the queue should be sent; cleared when a queued prompt fails again
+  const [isFlushRequested, setIsFlushRequested] = useState(false);
+  const isFlushingRef = useRef(false); // A queued prompt was just handed to the mutation
+
   // S5 storage integration
-  const { storeConversation, isStorageReady } = useS5Storage(
+  const { storeConversation, loadConversation, isStorageReady } = useS5Storage(
     storageManager || null,
     sessionId,
-    selectedHost
+    selectedHost,
+    contextModelName,
+    sessionPaymentToken
   );
 
   // Analytics integration
@@ -157,11 +427,24 @@ export function useChatSession(
         );
       }
 
+      // Check account-wide spending quotas before committing a deposit
+      const startToken: PaymentToken = settings?.preferredPaymentToken === 'ETH' ? 'ETH' : 'USDC';
+      const depositAmount = SESSION_DEPOSIT_AMOUNTS[startToken];
+      const exceededQuota = findExceededQuota(
+        getQuotaUsage(quotas, loadSpendLedger(analytics.getSessionHistory()), startToken),
+        Number(depositAmount)
+      );
+      if (exceededQuota) {
+        throw new Error(
+          describeQuotaLimit(exceededQuota, Number(depositAmount), "This session's deposit")
+        );
+      }
+
       // Mock mode: Simulate session start
       if (IS_MOCK_MODE) {
         console.log("Mock: Starting session with host", selectedHost.address);
         await new Promise((resolve) => setTimeout(resolve, 1000));
-        return { sessionId: BigInt(Date.now()), jobId: BigInt(1) };
+        return { sessionId: BigInt(Date.now()), jobId: BigInt(1), paymentToken: startToken };
       }
 
       // Production mode: Use real SDK
@@ -170,11 +453,12 @@ export function useChatSession(
 
       // Get USDC token address from ChainRegistry
       const { ChainRegistry, ChainId } = await import("@fabstir/sdk-core");
-      const { parseUnits } = await import("viem");
+      const { parseUnits, parseEther, formatEther } = await import("viem");
       const chain = ChainRegistry.getChain(ChainId.BASE_SEPOLIA);
 
-      // Step 1: Check and approve USDC to JobMarketplace (one-time, popup-free with Base Account)
-      if (userAddress && !isApprovalDone) {
+      // Step 1 (USDC): Check and approve USDC to JobMarketplace (popup-free with Base Account)
+      // Checked every session: the allowance may have been used up or revoked
+      if (startToken === 'USDC' && userAddress) {
         console.log("🔍 Checking USDC approval for JobMarketplace...");
 
         const currentAllowance = await paymentManager.checkAllowance(
@@ -182,11 +466,13 @@ export function useChatSession(
           chain.contracts.jobMarketplace,
           chain.contracts.usdcToken
         );
-        const requiredAmount = parseUnits(SESSION_DEPOSIT, 6);
+        const requiredAmount = parseUnits(depositAmount, 6);
 
         if (currentAllowance < requiredAmount) {
-          console.log("📝 Approving JobMarketplace (popup-free with Base Account)...");
-          const approvalAmount = parseUnits("1000000", 6); // Approve 1M USDC (one-time)
+          // How much to approve is the user's approvals policy (exact, capped or unlimited)
+          const approvalPolicy = settings?.approvalPolicy ?? DEFAULT_APPROVAL_POLICY;
+          const approvalAmount = getApprovalAmount(approvalPolicy, requiredAmount, settings?.approvalCap);
+          console.log(`📝 Approving JobMarketplace (${approvalPolicy} policy, popup-free with Base Account)...`);
 
           await paymentManager.approveToken(
             chain.contracts.jobMarketplace,
@@ -195,34 +481,56 @@ export function useChatSession(
           );
 
           console.log("✅ USDC approval complete!");
-          setIsApprovalDone(true);
         } else {
           console.log("✅ USDC approval already exists");
-          setIsApprovalDone(true);
         }
       }
 
+      // Step 1 (ETH): A prepaid native deposit covers the session without sending ETH.
+      // A partly funded deposit is topped up rather than left stranded; with nothing
+      // deposited, startSession pays for the job directly in ETH (Step 3)
+      let useNativeDeposit = false;
+      if (startToken === 'ETH') {
+        const requiredAmount = parseEther(depositAmount);
+        let deposited = BigInt(0);
+        if (typeof paymentManager.getDepositBalance === "function") {
+          const { native } = await paymentManager.getDepositBalance();
+          deposited = parseEther(native || "0");
+        }
+        console.log(`🔍 Native deposit: ${formatEther(deposited)} ETH (need ${depositAmount} ETH)`);
+
+        if (deposited > BigInt(0) && deposited < requiredAmount) {
+          const shortfall = formatEther(requiredAmount - deposited);
+          console.log(`📝 Topping up native deposit with ${shortfall} ETH...`);
+          const tx = await paymentManager.depositNative(shortfall);
+          await tx.wait(3);
+          console.log("✅ Native deposit topped up!");
+          deposited = requiredAmount;
+        }
+        useNativeDeposit = deposited >= requiredAmount;
+      }
+
       // Step 2: Get pricing from selected host based on payment token preference
-      const pricePerToken = settings?.preferredPaymentToken === 'ETH'
+      const pricePerToken = startToken === 'ETH'
         ? Number(selectedHost.minPricePerTokenNative)  // Use native pricing for ETH
         : Number(selectedHost.minPricePerTokenStable);  // Use stable pricing for USDC (default)
 
-      console.log(`💰 Using host pricing: ${pricePerToken} (${settings?.preferredPaymentToken || 'USDC'})`);
+      console.log(`💰 Using host pricing: ${pricePerToken} (${startToken})`);
 
       // Step 3: Start session
       const config: any = {
-        depositAmount: SESSION_DEPOSIT,
+        depositAmount,
         pricePerToken: pricePerToken,  // Use actual host pricing
         duration: SESSION_DURATION,
         proofInterval: PROOF_INTERVAL,
-        model: selectedHost.models[0],
+        model: contextModel || selectedHost.models[0],
         provider: selectedHost.address,
         hostAddress: selectedHost.address,
         endpoint: selectedHost.endpoint,
-        paymentToken: settings?.preferredPaymentToken === 'ETH'
+        paymentToken: startToken === 'ETH'
           ? undefined  // Omit for native ETH payments
           : chain.contracts.usdcToken,  // Include for USDC payments
-        useDeposit: false, // Use direct payment with Auto Spend Permissions
+        useDeposit: useNativeDeposit, // Otherwise direct payment (Auto Spend Permissions for USDC)
         chainId: 84532, // Base Sepolia
       };
 
@@ -230,7 +538,7 @@ export function useChatSession(
       console.log(`  Host Address: ${selectedHost.address}`);
       console.log(`  Endpoint: ${selectedHost.endpoint}`);
       console.log(`  Model: ${config.model}`);
-      console.log(`  Deposit: $${SESSION_DEPOSIT} USDC`);
+      console.log(`  Deposit: ${formatDepositAmount(depositAmount, startToken)}${useNativeDeposit ? " (from native deposit)" : ""}`);
 
       // Pre-flight verification: Check if endpoint serves the expected host
       console.log("\n🔍 Verifying endpoint host address...");
@@ -259,26 +567,40 @@ export function useChatSession(
         }
       }
 
+      if (startToken === 'ETH' && !useNativeDeposit) {
+        console.log(`💸 Session job will be paid directly with ${depositAmount} ETH`);
+      }
+
       const result = await sessionManager.startSession(config);
       console.log("✅ Session created successfully:");
       console.log(`  Session ID: ${result.sessionId}`);
       console.log(`  Job ID: ${result.jobId}`);
-      return result;
+      return { ...result, paymentToken: startToken };
     },
-    onSuccess: (result) => {
+    onSuccess: (result: { sessionId: bigint; jobId: bigint; paymentToken: PaymentToken }) => {
+      const depositAmount = SESSION_DEPOSIT_AMOUNTS[result.paymentToken];
       setSessionId(result.sessionId);
+      setSessionJobId(result.jobId.toString());
+      setSessionDeposit(Number(depositAmount));
+      setCheckpoints([]);
+      setSessionBaseline({ tokens: totalTokens, cost: totalCost });
+      capWarningShownRef.current = false;
+      lowDepositWarnedRef.current = false;
+      setSessionPaymentToken(result.paymentToken);
       (window as any).__currentSessionId = result.sessionId;
 
       // Track session start
       analytics.sessionStarted(
         result.sessionId.toString(),
         selectedHost?.address || "unknown",
-        selectedHost?.models[0] || "unknown"
+        contextModel || "unknown",
+        result.paymentToken,
+        result.jobId.toString()
       );
 
       addMessage(
         "system",
-        `✅ Session started! Deposited $${SESSION_DEPOSIT} USDC. You can now chat with ${selectedHost?.models[0]}.`
+        `✅ Session started! Deposited ${formatDepositAmount(depositAmount, result.paymentToken)}. You can now chat with ${contextModelName}.`
       );
 
       toast({
@@ -345,7 +667,7 @@ export function useChatSession(
 
   // Mutation: Send message
   const sendMessageMutation = useMutation({
-    mutationFn: async (prompt: string) => {
+    mutationFn: async ({ prompt, userMessageId, parentId, attachments }: SendMessageRequest) => {
       if (!sessionId) {
         throw new Error("No active session");
       }
@@ -360,65 +682,254 @@ export function useChatSession(
         );
       }
 
-      // Mock mode: Simulate AI response
-      if (IS_MOCK_MODE) {
-        console.log("Mock: Sending message", prompt);
-        await new Promise((resolve) => setTimeout(resolve, 1500));
+      // Placeholder assistant message that chunks are streamed into
+      const messageId = createMessageId();
+      streamingMessageIdRef.current = messageId;
+      setTree((prev) =>
+        appendMessage(prev, {
+          id: messageId,
+          parentId: userMessageId,
+          role: "assistant",
+          content: "",
+          timestamp: Date.now(),
+          tokens: 0,
+          status: "streaming",
+        })
+      );
+
+      // Abort controller backing the Stop button
+      const controller = new AbortController();
+      abortControllerRef.current = controller;
+      const { signal } = controller;
+
+      // Stop sequences end the reply client-side; the stream is then cancelled
+      // so the host stops generating (and billing) past the end of the turn
+      const template = getChatTemplate(contextModel);
+      let streamed = "";
+      let reachedStopSequence = false;
+      const fullPrompt = buildPrompt(parentId, prompt, attachments);
+      const inputTokens = tokenizer.countTokens(fullPrompt);
+
+      const startedAt = Date.now();
+      let firstTokenAt: number | undefined;
+      const finish = (response: string, truncated: boolean) => {
+        const timing: ResponseTiming = {
+          firstTokenMs: firstTokenAt !== undefined ? firstTokenAt - startedAt : undefined,
+          totalMs: Date.now() - startedAt,
+        };
+        return { response, prompt, fullPrompt, messageId, truncated, timing };
+      };
 
-        const mockResponse = `I received your message: "${prompt}"\n\nThis is a simulated AI response in mock mode. In production, this would be a real response from the LLM running on ${selectedHost?.address}.`;
+      const handleChunk = (chunk: string) => {
+        if (reachedStopSequence) return;
+        if (firstTokenAt === undefined) firstTokenAt = Date.now();
+        streamed += chunk;
 
-        return { response: mockResponse, prompt };
-      }
+        const { text: content, stopped } = cutAtStopSequence(template, streamed);
+        if (stopped) {
+          reachedStopSequence = true;
+          controller.abort();
+        }
 
-      // Production mode: Use real SDK
-      if (!sessionManager) throw new Error("Session manager not initialized");
+        updateMessage(messageId, (m) => ({
+          ...m,
+          content,
+          tokens: inputTokens + tokenizer.countTokens(content),
+        }));
+      };
 
-      const context = buildContext();
-      const fullPrompt = context
-        ? `${context}\nUser: ${prompt}\nAssistant:`
-        : `User: ${prompt}\nAssistant:`;
+      try {
+        if (!promptSessionManager) throw new Error("Session manager not initialized");
 
-      const response = await sessionManager.sendPromptStreaming(
-        sessionId,
-        fullPrompt
-      );
+        // Mock mode: The mock manager only knows sessions it has seen, so register
+        // this one first (also covers sessions restored after a reload)
+        if (IS_MOCK_MODE && !promptSessionManager.getSession(sessionId.toString())) {
+          console.log("Mock: Registering session with MockSessionManager", sessionId.toString());
+          await promptSessionManager.resumeSession(sessionId);
+        }
 
-      return { response, prompt };
+        // Chunks arrive via the onChunk callback. Managers that only emit
+        // `stream_chunk` events (EventEmitter-based) are handled as a fallback.
+        let receivedViaCallback = false;
+        const onStreamChunk = (event: { sessionId: any; chunk: string }) => {
+          if (receivedViaCallback || signal.aborted) return;
+          if (event.sessionId?.toString() !== sessionId.toString()) return;
+          handleChunk(event.chunk);
+        };
+        const canListen = typeof promptSessionManager.on === "function";
+        if (canListen) promptSessionManager.on("stream_chunk", onStreamChunk);
+
+        try {
+          // The signal is forwarded to the manager; racing it as well means the
+          // UI stops immediately even if the manager ignores cancellation
+          const response = await raceAbort<string>(
+            promptSessionManager.sendPromptStreaming(
+              sessionId,
+              fullPrompt,
+              (chunk: string) => {
+                if (signal.aborted) return;
+                receivedViaCallback = true;
+                handleChunk(chunk);
+              },
+              { signal }
+            ),
+            signal
+          );
+
+          return finish(response, false);
+        } finally {
+          if (canListen) promptSessionManager.off?.("stream_chunk", onStreamChunk);
+        }
+      } catch (error) {
+        // Model finished its turn (stop sequence seen before the stream ended)
+        if (isAbortError(error) && reachedStopSequence) {
+          return finish(streamed, false);
+        }
+
+        // Stopped by the user: keep the partial response
+        if (isAbortError(error)) {
+          console.log(`⏹️  Generation stopped after ${streamed.length} chars`);
+          return finish(streamed, true);
+        }
+        throw error;
+      } finally {
+        if (abortControllerRef.current === controller) {
+          abortControllerRef.current = null;
+        }
+      }
     },
-    onMutate: (prompt) => {
+    onMutate: ({ prompt, userMessageId, parentId, attachments, isRegenerate }) => {
       // Track message sent
       if (sessionId) {
         analytics.messageSent(sessionId.toString(), prompt.length);
       }
 
-      // Optimistically add user message
-      addMessage("user", prompt);
+      // Optimistically add user message (regenerate reuses the existing one)
+      if (!isRegenerate) {
+        setTree((prev) =>
+          appendMessage(prev, {
+            id: userMessageId,
+            parentId,
+            role: "user",
+            content: prompt,
+            timestamp: Date.now(),
+            status: "complete",
+            attachments: attachments?.length ? attachments : undefined,
+          })
+        );
+      }
     },
     onSuccess: async (data) => {
-      const cleaned = cleanResponse(data.response);
-      const tokens = Math.ceil((data.prompt.length + cleaned.length) / 4);
+      streamingMessageIdRef.current = null;
+
+      const cleaned = cleanTemplateResponse(getChatTemplate(contextModel), data.response);
+
+      // Count with the model's tokenizer (waits for it if still loading)
+      const modelTokenizer = await loadTokenizer(contextModel);
+      const inputTokens = modelTokenizer.countTokens(data.fullPrompt);
+      const outputTokens = modelTokenizer.countTokens(cleaned);
+      const tokens = inputTokens + outputTokens;
+      const receipt = createReceipt({
+        inputTokens,
+        outputTokens,
+        host: selectedHost,
+        paymentToken: sessionPaymentToken,
+      });
 
       // Track message received
       if (sessionId) {
         analytics.messageReceived(sessionId.toString(), tokens);
       }
 
-      addMessage("assistant", cleaned, tokens);
+      const updatedTree = await updateMessage(data.messageId, (m) => ({
+        ...m,
+        content: cleaned,
+        tokens,
+        inputTokens,
+        outputTokens,
+        receipt,
+        timing: data.timing,
+        status: "complete",
+        truncated: data.truncated || undefined,
+      }));
+      addUsage(receipt);
+      recordSpend(receipt.cost, sessionPaymentToken);
 
       // Auto-save conversation to S5 after each message
-      if (isStorageReady && messages.length > 0) {
-        const updatedTokens = totalTokens + tokens;
+      if (isStorageReady && updatedTree.messages.length > 0) {
+        await storeConversation(
+          updatedTree,
+          totalTokens + tokens,
+          totalCost + receipt.cost,
+          systemPrompt
+        );
+      }
 
-        // Use actual host pricing
-        const pricePerToken = selectedHost?.minPricePerTokenStable
-          ? Number(selectedHost.minPricePerTokenStable)
-          : 316;  // Fallback to 0.000316 USDC/token
+      const spent = sessionSpent + receipt.cost;
+      const format = (amount: number) => formatTokenAmount(amount, sessionPaymentToken);
 
-        const updatedCost = totalCost + (tokens * pricePerToken) / 1000000;
-        await storeConversation([...messages], updatedTokens, updatedCost);
+      // Enforce the spending cap: warn once at 80%, end the session when it's hit
+      if (spendingCap !== undefined && sessionId) {
+        if (spent >= spendingCap) {
+          addMessage(
+            "system",
+            `🛑 Spending cap of ${format(spendingCap)} reached (${format(spent)} spent). Ending session.`
+          );
+          endSessionMutation.mutate({});
+        } else if (spent >= spendingCap * SPENDING_CAP_WARNING_RATIO && !capWarningShownRef.current) {
+          capWarningShownRef.current = true;
+          toast({
+            title: "Approaching Spending Cap",
+            description: `${format(spent)} of your ${format(spendingCap)} session cap used (${Math.round(
+              (spent / spendingCap) * 100
+            )}%). The session ends automatically at the cap.`,
+          });
+        }
+      }
+
+      // Warn once while the escrowed deposit can still cover a few more replies
+      const depositLeft = sessionDeposit - spent;
+      if (
+        sessionId &&
+        depositLeft <= sessionDeposit * LOW_DEPOSIT_RATIO &&
+        !lowDepositWarnedRef.current
+      ) {
+        lowDepositWarnedRef.current = true;
+        console.warn(`⚠️  Session deposit low: ${format(depositLeft)} of ${format(sessionDeposit)} left`);
+        toast({
+          title: "Session Deposit Running Low",
+          description: `${format(Math.max(0, depositLeft))} of the ${format(
+            sessionDeposit
+          )} deposit left. Top up or roll over into a new session to keep chatting.`,
+        });
       }
     },
-    onError: (error: any) => {
+    onError: (error: any, variables) => {
+      // Keep whatever was streamed, but flag the bubble as failed
+      const messageId = streamingMessageIdRef.current;
+      streamingMessageIdRef.current = null;
+      if (messageId) {
+        updateMessage(messageId, (m) => ({ ...m, status: "error" }));
+      }
+
+      // Connection problems: queue a retry instead of losing the prompt
+      if (sessionId && !isAbortError(error) && isTransientError(error)) {
+        enqueuePrompt({
+          prompt: variables.prompt,
+          attachments: variables.attachments,
+          retryOf: { userMessageId: variables.userMessageId, parentId: variables.parentId },
+          queuedAt: variables.queuedPrompt?.queuedAt, // Keep its place in line
+        });
+        setIsFlushRequested(false);
+
+        addMessage("system", `⏳ Host unreachable (${error.message}). Prompt queued for retry.`);
+        toast({
+          title: "Prompt Queued",
+          description: "It will be retried when the connection is back.",
+        });
+        return;
+      }
+
       addMessage("system", `❌ Error: ${error.message}`);
       toast({
         title: "Message Failed",
@@ -428,16 +939,16 @@ export function useChatSession(
     },
   });
 
-  // Mutation: End session
+  // Mutation: End session (a rollover ends it quietly and keeps the queue for the next one)
   const endSessionMutation = useMutation({
-    mutationFn: async () => {
+    mutationFn: async (_options?: { rollover?: boolean }) => {
       if (!sessionId) {
         throw new Error("No active session");
       }
 
       // Save conversation before ending session
-      if (isStorageReady && messages.length > 0) {
-        await storeConversation(messages, totalTokens, totalCost);
+      if (isStorageReady && tree.messages.length > 0) {
+        await storeConversation(tree, totalTokens, totalCost, systemPrompt);
       }
 
       // Mock mode: Simulate session end
@@ -451,20 +962,29 @@ export function useChatSession(
       if (!sessionManager) throw new Error("Session manager not initialized");
       await sessionManager.endSession(sessionId);
     },
-    onSuccess: () => {
+    onSuccess: (_data, options) => {
       // Track session end
       if (sessionId) {
         analytics.sessionEnded(
           sessionId.toString(),
-          totalTokens,
-          totalCost,
+          sessionTokens,
+          sessionSpent,
           messages.length
         );
       }
 
+      setPausedSession(null);
+      savePausedSession(null);
+      setSessionId(null);
+      setSessionJobId(null);
+      (window as any).__currentSessionId = null;
+
+      // rolloverSession reports the outcome and carries the queue over
+      if (options?.rollover) return;
+
       addMessage(
         "system",
-        `✅ Session ended. Total tokens: ${totalTokens}, Total cost: $${totalCost.toFixed(4)}`
+        `✅ Session ended. Total tokens: ${totalTokens}, Total cost: ${formatTokenAmount(totalCost, sessionPaymentToken)}`
       );
 
       // Show success animation
@@ -473,8 +993,12 @@ export function useChatSession(
         setShowSuccessAnimation(false);
       }, 2000);
 
-      setSessionId(null);
-      (window as any).__currentSessionId = null;
+      // Queued prompts can't be sent without the session
+      if (queuedPrompts.length > 0) {
+        queuedPrompts.forEach((entry) => removeQueuedPrompt(entry.id).catch(() => {}));
+        setQueuedPrompts([]);
+        addMessage("system", `🗑️ ${queuedPrompts.length} queued prompt(s) discarded with the session.`);
+      }
 
       toast({
         title: "Session Ended Successfully! 🎉",
@@ -490,69 +1014,930 @@ export function useChatSession(
     },
   });
 
+  /**
+   * Pause the active session: the host stops serving it until it is resumed
+   * The session ID is persisted so it can be resumed after a reload
+   */
+  const pauseSessionMutation = useMutation({
+    mutationFn: async () => {
+      if (!sessionId) throw new Error("No active session");
+
+      // Mock mode: Simulate the pause
+      if (IS_MOCK_MODE) {
+        console.log("Mock: Pausing session", sessionId);
+        await new Promise((resolve) => setTimeout(resolve, 500));
+        return;
+      }
+
+      if (!sessionManager) throw new Error("Session manager not initialized");
+      await sessionManager.pauseSession(sessionId);
+    },
+    onSuccess: () => {
+      if (!sessionId) return;
+
+      const paused: PausedSession = {
+        sessionId: sessionId.toString(),
+        jobId: sessionJobId ?? undefined,
+        hostAddress: selectedHost?.address,
+        paymentToken: sessionPaymentToken,
+        deposit: sessionDeposit,
+        sessionTokens,
+        sessionSpent,
+        pausedAt: Date.now(),
+      };
+      setPausedSession(paused);
+      savePausedSession(paused);
+
+      addMessage("system", "⏸️ Session paused. Resume it to keep chatting, even after a reload.");
+      toast({
+        title: "Session Paused",
+        description: "The deposit stays escrowed until you resume or end the session.",
+      });
+    },
+    onError: (error: any) => {
+      console.error("❌ Failed to pause session:", error);
+      toast({
+        title: "Failed to Pause Session",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  /**
+   * Resume the paused session
+   * After a reload, the session comes back from its persisted ID and the
+   * conversation is reloaded from S5 (stored under the session ID)
+   */
+  const resumeSessionMutation = useMutation({
+    mutationFn: async () => {
+      if (!pausedSession) throw new Error("No paused session to resume");
+      const resumedId = BigInt(pausedSession.sessionId);
+
+      // Mock mode: Simulate the resume
+      if (IS_MOCK_MODE) {
+        console.log("Mock: Resuming session", pausedSession.sessionId);
+        await new Promise((resolve) => setTimeout(resolve, 500));
+      } else {
+        if (!sessionManager) throw new Error("Session manager not initialized");
+        await sessionManager.resumeSession(resumedId);
+      }
+
+      // Same page: the conversation is still here; after a reload, fetch it
+      const isReload = sessionId?.toString() !== pausedSession.sessionId;
+      const conversation =
+        isReload && tree.messages.length === 0 && isStorageReady
+          ? await loadConversation(pausedSession.sessionId)
+          : null;
+
+      return { resumedId, paused: pausedSession, isReload, conversation };
+    },
+    onSuccess: ({ resumedId, paused, isReload, conversation }) => {
+      if (isReload) {
+        let tokens = totalTokens;
+        let cost = totalCost;
+        if (conversation) {
+          setTree(restoreTree(conversation.messages as ChatMessage[], conversation.selectedChildren));
+          setSystemPrompt(conversation.systemPrompt ?? "");
+          tokens = conversation.metadata?.totalTokens ?? 0;
+          cost = conversation.metadata?.totalCost ?? 0;
+          setTotalTokens(tokens);
+          setTotalCost(cost);
+        }
+
+        // Carry the session's usage over so the deposit meter and cap still apply
+        setSessionId(resumedId);
+        setSessionJobId(paused.jobId ?? paused.sessionId);
+        setSessionPaymentToken(paused.paymentToken);
+        setSessionDeposit(paused.deposit);
+        setSessionBaseline({ tokens: tokens - paused.sessionTokens, cost: cost - paused.sessionSpent });
+        setCheckpoints([]);
+        (window as any).__currentSessionId = resumedId;
+
+        // Analytics only tracks sessions started on this page; register it so its end is recorded
+        analytics.sessionStarted(
+          resumedId.toString(),
+          paused.hostAddress || selectedHost?.address || "unknown",
+          contextModel || "unknown",
+          paused.paymentToken,
+          paused.jobId
+        );
+      }
+
+      setPausedSession(null);
+      savePausedSession(null);
+      setIsFlushRequested(true);
+
+      addMessage("system", "▶️ Session resumed.");
+      toast({
+        title: "Session Resumed",
+        description: `Session #${resumedId.toString().slice(-8)} is active again.`,
+      });
+    },
+    onError: (error: any) => {
+      console.error("❌ Failed to resume session:", error);
+      toast({
+        title: "Failed to Resume Session",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  /**
+   * Re-attach to a session left open on-chain (e.g. before a reload)
+   * Reconnects to the host and restores the saved conversation as its context
+   */
+  const reconnectSessionMutation = useMutation({
+    mutationFn: async ({ session, job }: { session: RecoverableSession; job: SessionJobState }) => {
+      const recoveredId = BigInt(session.sessionId);
+
+      // Mock mode: Simulate reconnecting to the host
+      if (IS_MOCK_MODE) {
+        console.log("Mock: Reconnecting to session", session.sessionId);
+        await new Promise((resolve) => setTimeout(resolve, 800));
+      } else {
+        if (!sessionManager) throw new Error("Session manager not initialized");
+        await sessionManager.resumeSession(recoveredId);
+      }
+
+      return { recoveredId, session, job };
+    },
+    onSuccess: ({ recoveredId, session, job }) => {
+      setTree(restoreTree(session.messages, session.selectedChildren));
+      setSystemPrompt(session.systemPrompt ?? "");
+      setTotalTokens(session.totalTokens);
+      setTotalCost(session.totalCost);
+
+      // Usage before the reload still counts against the deposit and cap
+      setSessionId(recoveredId);
+      setSessionJobId(job.jobId);
+      setSessionPaymentToken(job.paymentToken);
+      setSessionDeposit(job.deposit);
+      setSessionBaseline({
+        tokens: session.totalTokens - (session.sessionTokens ?? session.totalTokens),
+        cost: session.totalCost - (session.sessionSpent ?? session.totalCost),
+      });
+      setCheckpoints([]);
+      capWarningShownRef.current = false;
+      lowDepositWarnedRef.current = false;
+      (window as any).__currentSessionId = recoveredId;
+
+      // resumeSession has reactivated it, so a pause recorded before the reload no longer applies
+      setPausedSession(null);
+      savePausedSession(null);
+
+      // Analytics only tracks sessions started on this page; register it so its end is recorded
+      analytics.sessionStarted(
+        recoveredId.toString(),
+        job.hostAddress || session.selectedHost?.address || "unknown",
+        contextModel || "unknown",
+        job.paymentToken,
+        job.jobId
+      );
+
+      addMessage(
+        "system",
+        `🔌 Reconnected to session #${recoveredId.toString().slice(-8)}. ${formatTokenAmount(
+          job.refund,
+          job.paymentToken
+        )} of the deposit is still available.`
+      );
+      toast({
+        title: "Session Recovered",
+        description: "Reconnected to the host with your previous conversation.",
+      });
+    },
+    onError: (error: any) => {
+      console.error("❌ Failed to reconnect to session:", error);
+      toast({
+        title: "Failed to Recover Session",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  /**
+   * Add funds to the active session's escrow
+   * Needs an SDK with session top-up; otherwise roll over into a new session
+   */
+  const topUpSessionMutation = useMutation({
+    mutationFn: async (amount: string) => {
+      if (!sessionId) throw new Error("No active session");
+
+      // Mock mode: Simulate the deposit transaction
+      if (IS_MOCK_MODE) {
+        console.log(`Mock: Topping up session ${sessionId} with ${amount}`);
+        await new Promise((resolve) => setTimeout(resolve, 1000));
+        return amount;
+      }
+
+      if (typeof sessionManager?.topUpSession !== "function") {
+        throw new Error("This SDK version can't top up a running session. Roll over into a new session instead.");
+      }
+      await sessionManager.topUpSession(sessionId, amount);
+      return amount;
+    },
+    onSuccess: (amount) => {
+      setSessionDeposit((prev) => prev + Number(amount));
+      lowDepositWarnedRef.current = false;
+
+      const formatted = formatTokenAmount(Number(amount), sessionPaymentToken);
+      addMessage("system", `💰 Session topped up with ${formatted}.`);
+      toast({
+        title: "Session Topped Up",
+        description: `Added ${formatted} to the session deposit.`,
+      });
+    },
+    onError: (error: any) => {
+      console.error("❌ Session top-up failed:", error);
+      toast({
+        title: "Top-Up Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   // Helper functions
+  /**
+   * Add a receipt to the session totals
+   * totalCost is in the session's payment token (USDC or ETH)
+   */
+  const addUsage = useCallback((receipt: MessageReceipt) => {
+    setTotalTokens((prev) => prev + receipt.inputTokens + receipt.outputTokens);
+    setTotalCost((prev) => prev + receipt.cost);
+  }, []);
+
   const addMessage = useCallback(
     (role: ChatMessage["role"], content: string, tokens?: number) => {
-      const message: ChatMessage = {
-        role,
-        content,
-        timestamp: Date.now(),
-        tokens,
-      };
+      // Attach to the end of whichever branch is active when the update runs
+      setTree((prev) =>
+        appendMessage(prev, {
+          id: createMessageId(),
+          parentId: getActiveLeafId(prev),
+          role,
+          content,
+          timestamp: Date.now(),
+          tokens,
+          status: "complete",
+        })
+      );
+    },
+    []
+  );
 
-      setMessages((prev) => [...prev, message]);
+  // Callers of updateMessage waiting for the next committed tree
+  const treeWaitersRef = useRef<Array<(tree: ConversationTree) => void>>([]);
+  useEffect(() => {
+    if (treeWaitersRef.current.length === 0) return;
+    const waiters = treeWaitersRef.current;
+    treeWaitersRef.current = [];
+    waiters.forEach((resolve) => resolve(tree));
+  }, [tree]);
+
+  /**
+   * Update a single message in place (used for streaming chunks)
+   * Resolves with the updated tree once React has committed the change
+   */
+  const updateMessage = useCallback(
+    (id: string, updater: (message: ChatMessage) => ChatMessage) =>
+      new Promise<ConversationTree>((resolve) => {
+        treeWaitersRef.current.push(resolve);
+        setTree((prev) => updateMessageInTree(prev, id, updater));
+      }),
+    []
+  );
 
-      if (tokens) {
-        setTotalTokens((prev) => prev + tokens);
+  /**
+   * Prompt text of a user turn with its attachments, truncated so the turn
+   * (plus the system prompt) fits the context budget on its own
+   */
+  const getTurnContent = useCallback(
+    (content: string, attachments?: ChatAttachment[]) => {
+      const available =
+        getEffectiveBudget(contextModel, settings?.contextTokenBudget) -
+        tokenizer.countTokens(systemPrompt.trim()) -
+        tokenizer.countTokens(content);
+      return withAttachments(content, attachments, available, tokenizer.countTokens);
+    },
+    [contextModel, settings?.contextTokenBudget, systemPrompt, tokenizer]
+  );
 
-        // Use actual pricing from selected host
-        const pricePerToken = selectedHost?.minPricePerTokenStable
-          ? Number(selectedHost.minPricePerTokenStable)
-          : 316;  // Fallback to 0.000316 USDC/token
+  /**
+   * Fit a branch into the model's context window (see lib/context-manager)
+   * System-role chat messages are UI notices; the persona prompt is the real system turn
+   */
+  const getContextWindow = useCallback(
+    (branch: ChatMessage[], pendingPrompt?: string) =>
+      selectContext(
+        branch
+          .filter((m) => m.role !== "system" && m.status !== "streaming" && m.status !== "error")
+          .map((m) =>
+            m.attachments?.length ? { ...m, content: getTurnContent(m.content, m.attachments) } : m
+          ),
+        {
+          model: contextModel,
+          budget: settings?.contextTokenBudget,
+          systemPrompt,
+          pendingPrompt,
+          countTokens: tokenizer.countTokens,
+        }
+      ),
+    [contextModel, settings?.contextTokenBudget, systemPrompt, tokenizer, getTurnContent]
+  );
 
-        setTotalCost((prev) => prev + (tokens * pricePerToken) / 1000000);
+  /**
+   * Build the full prompt for the branch ending at `parentId`
+   * Only messages on that branch are included, never sibling branches
+   * Older turns that don't fit the token budget are replaced by a digest of their opening lines
+   * Attachments are appended to their prompt, cut down to what the context can hold
+   * Formatting follows the model's chat template (see lib/chat-templates)
+   */
+  const buildPrompt = useCallback(
+    (parentId: string | null, prompt: string, attachments?: ChatAttachment[]): string => {
+      const pendingPrompt = getTurnContent(prompt, attachments);
+      const fitted = getContextWindow(getPathTo(tree, parentId), pendingPrompt);
+
+      const systemParts = [
+        systemPrompt.trim(),
+        fitted.digest && `Earlier conversation (opening line of each turn):\n${fitted.digest}`,
+      ].filter(Boolean);
+
+      const turns: PromptTurn[] = [
+        ...(systemParts.length > 0
+          ? [{ role: "system" as const, content: systemParts.join("\n\n") }]
+          : []),
+        ...fitted.included.map((m) => ({
+          role: m.role as PromptTurn["role"],
+          content: m.content,
+        })),
+        { role: "user", content: pendingPrompt },
+      ];
+
+      if (fitted.digested.length > 0) {
+        console.log(
+          `🧠 Context: ${fitted.included.length} turns verbatim, ${fitted.digested.length} digested (~${fitted.tokens}/${fitted.budget} tokens)`
+        );
       }
+
+      return getChatTemplate(contextModel).format(turns);
     },
-    [selectedHost]  // Add selectedHost to dependencies
+    [tree, systemPrompt, getContextWindow, getTurnContent, contextModel]
   );
 
-  const buildContext = useCallback((): string => {
-    const previousMessages = messages.filter((m) => m.role !== "system");
-    if (previousMessages.length === 0) return "";
+  // What the next prompt would carry, for "in context" markers in the UI
+  const contextWindow = useMemo(
+    () => getContextWindow(messages),
+    [getContextWindow, messages]
+  );
 
-    return previousMessages
-      .map((m) => `${m.role === "user" ? "User" : "Assistant"}: ${m.content}`)
-      .join("\n");
-  }, [messages]);
+  /**
+   * Cancel the in-flight prompt, keeping whatever has streamed so far
+   */
+  const stopGeneration = useCallback(() => {
+    if (!abortControllerRef.current) return;
+    console.log("⏹️  Stopping generation...");
+    abortControllerRef.current.abort();
+  }, []);
 
-  const cleanResponse = useCallback((response: string): string => {
-    let cleaned = response.replace(/^A:\s*/, "").trim();
-    if (cleaned.includes("A:")) {
-      const parts = cleaned.split(/A:\s*/);
-      cleaned = parts[1]?.split("\n")[0]?.trim() || cleaned;
+  /**
+   * Expected cost of a prompt: its full prompt tokens plus a reply as long as the
+   * session's average so far (or the reserved reply length before any replies)
+   */
+  const estimatePromptCost = useCallback(
+    (request: SendMessageRequest): number => {
+      const inputTokens = tokenizer.countTokens(
+        buildPrompt(request.parentId, request.prompt, request.attachments)
+      );
+      const receipts = messages.filter((m) => m.receipt).map((m) => m.receipt!);
+      const expectedOutputTokens =
+        receipts.length > 0
+          ? Math.ceil(receipts.reduce((sum, r) => sum + r.outputTokens, 0) / receipts.length)
+          : RESPONSE_TOKEN_RESERVE;
+
+      return calculateCost(
+        inputTokens + expectedOutputTokens,
+        getPricePerToken(selectedHost, sessionPaymentToken),
+        sessionPaymentToken
+      );
+    },
+    [tokenizer, buildPrompt, messages, selectedHost, sessionPaymentToken]
+  );
+
+  /**
+   * Daily/monthly quota usage for each token with a quota set
+   */
+  const quotaUsage: QuotaUsage[] = useMemo(
+    () => [
+      ...getQuotaUsage(quotas, spendLedger, "USDC"),
+      ...getQuotaUsage(quotas, spendLedger, "ETH"),
+    ],
+    [quotas, spendLedger]
+  );
+
+  /**
+   * Escrowed deposit of the active session versus what has been used
+   */
+  const depositStatus: DepositStatus | null = useMemo(
+    () =>
+      sessionId && sessionDeposit > 0
+        ? getDepositStatus({
+            deposit: sessionDeposit,
+            tokens: sessionTokens,
+            pricePerToken: getPricePerToken(selectedHost, sessionPaymentToken),
+            paymentToken: sessionPaymentToken,
+            proofInterval: PROOF_INTERVAL,
+            provenTokens:
+              checkpoints.length > 0 ? checkpoints[checkpoints.length - 1].endToken : undefined,
+          })
+        : null,
+    [sessionId, sessionDeposit, sessionTokens, selectedHost, sessionPaymentToken, checkpoints]
+  );
+
+  /**
+   * Send through the mutation unless the prompt would take the session past its
+   * spending cap or deposit, or the account past a daily/monthly quota
+   * Returns false (after telling the user) when the prompt is blocked
+   */
+  const mutateWithinLimits = useCallback(
+    (request: SendMessageRequest): boolean => {
+      if (isPaused) {
+        toast({
+          title: "Session Paused",
+          description: "Resume the session to send prompts.",
+          variant: "destructive",
+        });
+        return false;
+      }
+
+      const estimate = estimatePromptCost(request);
+      const format = (amount: number) => formatTokenAmount(amount, sessionPaymentToken);
+
+      if (depositStatus && estimate > depositStatus.remaining) {
+        console.warn(`🛑 Prompt blocked: ~${format(estimate)} > ${format(depositStatus.remaining)} deposit left`);
+        toast({
+          title: "Session Deposit Too Low",
+          description: `This prompt (~${format(estimate)}) needs more than the ${format(
+            depositStatus.remaining
+          )} left in the session deposit. Top up or roll over into a new session.`,
+          variant: "destructive",
+        });
+        return false;
+      }
+
+      const exceededQuota = findExceededQuota(
+        quotaUsage.filter((quota) => quota.paymentToken === sessionPaymentToken),
+        estimate
+      );
+      if (exceededQuota) {
+        console.warn(`🛑 Prompt blocked by ${exceededQuota.period} quota`);
+        toast({
+          title: "Spending Quota Reached",
+          description: describeQuotaLimit(exceededQuota, estimate),
+          variant: "destructive",
+        });
+        return false;
+      }
+
+      if (spendingCap !== undefined) {
+        if (sessionSpent + estimate > spendingCap) {
+          console.warn(
+            `🛑 Prompt blocked by spending cap: ${format(sessionSpent)} spent + ~${format(estimate)} > ${format(spendingCap)}`
+          );
+          toast({
+            title: "Spending Cap Reached",
+            description: `This prompt (~${format(estimate)}) would take the session past its ${format(
+              spendingCap
+            )} cap (${format(sessionSpent)} spent). Raise the cap in Advanced Settings or end the session.`,
+            variant: "destructive",
+          });
+          return false;
+        }
+      }
+
+      sendMessageMutation.mutate(request);
+      return true;
+    },
+    [
+      isPaused,
+      spendingCap,
+      quotaUsage,
+      depositStatus,
+      estimatePromptCost,
+      sessionSpent,
+      sessionPaymentToken,
+      sendMessageMutation,
+      toast,
+    ]
+  );
+
+  /**
+   * Add a prompt to the outbound queue (persisted per session)
+   */
+  const enqueuePrompt = useCallback(
+    (entry: Pick<QueuedPrompt, "prompt" | "attachments" | "retryOf"> & { queuedAt?: number }) => {
+      if (!sessionId) return;
+
+      const queued: QueuedPrompt = {
+        ...entry,
+        id: createQueuedPromptId(),
+        sessionId: sessionId.toString(),
+        queuedAt: entry.queuedAt ?? Date.now(),
+      };
+      setQueuedPrompts((prev) => [...prev, queued].sort((a, b) => a.queuedAt - b.queuedAt));
+      saveQueuedPrompt(queued).catch((error) =>
+        console.warn("⚠️  Failed to persist queued prompt:", error)
+      );
+    },
+    [sessionId]
+  );
+
+  /**
+   * Send one queued prompt; on a transient failure it is re-queued by onError
+   */
+  const flushQueuedPrompt = useCallback(
+    (entry: QueuedPrompt) => {
+      const original = entry.retryOf && findMessage(tree, entry.retryOf.userMessageId);
+      const variables: SendMessageRequest = entry.retryOf
+        ? original?.content === entry.prompt
+          ? // Unchanged retry: ask for a new reply to the existing prompt
+            {
+              prompt: entry.prompt,
+              userMessageId: entry.retryOf.userMessageId,
+              parentId: entry.retryOf.parentId,
+              isRegenerate: true,
+            }
+          : // Edited retry: send as a sibling of the failed prompt
+            {
+              prompt: entry.prompt,
+              userMessageId: createMessageId(),
+              parentId: entry.retryOf.parentId,
+            }
+        : {
+            prompt: entry.prompt,
+            userMessageId: createMessageId(),
+            parentId: getActiveLeafId(tree),
+          };
+
+      // Over the cap: leave it queued and stop flushing
+      if (!mutateWithinLimits({ ...variables, attachments: entry.attachments, queuedPrompt: entry })) {
+        setIsFlushRequested(false);
+        return;
+      }
+
+      console.log(`📤 Sending queued prompt (${queuedPrompts.length - 1} left)`);
+      isFlushingRef.current = true;
+      setQueuedPrompts((prev) => prev.filter((q) => q.id !== entry.id));
+      removeQueuedPrompt(entry.id).catch(() => {});
+    },
+    [mutateWithinLimits, tree, queuedPrompts.length]
+  );
+
+  // Track connectivity; coming back online starts a flush
+  useEffect(() => {
+    const handleOnline = () => {
+      setIsOnline(true);
+      setIsFlushRequested(true);
+    };
+    const handleOffline = () => setIsOnline(false);
+
+    window.addEventListener("online", handleOnline);
+    window.addEventListener("offline", handleOffline);
+    return () => {
+      window.removeEventListener("online", handleOnline);
+      window.removeEventListener("offline", handleOffline);
+    };
+  }, []);
+
+  // Load the session's queue (it survives reloads)
+  useEffect(() => {
+    if (!sessionId) {
+      setQueuedPrompts([]);
+      return;
+    }
+
+    let cancelled = false;
+    listQueuedPrompts(sessionId.toString())
+      .then((entries) => {
+        if (cancelled) return;
+        setQueuedPrompts(entries);
+        if (entries.length > 0) setIsFlushRequested(true);
+      })
+      .catch((error) => console.warn("⚠️  Failed to load queued prompts:", error));
+    return () => {
+      cancelled = true;
+    };
+  }, [sessionId]);
+
+  // Mock mode: MockSessionManager reports its proofs as events
+  useEffect(() => {
+    if (!sessionId || !isMockSessionManager(promptSessionManager)) return;
+
+    const pricePerToken = getPricePerToken(selectedHost, sessionPaymentToken);
+    const onCheckpoint = (event: CheckpointEvent) => {
+      if (event.sessionId?.toString() !== sessionId.toString()) return;
+      console.log(`🧾 Checkpoint #${event.checkpointNumber}: ${event.tokensUsed} tokens proven`, event.txHash);
+      setCheckpoints((prev) => appendCheckpoint(prev, event, pricePerToken, sessionPaymentToken));
+    };
+
+    promptSessionManager.on(CHECKPOINT_EVENT, onCheckpoint);
+    return () => {
+      promptSessionManager.off?.(CHECKPOINT_EVENT, onCheckpoint);
+    };
+  }, [sessionId, promptSessionManager, selectedHost, sessionPaymentToken]);
+
+  const checkpointReconciliation = useMemo(
+    () => reconcileCheckpoints(checkpoints, sessionTokens, PROOF_INTERVAL),
+    [checkpoints, sessionTokens]
+  );
+
+  // Read the host's proofs from the session job while at least one interval is unproven
+  const isProofDue = checkpointReconciliation.unsettledTokens >= PROOF_INTERVAL;
+  useEffect(() => {
+    if (!sessionId || !sessionJobId || !isProofDue) return;
+    if (IS_MOCK_MODE || isMockSessionManager(promptSessionManager)) return;
+
+    const pricePerToken = getPricePerToken(selectedHost, sessionPaymentToken);
+    let cancelled = false;
+    const poll = () =>
+      fetchSessionJobState(sessionJobId)
+        .then((job) => {
+          if (cancelled) return;
+          setCheckpoints((prev) => {
+            const event = createCheckpointEvent(prev, sessionId, job.tokensUsed);
+            return event ? appendCheckpoint(prev, event, pricePerToken, sessionPaymentToken) : prev;
+          });
+        })
+        .catch((error) => console.warn("⚠️  Failed to read session proofs:", error));
+
+    poll();
+    const interval = setInterval(poll, CHECKPOINT_POLL_INTERVAL_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [sessionId, sessionJobId, isProofDue, promptSessionManager, selectedHost, sessionPaymentToken]);
+
+  // Send queued prompts in order, one at a time, while online with an active session
+  useEffect(() => {
+    if (!isFlushRequested || !isOnline || !sessionId || isPaused) return;
+    // The ref covers the gap between mutate() and isPending turning true
+    if (sendMessageMutation.isPending) {
+      isFlushingRef.current = false;
+      return;
     }
-    return cleaned;
+    if (isFlushingRef.current) return;
+
+    if (queuedPrompts.length === 0) {
+      setIsFlushRequested(false);
+      return;
+    }
+    flushQueuedPrompt(queuedPrompts[0]);
+  }, [
+    isFlushRequested,
+    isOnline,
+    sessionId,
+    isPaused,
+    sendMessageMutation.isPending,
+    queuedPrompts,
+    flushQueuedPrompt,
+  ]);
+
+  /**
+   * Send a new prompt (with optional file attachments) at the end of the active branch
+   * While offline, or behind already-queued prompts, it is queued instead
+   */
+  const sendMessage = useCallback(
+    (prompt: string, attachments?: ChatAttachment[]) => {
+      if (!isOnline || queuedPrompts.length > 0) {
+        enqueuePrompt({ prompt, attachments });
+        if (isOnline) setIsFlushRequested(true);
+        toast({
+          title: "Prompt Queued",
+          description: isOnline
+            ? "It will be sent after the prompts ahead of it."
+            : "It will be sent when you're back online.",
+        });
+        return;
+      }
+
+      mutateWithinLimits({
+        prompt,
+        userMessageId: createMessageId(),
+        parentId: getActiveLeafId(tree),
+        attachments,
+      });
+    },
+    [mutateWithinLimits, tree, isOnline, queuedPrompts.length, enqueuePrompt, toast]
+  );
+
+  /**
+   * Drop a queued prompt before it is sent
+   */
+  const cancelQueuedPrompt = useCallback((id: string) => {
+    setQueuedPrompts((prev) => prev.filter((q) => q.id !== id));
+    removeQueuedPrompt(id).catch(() => {});
+  }, []);
+
+  /**
+   * Change the text of a queued prompt before it is sent
+   */
+  const editQueuedPrompt = useCallback(
+    (id: string, prompt: string) => {
+      const entry = queuedPrompts.find((q) => q.id === id);
+      if (!entry) return;
+
+      const updated = { ...entry, prompt };
+      setQueuedPrompts((prev) => prev.map((q) => (q.id === id ? updated : q)));
+      saveQueuedPrompt(updated).catch(() => {});
+    },
+    [queuedPrompts]
+  );
+
+  /**
+   * Try sending the queue now (e.g. after a host error, without waiting for an online event)
+   */
+  const retryQueuedPrompts = useCallback(() => setIsFlushRequested(true), []);
+
+  /**
+   * Ask for another answer to the same prompt, as a sibling of `assistantMessageId`
+   */
+  const regenerateMessage = useCallback(
+    (assistantMessageId: string) => {
+      const assistant = findMessage(tree, assistantMessageId);
+      const userMessage = assistant?.parentId
+        ? findMessage(tree, assistant.parentId)
+        : undefined;
+      if (!userMessage || userMessage.role !== "user") return;
+
+      mutateWithinLimits({
+        prompt: userMessage.content,
+        userMessageId: userMessage.id!,
+        parentId: userMessage.parentId ?? null,
+        attachments: userMessage.attachments,
+        isRegenerate: true,
+      });
+    },
+    [mutateWithinLimits, tree]
+  );
+
+  /**
+   * Resend an edited prompt as a sibling of `userMessageId`, keeping its attachments
+   */
+  const editMessage = useCallback(
+    (userMessageId: string, content: string) => {
+      const userMessage = findMessage(tree, userMessageId);
+      if (!userMessage || userMessage.role !== "user") return;
+
+      mutateWithinLimits({
+        prompt: content,
+        userMessageId: createMessageId(),
+        parentId: userMessage.parentId ?? null,
+        attachments: userMessage.attachments,
+      });
+    },
+    [mutateWithinLimits, tree]
+  );
+
+  /**
+   * Show the previous (-1) or next (+1) alternative of a message
+   */
+  const switchBranch = useCallback((messageId: string, offset: -1 | 1) => {
+    setTree((prev) => switchBranchInTree(prev, messageId, offset));
   }, []);
 
+  // Sibling position for each message on the active branch
+  const branchInfo = useMemo(() => {
+    const info: Record<string, BranchInfo> = {};
+    for (const message of messages) {
+      info[message.id!] = getBranchInfo(tree, message.id!);
+    }
+    return info;
+  }, [messages, tree]);
+
+  /**
+   * End the session (settling what was used) and start a new one with a fresh
+   * deposit on the same host, keeping the conversation and any queued prompts
+   */
+  const rolloverSession = useCallback(async () => {
+    if (!sessionId) return;
+
+    const carried = queuedPrompts;
+    setIsRollingOver(true);
+    try {
+      console.log("🔁 Rolling over into a new session...");
+      await endSessionMutation.mutateAsync({ rollover: true });
+      addMessage(
+        "system",
+        `✅ Session settled. Tokens: ${sessionTokens}, cost: ${formatTokenAmount(sessionSpent, sessionPaymentToken)}`
+      );
+      const { sessionId: nextSessionId } = await startSessionMutation.mutateAsync();
+      addMessage("system", "🔁 Rolled over into a new session. The conversation continues.");
+
+      if (carried.length > 0) {
+        // Same IDs, so this moves each entry to the new session
+        const moved = carried.map((entry) => ({ ...entry, sessionId: nextSessionId.toString() }));
+        await Promise.all(moved.map((entry) => saveQueuedPrompt(entry))).catch((error) =>
+          console.warn("⚠️  Failed to persist carried-over prompts:", error)
+        );
+        setQueuedPrompts(moved);
+        setIsFlushRequested(true);
+        console.log(`📬 ${moved.length} queued prompt(s) carried over to the new session`);
+      }
+    } catch (error) {
+      // Each mutation's onError has already told the user what failed
+      console.error("❌ Session rollover failed:", error);
+      if (carried.length > 0) {
+        carried.forEach((entry) => removeQueuedPrompt(entry.id).catch(() => {}));
+        addMessage("system", `🗑️ ${carried.length} queued prompt(s) discarded: no session to send them in.`);
+      }
+    } finally {
+      setIsRollingOver(false);
+    }
+  }, [
+    sessionId,
+    sessionTokens,
+    sessionSpent,
+    sessionPaymentToken,
+    queuedPrompts,
+    endSessionMutation,
+    startSessionMutation,
+    addMessage,
+  ]);
+
   const clearMessages = useCallback(() => {
-    setMessages([]);
+    setTree(createEmptyTree());
     setTotalTokens(0);
     setTotalCost(0);
-  }, []);
+    // Keep the active session's usage against its deposit
+    setSessionBaseline((prev) => ({ tokens: prev.tokens - totalTokens, cost: prev.cost - totalCost }));
+  }, [totalTokens, totalCost]);
+
+  /**
+   * Replace the conversation with a saved one (e.g. to continue it in a new session)
+   */
+  const restoreConversation = useCallback(
+    (restored: ConversationTree, restoredSystemPrompt = "") => {
+      setTree(restored);
+      setSystemPrompt(restoredSystemPrompt);
+    },
+    []
+  );
 
   return {
     messages,
+    conversationTree: tree,
     sessionId,
     totalTokens,
     totalCost,
+    sessionPaymentToken,
+    sessionTokens,
+    sessionSpent,
+    spendingCap,
+    quotaUsage,
+    depositStatus,
+    checkpoints,
+    checkpointReconciliation,
+    topUpSession: (amount: string = SESSION_DEPOSIT_AMOUNTS[sessionPaymentToken]) =>
+      topUpSessionMutation.mutate(amount),
+    isToppingUp: topUpSessionMutation.isPending,
+    canTopUp: IS_MOCK_MODE || typeof sessionManager?.topUpSession === "function",
+    rolloverSession,
+    isRollingOver,
+    sessionDeposit,
+    sessionJobId,
+    reconnectSession: reconnectSessionMutation.mutate,
+    isReconnecting: reconnectSessionMutation.isPending,
     isSessionActive: sessionId !== null,
+    isPaused,
+    pausedSession,
+    pauseSession: pauseSessionMutation.mutate,
+    isPausing: pauseSessionMutation.isPending,
+    resumeSession: resumeSessionMutation.mutate,
+    isResuming: resumeSessionMutation.isPending,
     startSession: startSessionMutation.mutate,
     isStartingSession: startSessionMutation.isPending,
-    sendMessage: sendMessageMutation.mutate,
+    sendMessage,
     isSendingMessage: sendMessageMutation.isPending,
-    endSession: endSessionMutation.mutate,
+    queuedPrompts,
+    isOnline,
+    cancelQueuedPrompt,
+    editQueuedPrompt,
+    retryQueuedPrompts,
+    stopGeneration,
+    regenerateMessage,
+    editMessage,
+    switchBranch,
+    branchInfo,
+    systemPrompt,
+    setSystemPrompt,
+    contextWindow,
+    endSession: () => endSessionMutation.mutate({}),
     isEndingSession: endSessionMutation.isPending,
     clearMessages,
+    restoreConversation,
     showSuccessAnimation,
   };
 }
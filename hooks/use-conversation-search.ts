@@ -0,0 +1,79 @@
+// Copyright (c) 2025 Fabstir
+// SPDX-License-Identifier: BUSL-1.1
+
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import {
+  SearchFilters,
+  SearchResult,
+  SearchFacets,
+  searchConversations,
+  getSearchFacets,
+} from "@/lib/search-index";
+
+const SEARCH_DEBOUNCE_MS = 250;
+
+/**
+ * Search stored conversations via the local IndexedDB index
+ *
+ * The index is filled by useS5Storage (storeConversation / listConversations);
+ * this hook only queries it.
+ */
+export function useConversationSearch() {
+  const [query, setQuery] = useState("");
+  const [filters, setFilters] = useState<SearchFilters>({});
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [facets, setFacets] = useState<SearchFacets>({ models: [], providers: [] });
+  const [isSearching, setIsSearching] = useState(false);
+
+  const refreshFacets = useCallback(async () => {
+    try {
+      setFacets(await getSearchFacets());
+    } catch (error) {
+      console.warn("Failed to load search filters:", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    refreshFacets();
+  }, [refreshFacets]);
+
+  // Debounced search on query or filter change
+  useEffect(() => {
+    if (!query.trim()) {
+      setResults([]);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setIsSearching(true);
+      try {
+        const found = await searchConversations(query, filters);
+        if (!cancelled) setResults(found);
+      } catch (error) {
+        console.error("Search failed:", error);
+        if (!cancelled) setResults([]);
+      } finally {
+        if (!cancelled) setIsSearching(false);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [query, filters]);
+
+  return {
+    query,
+    setQuery,
+    filters,
+    setFilters,
+    results,
+    facets,
+    refreshFacets,
+    isSearching,
+  };
+}
@@ -0,0 +1,241 @@
+// Copyright (c) 2025 Fabstir
+// SPDX-License-Identifier: BUSL-1.1
+
+"use client";
+
+import { useState, useEffect, useCallback, useRef } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { useAnalytics } from "@/lib/analytics";
+import { IS_MOCK_MODE } from "@/lib/constants";
+import { isMockMode } from "@/lib/sdk/sdk-factory";
+import { PaymentToken } from "@/types/chat";
+import { SESSION_DEPOSIT_AMOUNTS, formatTokenAmount } from "@/lib/pricing";
+import { createMockSessionJobState, fetchSessionJobState } from "@/lib/session-jobs";
+import {
+  DepositBalances,
+  SessionRefund,
+  Withdrawal,
+  canWithdrawDeposit,
+  createWithdrawalId,
+  fetchDepositBalances,
+  fetchWithdrawalStatus,
+  loadWithdrawals,
+  saveWithdrawals,
+  sendWithdrawal,
+} from "@/lib/funds";
+
+// SDK types
+type PaymentManager = any;
+type Signer = any;
+
+// Refunds are read for the most recent ended sessions only
+const MAX_REFUND_SESSIONS = 10;
+const WITHDRAWAL_POLL_INTERVAL = 10000;
+
+/**
+ * Deposit balances, session refunds and withdrawals for the Funds page
+ *
+ * Withdrawals are signed by `signer`, the one the SDK was authenticated with,
+ * so with Base Account they come from the sub-account (popup-free), like every
+ * other session transaction. Deposit balances are kept per `account`.
+ */
+export function useFunds(
+  paymentManager: PaymentManager | null,
+  signer: Signer | null,
+  account: string | null
+) {
+  const { toast } = useToast();
+  const analytics = useAnalytics();
+  const [withdrawals, setWithdrawals] = useState<Withdrawal[]>([]);
+  // Withdrawals this page is sending right now (their mutation tracks them)
+  const inFlightRef = useRef<Set<string>>(new Set());
+  const isMock = IS_MOCK_MODE || isMockMode();
+
+  const {
+    data: depositBalances,
+    isLoading: isLoadingDeposits,
+    refetch: refetchDeposits,
+  } = useQuery({
+    queryKey: ["deposit-balances", account],
+    queryFn: async (): Promise<DepositBalances> => fetchDepositBalances(paymentManager),
+    enabled: !!account && typeof paymentManager?.getDepositBalance === "function",
+    refetchInterval: 15000,
+    staleTime: 5000,
+  });
+
+  const {
+    data: refunds,
+    isLoading: isLoadingRefunds,
+    refetch: refetchRefunds,
+  } = useQuery({
+    queryKey: ["session-refunds", isMock],
+    queryFn: async (): Promise<SessionRefund[]> => {
+      const ended = analytics
+        .getSessionHistory()
+        .filter((session) => session.endTime)
+        .sort((a, b) => b.endTime! - a.endTime!)
+        .slice(0, MAX_REFUND_SESSIONS);
+
+      const results = await Promise.all(
+        ended.map(async (session): Promise<SessionRefund | null> => {
+          const paymentToken: PaymentToken = session.paymentToken ?? "USDC";
+          const jobId = session.jobId ?? session.sessionId;
+          try {
+            // Mock sessions settle as soon as they end
+            const job = isMock
+              ? createMockSessionJobState({
+                  jobId,
+                  hostAddress: session.hostAddress,
+                  paymentToken,
+                  deposit: Number(SESSION_DEPOSIT_AMOUNTS[paymentToken]),
+                  tokensUsed: session.totalTokens,
+                  spent: Number(session.totalCost) || 0,
+                  savedAt: session.endTime!,
+                  openForMs: 0,
+                })
+              : await fetchSessionJobState(jobId);
+
+            return {
+              sessionId: session.sessionId,
+              endedAt: session.endTime!,
+              hostAddress: job.hostAddress,
+              paymentToken: job.paymentToken,
+              deposit: job.deposit,
+              spent: job.settled,
+              refund: job.refund,
+              settled: job.status !== "active",
+            };
+          } catch (error) {
+            console.warn(`Could not read session ${session.sessionId} on-chain:`, error);
+            return null;
+          }
+        })
+      );
+
+      return results.filter((refund): refund is SessionRefund => refund !== null);
+    },
+    staleTime: 60000,
+  });
+
+  const updateWithdrawals = useCallback((update: (prev: Withdrawal[]) => Withdrawal[]) => {
+    setWithdrawals((prev) => {
+      const next = update(prev);
+      saveWithdrawals(next);
+      return next;
+    });
+  }, []);
+
+  const updateWithdrawal = useCallback(
+    (id: string, changes: Partial<Withdrawal>) => {
+      updateWithdrawals((prev) => prev.map((w) => (w.id === id ? { ...w, ...changes } : w)));
+    },
+    [updateWithdrawals]
+  );
+
+  // Load tracked withdrawals; one left pending without a transaction was
+  // interrupted (e.g. by a reload) before it was sent
+  useEffect(() => {
+    const stored = loadWithdrawals().map((w) =>
+      w.status === "pending" && !w.txHash
+        ? { ...w, status: "failed" as const, error: "Interrupted before the transaction was sent" }
+        : w
+    );
+    setWithdrawals(stored);
+    saveWithdrawals(stored);
+  }, []);
+
+  // Follow pending withdrawals sent before a reload until they confirm or fail
+  useEffect(() => {
+    const tracked = withdrawals.filter(
+      (w) => w.status === "pending" && w.txHash && !inFlightRef.current.has(w.id)
+    );
+    if (tracked.length === 0) return;
+
+    const interval = setInterval(async () => {
+      for (const withdrawal of tracked) {
+        const status = isMock ? "confirmed" : await fetchWithdrawalStatus(withdrawal.txHash!);
+        if (status === "pending") continue;
+
+        console.log(`💸 Withdrawal ${withdrawal.txHash} ${status}`);
+        updateWithdrawal(withdrawal.id, { status });
+        if (status === "confirmed") refetchDeposits();
+      }
+    }, WITHDRAWAL_POLL_INTERVAL);
+
+    return () => clearInterval(interval);
+  }, [withdrawals, isMock, updateWithdrawal, refetchDeposits]);
+
+  const withdrawMutation = useMutation({
+    mutationFn: async ({ paymentToken, amount }: { paymentToken: PaymentToken; amount: string }) => {
+      if (!paymentManager) throw new Error("Payment manager not initialized");
+
+      const value = Number(amount);
+      const available = depositBalances?.[paymentToken] ?? 0;
+      if (!(value > 0)) throw new Error("Enter an amount to withdraw");
+      if (value > available) {
+        throw new Error(
+          `Only ${formatTokenAmount(available, paymentToken)} is available to withdraw`
+        );
+      }
+
+      const id = createWithdrawalId();
+      inFlightRef.current.add(id);
+      updateWithdrawals((prev) => [
+        { id, paymentToken, amount, status: "pending", requestedAt: Date.now() },
+        ...prev,
+      ]);
+
+      try {
+        console.log(`💸 Withdrawing ${amount} ${paymentToken} from deposit...`);
+        // Mock deposits are withdrawn through the mock payment manager
+        const tx =
+          isMock && paymentToken === "USDC"
+            ? await paymentManager.withdrawUSDC(process.env.NEXT_PUBLIC_CONTRACT_USDC_TOKEN, amount)
+            : await sendWithdrawal(paymentManager, signer, paymentToken, amount);
+        updateWithdrawal(id, { txHash: tx.hash });
+
+        await tx.wait(3);
+        updateWithdrawal(id, { status: "confirmed" });
+        console.log("✅ Withdrawal confirmed:", tx.hash);
+        return { paymentToken, amount };
+      } catch (error: any) {
+        updateWithdrawal(id, { status: "failed", error: error.message });
+        throw error;
+      } finally {
+        inFlightRef.current.delete(id);
+      }
+    },
+    onSuccess: ({ paymentToken, amount }) => {
+      refetchDeposits();
+      toast({
+        title: "Withdrawal Complete",
+        description: `${formatTokenAmount(Number(amount), paymentToken)} returned from your deposit.`,
+      });
+    },
+    onError: (error: any) => {
+      console.error("❌ Withdrawal failed:", error);
+      toast({
+        title: "Withdrawal Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return {
+    depositBalances: depositBalances ?? null,
+    isLoadingDeposits,
+    refunds: refunds ?? [],
+    isLoadingRefunds,
+    withdrawals,
+    withdraw: withdrawMutation.mutate,
+    isWithdrawing: withdrawMutation.isPending,
+    canWithdraw: (paymentToken: PaymentToken) =>
+      (isMock && !!paymentManager) || canWithdrawDeposit(paymentManager, signer, paymentToken),
+    refresh: () => {
+      refetchDeposits();
+      refetchRefunds();
+    },
+  };
+}
@@ -8,8 +8,10 @@ import { useQuery } from "@tanstack/react-query";
 import { ParsedHost } from "@/types/host";
 import { IS_MOCK_MODE, MOCK_WALLET_ADDRESS } from "@/lib/constants";
 import { analytics } from "@/lib/analytics";
+import { resolveModelIds } from "@/lib/models";
 
 type HostManager = any; // Type from SDK
+type ModelManager = any; // Type from SDK
 
 // Mock hosts for UI development (same as in use-fabstir-sdk)
 const MOCK_HOSTS: ParsedHost[] = [
@@ -31,7 +33,7 @@ const MOCK_HOSTS: ParsedHost[] = [
   },
 ];
 
-export function useHosts(hostManager: HostManager | null) {
+export function useHosts(hostManager: HostManager | null, modelManager?: ModelManager | null) {
   const [selectedHost, setSelectedHost] = useState<ParsedHost | null>(null);
 
   const {
@@ -116,6 +118,9 @@ export function useHosts(hostManager: HostManager | null) {
       console.log('[Query Function] Parsing', parsedHostsPromises.length, 'hosts...');
       const parsedHosts = await Promise.all(parsedHostsPromises);
 
+      // Map advertised model IDs to model files (chat templates, tokenizers, context limits)
+      await resolveModelIds(parsedHosts.flatMap((host) => host.models), modelManager);
+
       // Log discovered hosts for debugging endpoint/address matching
       console.log("🔍 Discovered Hosts:");
       parsedHosts.forEach((host, idx) => {
@@ -4,14 +4,18 @@
 "use client";
 
 import { useState, useCallback, useEffect } from "react";
-import { ChatMessage } from "@/types/chat";
+import { ChatAttachment, ChatMessage, MessageReceipt, PaymentToken } from "@/types/chat";
 import { ParsedHost } from "@/types/host";
+import { ConversationTree } from "@/lib/conversation-tree";
+import { indexConversation, syncSearchIndex } from "@/lib/search-index";
 
 type StorageManager = any;
 
 export interface ConversationMetadata {
+  title?: string; // First prompt of the conversation
   totalTokens: number;
   totalCost: number;
+  paymentToken?: PaymentToken; // Token totalCost is in (older conversations: USDC)
   model: string;
   provider: string;
   timestamp: number;
@@ -20,17 +24,75 @@ export interface ConversationMetadata {
 export interface StoredConversation {
   id: string;
   messages: Array<{
+    id?: string;
+    parentId?: string | null;
     role: ChatMessage["role"];
     content: string;
     timestamp: number;
+    tokens?: number;
+    receipt?: MessageReceipt;
+    attachments?: ChatAttachment[]; // Extracted text is stored so history replays the same prompt
   }>;
+  selectedChildren?: Record<string, string>; // Active branch (see lib/conversation-tree)
+  systemPrompt?: string; // Persona prompt used for the conversation
   metadata: ConversationMetadata;
 }
 
+const TITLE_MAX_LENGTH = 60;
+
+/**
+ * Display title for a stored conversation
+ * Uses the saved title, falling back to the first user prompt
+ */
+export function getConversationTitle(conversation: StoredConversation): string {
+  const source =
+    conversation.metadata?.title ||
+    conversation.messages?.find((m) => m.role === "user")?.content ||
+    "Untitled conversation";
+
+  const firstLine = source.trim().split("\n")[0];
+  return firstLine.length > TITLE_MAX_LENGTH
+    ? `${firstLine.slice(0, TITLE_MAX_LENGTH)}...`
+    : firstLine;
+}
+
+/**
+ * Serialise a conversation tree into the stored format
+ */
+export function toStoredConversation(
+  id: string,
+  tree: ConversationTree,
+  metadata: Omit<ConversationMetadata, "title" | "timestamp">,
+  systemPrompt?: string
+): StoredConversation {
+  return {
+    id,
+    messages: tree.messages.map((m) => ({
+      id: m.id,
+      parentId: m.parentId ?? null,
+      role: m.role,
+      content: m.content,
+      timestamp: m.timestamp,
+      tokens: m.tokens,
+      receipt: m.receipt,
+      attachments: m.attachments,
+    })),
+    selectedChildren: tree.selectedChildren,
+    systemPrompt: systemPrompt || undefined,
+    metadata: {
+      ...metadata,
+      title: tree.messages.find((m) => m.role === "user")?.content.slice(0, 200),
+      timestamp: Date.now(),
+    },
+  };
+}
+
 export function useS5Storage(
   storageManager: StorageManager | null,
   sessionId: bigint | null,
-  selectedHost: ParsedHost | null
+  selectedHost: ParsedHost | null,
+  model?: string, // Model file the session runs (recorded with the conversation)
+  paymentToken?: PaymentToken
 ) {
   const [isStorageReady, setIsStorageReady] = useState(false);
   const [lastSavedCid, setLastSavedCid] = useState<string | null>(null);
@@ -42,9 +104,14 @@ export function useS5Storage(
     }
   }, [storageManager]);
 
-  // Store conversation in S5
+  // Store conversation in S5 (all branches, plus which one is active)
   const storeConversation = useCallback(
-    async (messages: ChatMessage[], totalTokens: number, totalCost: number) => {
+    async (
+      tree: ConversationTree,
+      totalTokens: number,
+      totalCost: number,
+      systemPrompt?: string
+    ) => {
       if (!storageManager || !sessionId || !isStorageReady) {
         console.warn("Storage not ready:", {
           hasStorageManager: !!storageManager,
@@ -55,32 +122,34 @@ export function useS5Storage(
       }
 
       try {
-        const conversationData: StoredConversation = {
-          id: sessionId.toString(),
-          messages: messages.map((m) => ({
-            role: m.role,
-            content: m.content,
-            timestamp: m.timestamp,
-          })),
-          metadata: {
+        const conversationData = toStoredConversation(
+          sessionId.toString(),
+          tree,
+          {
             totalTokens,
             totalCost,
-            model: selectedHost?.models?.[0] || "unknown",
+            paymentToken,
+            model: model || "unknown",
             provider: selectedHost?.address || "unknown",
-            timestamp: Date.now(),
           },
-        };
+          systemPrompt
+        );
 
         const cid = await storageManager.storeConversation(conversationData);
         setLastSavedCid(cid);
         console.log("✅ Conversation stored to S5:", cid);
+
+        // Keep the local search index in step (non-blocking)
+        indexConversation(conversationData).catch((error) =>
+          console.warn("Failed to index conversation for search:", error)
+        );
         return cid;
       } catch (error) {
         console.error("Failed to store conversation:", error);
         return null;
       }
     },
-    [storageManager, sessionId, isStorageReady, selectedHost]
+    [storageManager, sessionId, isStorageReady, selectedHost, model, paymentToken]
   );
 
   // Load conversation from S5
@@ -105,6 +174,35 @@ export function useS5Storage(
     [storageManager, isStorageReady]
   );
 
+  // Add an imported conversation to history under a fresh ID (never overwrites)
+  const importConversation = useCallback(
+    async (conversation: StoredConversation) => {
+      if (!storageManager || !isStorageReady) {
+        console.warn("Storage not ready for import");
+        return null;
+      }
+
+      const imported: StoredConversation = {
+        ...conversation,
+        id: `import-${Date.now()}`,
+      };
+
+      try {
+        await storageManager.storeConversation(imported);
+        console.log("✅ Conversation imported to S5:", imported.id);
+
+        indexConversation(imported).catch((error) =>
+          console.warn("Failed to index conversation for search:", error)
+        );
+        return imported;
+      } catch (error) {
+        console.error("Failed to import conversation:", error);
+        return null;
+      }
+    },
+    [storageManager, isStorageReady]
+  );
+
   // List all conversations for the current user
   const listConversations = useCallback(async () => {
     if (!storageManager || !isStorageReady) {
@@ -114,6 +212,12 @@ export function useS5Storage(
 
     try {
       const conversations = await storageManager.listConversations();
+
+      // Index anything stored from another device or before search existed
+      syncSearchIndex(conversations || []).catch((error) =>
+        console.warn("Failed to sync search index:", error)
+      );
+
       return conversations;
     } catch (error) {
       console.error("Failed to list conversations:", error);
@@ -125,6 +229,7 @@ export function useS5Storage(
     storeConversation,
     loadConversation,
     listConversations,
+    importConversation,
     isStorageReady,
     lastSavedCid,
   };
@@ -4,24 +4,63 @@
 "use client";
 
 import { useState, useEffect, useCallback } from "react";
-import { ChatMessage } from "@/types/chat";
+import { ChatMessage, PaymentToken } from "@/types/chat";
 import { ParsedHost } from "@/types/host";
+import { ConversationTree } from "@/lib/conversation-tree";
+import { IS_MOCK_MODE } from "@/lib/constants";
+import { isMockSessionManager } from "@/lib/sdk/MockSessionManager";
+import {
+  SessionJobState,
+  fetchSessionJobState,
+  createMockSessionJobState,
+  isSessionJobOpen,
+} from "@/lib/session-jobs";
 
-export interface RecoverableSession {
+/**
+ * Session usage saved alongside the conversation so a reconnected session
+ * picks up its deposit meter and spending cap where they were
+ */
+export interface RecoverableSessionDetails {
+  jobId?: string; // On-chain job (older saves: same as the session ID)
+  paymentToken?: PaymentToken;
+  deposit?: number;
+  sessionTokens?: number;
+  sessionSpent?: number;
+  systemPrompt?: string;
+}
+
+export interface RecoverableSession extends RecoverableSessionDetails {
   sessionId: string;
-  messages: ChatMessage[];
+  messages: ChatMessage[]; // Every message across all branches
+  selectedChildren?: Record<string, string>; // Active branch (see lib/conversation-tree)
   selectedHost: ParsedHost;
   totalTokens: number;
   totalCost: number;
   timestamp: number;
 }
 
+/**
+ * Where the saved session stands on-chain
+ * - checking: reading the job
+ * - open: still active; the host can be reconnected to
+ * - settled: completed or timed out; payout and refund are final
+ * - error: the job couldn't be read
+ */
+export type RecoveryStatus = "checking" | "open" | "settled" | "error";
+
 const SESSION_STORAGE_KEY = "fabstir_active_session";
 const SESSION_TTL = 24 * 60 * 60 * 1000; // 24 hours
 
-export function useSessionRecovery() {
+/**
+ * @param options.sessionManager - When set, the saved session is checked on-chain
+ */
+export function useSessionRecovery(options?: { sessionManager?: any }) {
   const [recoveredSession, setRecoveredSession] =
     useState<RecoverableSession | null>(null);
+  const [recoveryStatus, setRecoveryStatus] = useState<RecoveryStatus | null>(null);
+  const [jobState, setJobState] = useState<SessionJobState | null>(null);
+  const [recoveryError, setRecoveryError] = useState<string | null>(null);
+  const sessionManager = options?.sessionManager;
 
   // Check for recoverable session on mount
   useEffect(() => {
@@ -67,17 +106,19 @@ export function useSessionRecovery() {
   const saveSession = useCallback(
     (
       sessionId: bigint,
-      messages: ChatMessage[],
+      tree: ConversationTree,
       selectedHost: ParsedHost | null,
       totalTokens: number,
-      totalCost: number
+      totalCost: number,
+      details: RecoverableSessionDetails = {}
     ) => {
       if (typeof window === "undefined" || !selectedHost) return;
 
       try {
         const session: RecoverableSession = {
           sessionId: sessionId.toString(),
-          messages,
+          messages: tree.messages,
+          selectedChildren: tree.selectedChildren,
           selectedHost: selectedHost ? {
             ...selectedHost,
             stake: selectedHost.stake.toString(), // Convert BigInt to string for serialization
@@ -86,6 +127,7 @@ export function useSessionRecovery() {
           } as any as ParsedHost : selectedHost,  // Type assertion for serialization
           totalTokens,
           totalCost,
+          ...details,
           timestamp: Date.now(),
         };
 
@@ -102,11 +144,52 @@ export function useSessionRecovery() {
     []
   );
 
+  /**
+   * Look the saved session up on-chain (synthetic state in mock mode)
+   */
+  const verifySession = useCallback(async () => {
+    if (!recoveredSession) return;
+
+    setRecoveryStatus("checking");
+    setRecoveryError(null);
+    const jobId = recoveredSession.jobId ?? recoveredSession.sessionId;
+    try {
+      const job =
+        IS_MOCK_MODE || isMockSessionManager(sessionManager)
+          ? createMockSessionJobState({
+              jobId,
+              hostAddress: recoveredSession.selectedHost.address,
+              paymentToken: recoveredSession.paymentToken ?? "USDC",
+              deposit: recoveredSession.deposit ?? 0,
+              tokensUsed: recoveredSession.sessionTokens ?? recoveredSession.totalTokens,
+              spent: recoveredSession.sessionSpent ?? recoveredSession.totalCost,
+              savedAt: recoveredSession.timestamp,
+            })
+          : await fetchSessionJobState(jobId);
+
+      setJobState(job);
+      setRecoveryStatus(isSessionJobOpen(job) ? "open" : "settled");
+    } catch (error: any) {
+      console.error("Failed to read session job:", error);
+      setRecoveryError(error.message);
+      setRecoveryStatus("error");
+    }
+  }, [recoveredSession, sessionManager]);
+
+  // Check the saved session once the session manager is available
+  useEffect(() => {
+    if (!recoveredSession || recoveryStatus !== null) return;
+    if (!sessionManager && !IS_MOCK_MODE) return;
+    verifySession();
+  }, [recoveredSession, recoveryStatus, sessionManager, verifySession]);
+
   const clearSession = useCallback(() => {
     if (typeof window === "undefined") return;
 
     localStorage.removeItem(SESSION_STORAGE_KEY);
     setRecoveredSession(null);
+    setRecoveryStatus(null);
+    setJobState(null);
   }, []);
 
   const dismissRecovery = useCallback(() => {
@@ -115,6 +198,10 @@ export function useSessionRecovery() {
 
   return {
     recoveredSession,
+    recoveryStatus,
+    jobState,
+    recoveryError,
+    verifySession,
     saveSession,
     clearSession,
     dismissRecovery,
@@ -122,27 +209,50 @@ export function useSessionRecovery() {
   };
 }
 
-// Auto-save session state periodically
+// Auto-save session state (the whole conversation tree) periodically
 export function useAutoSaveSession(
   sessionId: bigint | null,
-  messages: ChatMessage[],
+  tree: ConversationTree,
   selectedHost: ParsedHost | null,
   totalTokens: number,
-  totalCost: number
+  totalCost: number,
+  details: RecoverableSessionDetails = {}
 ) {
   const { saveSession } = useSessionRecovery();
+  const { jobId, paymentToken, deposit, sessionTokens, sessionSpent, systemPrompt } = details;
 
   useEffect(() => {
     if (!sessionId) return;
 
+    const save = () =>
+      saveSession(sessionId, tree, selectedHost, totalTokens, totalCost, {
+        jobId,
+        paymentToken,
+        deposit,
+        sessionTokens,
+        sessionSpent,
+        systemPrompt,
+      });
+
     // Save immediately when session starts
-    saveSession(sessionId, messages, selectedHost, totalTokens, totalCost);
+    save();
 
     // Auto-save every 30 seconds
-    const interval = setInterval(() => {
-      saveSession(sessionId, messages, selectedHost, totalTokens, totalCost);
-    }, 30 * 1000);
+    const interval = setInterval(save, 30 * 1000);
 
     return () => clearInterval(interval);
-  }, [sessionId, messages, selectedHost, totalTokens, totalCost, saveSession]);
+  }, [
+    sessionId,
+    tree,
+    selectedHost,
+    totalTokens,
+    totalCost,
+    jobId,
+    paymentToken,
+    deposit,
+    sessionTokens,
+    sessionSpent,
+    systemPrompt,
+    saveSession,
+  ]);
 }
@@ -0,0 +1,151 @@
+// Copyright (c) 2025 Fabstir
+// SPDX-License-Identifier: BUSL-1.1
+
+"use client";
+
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import type { Address } from "viem";
+import { useToast } from "@/hooks/use-toast";
+import type { BaseAccountInfo } from "@/hooks/use-base-account";
+import { createSDK } from "@/lib/base-account";
+import {
+  SpendPermission,
+  SpendPermissionState,
+  SpendPermissionTerms,
+  createRenewCalls,
+  createRevokeCalls,
+  createSpendPermission,
+  fetchSpendPermissions,
+  getDefaultPermissionParams,
+  loadSpendPermissionTerms,
+  readSpendPermissionState,
+  saveSpendPermissionTerms,
+  sendSpendPermissionCalls,
+} from "@/lib/spend-permissions";
+
+/**
+ * Spend permissions the PRIMARY account has granted the sub-account
+ *
+ * Renewals and revocations are signed by the PRIMARY account (one popup each),
+ * since only a permission's account can approve or revoke it.
+ */
+export function useSpendPermissions(accountInfo: BaseAccountInfo | null) {
+  const { toast } = useToast();
+  const usdcAddress = process.env.NEXT_PUBLIC_CONTRACT_USDC_TOKEN as Address;
+  const isEnabled = !!accountInfo?.isUsingBaseAccount;
+  const account = accountInfo?.primaryAccount as Address;
+  const spender = accountInfo?.subAccount as Address;
+
+  const [terms, setTerms] = useState<SpendPermissionTerms>(() => {
+    const saved = loadSpendPermissionTerms();
+    if (saved) return saved;
+    const { allowance, period, duration } = getDefaultPermissionParams({
+      token: usdcAddress,
+      depositAmount: "2.00",
+    });
+    return { allowance, period, duration };
+  });
+
+  const {
+    data: permissions,
+    isLoading,
+    error,
+    refetch,
+  } = useQuery({
+    queryKey: ["spend-permissions", account, spender],
+    queryFn: async (): Promise<SpendPermissionState[]> => {
+      const provider = createSDK().getProvider();
+      const granted = await fetchSpendPermissions(provider, account, spender);
+      const states = await Promise.all(granted.map(readSpendPermissionState));
+
+      // Active first, then newest
+      return states.sort(
+        (a, b) => Number(b.isActive) - Number(a.isActive) || b.permission.start - a.permission.start
+      );
+    },
+    enabled: isEnabled,
+    refetchInterval: 30000,
+    staleTime: 10000,
+  });
+
+  const renewMutation = useMutation({
+    mutationFn: async (newTerms: SpendPermissionTerms) => {
+      if (!isEnabled) throw new Error("Connect with Base Account first");
+
+      // Replace the active USDC permission, if any, in the same batch
+      const current = permissions?.find(
+        (p) => p.isActive && p.permission.token.toLowerCase() === usdcAddress.toLowerCase()
+      );
+      const renewed = createSpendPermission({ account, spender, token: usdcAddress, terms: newTerms });
+
+      console.log("📝 Renewing spend permission...", { allowance: newTerms.allowance.toString() });
+      const batchId = await sendSpendPermissionCalls(
+        createSDK().getProvider(),
+        account,
+        createRenewCalls(renewed, current?.permission)
+      );
+      console.log("✅ Spend permission renewal sent:", batchId);
+
+      saveSpendPermissionTerms(newTerms);
+      return newTerms;
+    },
+    onSuccess: (newTerms) => {
+      setTerms(newTerms);
+      refetch();
+      toast({
+        title: "Spend Permission Renewed",
+        description: "The new terms apply once the transaction confirms.",
+      });
+    },
+    onError: (error: any) => {
+      console.error("❌ Spend permission renewal failed:", error);
+      toast({
+        title: "Renewal Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (permission: SpendPermission) => {
+      if (!isEnabled) throw new Error("Connect with Base Account first");
+
+      console.log("🗑️ Revoking spend permission...");
+      const batchId = await sendSpendPermissionCalls(
+        createSDK().getProvider(),
+        account,
+        createRevokeCalls(permission)
+      );
+      console.log("✅ Spend permission revocation sent:", batchId);
+    },
+    onSuccess: () => {
+      refetch();
+      toast({
+        title: "Spend Permission Revoked",
+        description: "Sessions will need a new permission to spend from your account.",
+      });
+    },
+    onError: (error: any) => {
+      console.error("❌ Spend permission revocation failed:", error);
+      toast({
+        title: "Revocation Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return {
+    permissions: permissions ?? [],
+    isLoading,
+    error: error ? (error as Error).message : null,
+    terms,
+    renew: renewMutation.mutate,
+    isRenewing: renewMutation.isPending,
+    revoke: revokeMutation.mutate,
+    isRevoking: revokeMutation.isPending,
+    refresh: refetch,
+  };
+}
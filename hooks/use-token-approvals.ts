@@ -0,0 +1,98 @@
+// Copyright (c) 2025 Fabstir
+// SPDX-License-Identifier: BUSL-1.1
+
+"use client";
+
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { IS_MOCK_MODE } from "@/lib/constants";
+import { getApprovalSpenders } from "@/lib/approvals";
+
+// SDK types
+type PaymentManager = any;
+
+export interface TokenAllowance {
+  spenderName: string;
+  spender: string;
+  allowance: bigint; // USDC, smallest unit
+}
+
+/**
+ * Current USDC allowances per spender, with a revoke action
+ * Revoking approves zero through the payment manager's signer (the sub-account with Base Account)
+ */
+export function useTokenApprovals(paymentManager: PaymentManager | null, ownerAddress: string | null) {
+  const { toast } = useToast();
+  const usdcAddress = process.env.NEXT_PUBLIC_CONTRACT_USDC_TOKEN!;
+
+  const {
+    data: allowances,
+    isLoading,
+    refetch,
+  } = useQuery({
+    queryKey: ["token-allowances", ownerAddress],
+    queryFn: async (): Promise<TokenAllowance[]> => {
+      const spenders = getApprovalSpenders();
+
+      // Mock mode: Sessions don't approve anything
+      if (IS_MOCK_MODE) {
+        console.log("Mock: Getting USDC allowances");
+        await new Promise((resolve) => setTimeout(resolve, 300));
+        return spenders.map((s) => ({ spenderName: s.name, spender: s.address, allowance: BigInt(0) }));
+      }
+
+      // Production mode: Use real SDK
+      if (!paymentManager || !ownerAddress) {
+        throw new Error("Payment manager or address not available");
+      }
+
+      return Promise.all(
+        spenders.map(async (s) => ({
+          spenderName: s.name,
+          spender: s.address,
+          allowance: BigInt(await paymentManager.checkAllowance(ownerAddress, s.address, usdcAddress)),
+        }))
+      );
+    },
+    enabled: (!!paymentManager && !!ownerAddress) || IS_MOCK_MODE,
+    staleTime: 10000,
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (spender: string) => {
+      if (IS_MOCK_MODE) {
+        console.log("Mock: Revoking USDC allowance for", spender);
+        await new Promise((resolve) => setTimeout(resolve, 800));
+        return;
+      }
+
+      if (!paymentManager) throw new Error("Payment manager not initialized");
+      console.log(`🗑️ Revoking USDC allowance for ${spender}...`);
+      await paymentManager.approveToken(spender, BigInt(0), usdcAddress);
+      console.log("✅ Allowance revoked");
+    },
+    onSuccess: () => {
+      refetch();
+      toast({
+        title: "Approval Revoked",
+        description: "The contract can no longer spend your USDC until a new session approves it.",
+      });
+    },
+    onError: (error: any) => {
+      console.error("❌ Revoking approval failed:", error);
+      toast({
+        title: "Revoke Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return {
+    allowances: allowances ?? [],
+    isLoading,
+    refetch,
+    revokeAllowance: revokeMutation.mutate,
+    isRevoking: revokeMutation.isPending,
+  };
+}
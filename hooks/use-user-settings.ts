@@ -5,7 +5,32 @@
 
 import { useState, useEffect, useCallback } from 'react';
 import type { StorageManager } from '@fabstir/sdk-core';
-import type { UserSettings, PartialUserSettings, UserSettingsVersion } from '@fabstir/sdk-core';
+import type {
+  UserSettings as SDKUserSettings,
+  PartialUserSettings as SDKPartialUserSettings,
+  UserSettingsVersion,
+} from '@fabstir/sdk-core';
+import type { PersonaPreset } from '@/lib/personas';
+import type { PromptTemplate } from '@/lib/prompt-templates';
+import type { TokenAmounts } from '@/types/chat';
+
+/**
+ * UI-specific settings stored alongside the SDK settings in S5
+ */
+export interface ChatSettingsExtensions {
+  personas?: PersonaPreset[]; // User-defined presets (built-ins live in lib/personas)
+  selectedPersonaId?: string; // Default persona for new conversations
+  contextTokenBudget?: number; // Max prompt tokens per turn (see lib/context-manager)
+  promptTemplates?: PromptTemplate[]; // User-defined templates (built-ins live in lib/prompt-templates)
+  sessionSpendingCaps?: TokenAmounts; // Max spend per session, per payment token (unset = no cap)
+  dailySpendingQuotas?: TokenAmounts; // Max spend per calendar day across sessions, per payment token (see lib/usage-quotas)
+  monthlySpendingQuotas?: TokenAmounts; // Max spend per calendar month across sessions, per payment token
+  approvalPolicy?: 'exact' | 'capped' | 'unlimited'; // How much USDC to approve per session (see lib/approvals)
+  approvalCap?: number; // USDC, for the 'capped' policy
+}
+
+export type UserSettings = SDKUserSettings & ChatSettingsExtensions;
+export type PartialUserSettings = SDKPartialUserSettings & Partial<ChatSettingsExtensions>;
 
 interface UseUserSettingsReturn {
   settings: UserSettings | null;
@@ -18,6 +18,8 @@ export interface SessionAnalytics {
   totalCost: number;
   hostAddress: string;
   model: string;
+  paymentToken?: 'USDC' | 'ETH'; // Token totalCost is in (older entries: USDC)
+  jobId?: string; // On-chain job (older entries: same as sessionId)
 }
 
 class Analytics {
@@ -71,15 +73,23 @@ class Analytics {
   }
 
   // Track session lifecycle
-  sessionStarted(sessionId: string, hostAddress: string, model: string) {
+  sessionStarted(
+    sessionId: string,
+    hostAddress: string,
+    model: string,
+    paymentToken: 'USDC' | 'ETH' = 'USDC',
+    jobId: string = sessionId
+  ) {
     const analytics: SessionAnalytics = {
       sessionId,
+      jobId,
       startTime: Date.now(),
       totalMessages: 0,
       totalTokens: 0,
       totalCost: 0,
       hostAddress,
       model,
+      paymentToken,
     };
 
     this.sessionData.set(sessionId, analytics);
@@ -178,6 +188,23 @@ class Analytics {
     });
   }
 
+  // Track compare mode verdicts
+  compareVerdict(
+    round: number,
+    verdict: 'left' | 'right' | 'tie',
+    left: { model: string; hostAddress: string },
+    right: { model: string; hostAddress: string }
+  ) {
+    this.track("compare_verdict", {
+      round,
+      verdict,
+      leftModel: left.model,
+      leftHost: left.hostAddress.slice(0, 10) + "...",
+      rightModel: right.model,
+      rightHost: right.hostAddress.slice(0, 10) + "...",
+    });
+  }
+
   // Private methods
   private sendToProvider(event: AnalyticsEvent) {
     // Implement analytics provider integration here
@@ -261,6 +288,8 @@ export function useAnalytics() {
     themeChanged: analytics.themeChanged.bind(analytics),
     settingsReset: analytics.settingsReset.bind(analytics),
     setupCompleted: analytics.setupCompleted.bind(analytics),
+    // Compare mode
+    compareVerdict: analytics.compareVerdict.bind(analytics),
     // Data access
     getEvents: analytics.getEvents.bind(analytics),
     getSessionHistory: analytics.getSessionHistory.bind(analytics),
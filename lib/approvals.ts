@@ -0,0 +1,74 @@
+// Copyright (c) 2025 Fabstir
+// SPDX-License-Identifier: BUSL-1.1
+
+/**
+ * Token Approvals
+ *
+ * USDC sessions need an ERC20 approval for the JobMarketplace to pull the
+ * deposit. How much is approved is the user's choice:
+ * - exact: just the session deposit, approved again for every session
+ * - capped: up to a user-set amount, reused until it runs out
+ * - unlimited: one standing approval (the old default behaviour)
+ */
+
+import { maxUint256, parseUnits } from "viem";
+
+export type ApprovalPolicy = "exact" | "capped" | "unlimited";
+
+export const DEFAULT_APPROVAL_POLICY: ApprovalPolicy = "exact";
+export const DEFAULT_APPROVAL_CAP = 20; // USDC
+
+export const APPROVAL_POLICY_LABELS: Record<ApprovalPolicy, string> = {
+  exact: "Exact per session",
+  capped: "Capped",
+  unlimited: "Unlimited",
+};
+
+export const APPROVAL_POLICY_DESCRIPTIONS: Record<ApprovalPolicy, string> = {
+  exact: "Approve only each session's deposit. One extra approval per session.",
+  capped: "Approve up to your cap and reuse it until it runs out.",
+  unlimited: "Approve once with no limit. Convenient, but the contract can pull any amount.",
+};
+
+const USDC_DECIMALS = 6;
+
+/**
+ * Contracts that may hold a USDC allowance from the user's account
+ */
+export function getApprovalSpenders(): Array<{ name: string; address: string }> {
+  const jobMarketplace = process.env.NEXT_PUBLIC_CONTRACT_JOB_MARKETPLACE;
+  return jobMarketplace ? [{ name: "JobMarketplace", address: jobMarketplace }] : [];
+}
+
+/**
+ * Amount to approve when the allowance doesn't cover `required` (smallest unit)
+ * Throws if the cap is below a single session's deposit
+ */
+export function getApprovalAmount(
+  policy: ApprovalPolicy,
+  required: bigint,
+  cap: number = DEFAULT_APPROVAL_CAP
+): bigint {
+  if (policy === "unlimited") return maxUint256;
+  if (policy === "exact") return required;
+
+  const capAmount = parseUnits(cap.toString(), USDC_DECIMALS);
+  if (capAmount < required) {
+    throw new Error(
+      `Your approval cap ($${cap}) is below the session deposit. Raise it in Advanced Settings.`
+    );
+  }
+  return capAmount;
+}
+
+/**
+ * Whether an allowance is effectively unlimited (some tokens decrease it slightly on use)
+ */
+export function isUnlimitedAllowance(allowance: bigint): boolean {
+  return allowance >= maxUint256 / BigInt(2);
+}
+
+export function formatAllowance(allowance: bigint): string {
+  if (isUnlimitedAllowance(allowance)) return "Unlimited";
+  return `$${(Number(allowance) / 10 ** USDC_DECIMALS).toFixed(2)}`;
+}
@@ -0,0 +1,211 @@
+// Copyright (c) 2025 Fabstir
+// SPDX-License-Identifier: BUSL-1.1
+
+/**
+ * Prompt Attachments
+ *
+ * Reads local files entirely in the browser (nothing is uploaded until the
+ * prompt is sent). Text, Markdown and code are read as UTF-8; PDFs go through
+ * pdf.js, loaded on first use. The extracted text is stored with the message
+ * and injected into the prompt, truncated to whatever the context can hold.
+ */
+
+import { AttachmentKind, ChatAttachment } from "@/types/chat";
+import { estimateTokens } from "@/lib/context-manager";
+
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024; // 10 MB per file
+export const MAX_ATTACHMENTS = 5;
+
+// Per-file header, footer and truncation note
+const ATTACHMENT_OVERHEAD_TOKENS = 24;
+const TRUNCATION_NOTE = "[... truncated to fit the context window]";
+
+const EXTENSION_KINDS: Record<string, AttachmentKind> = {
+  txt: "text",
+  log: "text",
+  csv: "text",
+  tsv: "text",
+  json: "text",
+  yaml: "text",
+  yml: "text",
+  toml: "text",
+  ini: "text",
+  xml: "text",
+  md: "markdown",
+  markdown: "markdown",
+  mdx: "markdown",
+  ts: "code",
+  tsx: "code",
+  js: "code",
+  jsx: "code",
+  mjs: "code",
+  cjs: "code",
+  py: "code",
+  rs: "code",
+  go: "code",
+  java: "code",
+  kt: "code",
+  c: "code",
+  h: "code",
+  cpp: "code",
+  hpp: "code",
+  cs: "code",
+  rb: "code",
+  php: "code",
+  swift: "code",
+  sh: "code",
+  sql: "code",
+  sol: "code",
+  html: "code",
+  css: "code",
+  scss: "code",
+  pdf: "pdf",
+};
+
+// Value for the file input's `accept` attribute
+export const ATTACHMENT_ACCEPT = Object.keys(EXTENSION_KINDS)
+  .map((extension) => `.${extension}`)
+  .join(",");
+
+/**
+ * Attachment kind for a file, or null if it can't be read as text
+ */
+export function getAttachmentKind(file: { name: string; type: string }): AttachmentKind | null {
+  const extension = file.name.split(".").pop()?.toLowerCase() ?? "";
+  if (EXTENSION_KINDS[extension]) return EXTENSION_KINDS[extension];
+  if (file.type === "application/pdf") return "pdf";
+  if (file.type.startsWith("text/")) return "text";
+  return null;
+}
+
+async function extractPdfText(file: File): Promise<string> {
+  const pdfjs = await import("pdfjs-dist");
+  if (!pdfjs.GlobalWorkerOptions.workerSrc) {
+    pdfjs.GlobalWorkerOptions.workerSrc = new URL(
+      "pdfjs-dist/build/pdf.worker.min.mjs",
+      import.meta.url
+    ).toString();
+  }
+
+  const pdf = await pdfjs.getDocument({ data: await file.arrayBuffer() }).promise;
+  try {
+    const pages: string[] = [];
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const { items } = await page.getTextContent();
+      pages.push(items.map((item) => ("str" in item ? item.str : "")).join(" ").trim());
+    }
+    return pages.filter(Boolean).join("\n\n");
+  } finally {
+    await pdf.destroy();
+  }
+}
+
+/**
+ * Read a local file into an attachment
+ * Throws a descriptive error for unsupported, oversized or empty files
+ */
+export async function readAttachment(
+  file: File,
+  countTokens = estimateTokens
+): Promise<ChatAttachment> {
+  const kind = getAttachmentKind(file);
+  if (!kind) {
+    throw new Error(`${file.name}: unsupported file type`);
+  }
+  if (file.size > MAX_ATTACHMENT_BYTES) {
+    throw new Error(`${file.name}: larger than ${MAX_ATTACHMENT_BYTES / 1024 / 1024} MB`);
+  }
+
+  const content = kind === "pdf" ? await extractPdfText(file) : await file.text();
+  if (!content.trim()) {
+    throw new Error(
+      kind === "pdf" ? `${file.name}: no extractable text (scanned PDF?)` : `${file.name}: file is empty`
+    );
+  }
+
+  return {
+    id: `att-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`,
+    name: file.name,
+    kind,
+    size: file.size,
+    content,
+    tokens: countTokens(content),
+  };
+}
+
+/**
+ * Cut text to at most `maxTokens`, keeping the beginning
+ */
+export function truncateToTokens(
+  text: string,
+  maxTokens: number,
+  countTokens = estimateTokens
+): { text: string; truncated: boolean } {
+  if (countTokens(text) <= maxTokens) return { text, truncated: false };
+  if (maxTokens <= 0) return { text: "", truncated: true };
+
+  // Start from a proportional cut, then shrink until the tokenizer agrees
+  let length = Math.floor((text.length * maxTokens) / countTokens(text));
+  while (length > 0 && countTokens(text.slice(0, length)) > maxTokens) {
+    length = Math.floor(length * 0.9);
+  }
+  return { text: text.slice(0, length), truncated: true };
+}
+
+/**
+ * Format attachments for the prompt within `maxTokens`
+ * Small files are kept whole; the remaining budget is shared by the larger ones
+ */
+export function formatAttachments(
+  attachments: ChatAttachment[],
+  maxTokens: number,
+  countTokens = estimateTokens
+): string {
+  if (attachments.length === 0) return "";
+
+  const allowance = new Map<string, number>();
+  let remaining = maxTokens;
+  const bySize = [...attachments].sort((a, b) => a.tokens - b.tokens);
+  bySize.forEach((attachment, index) => {
+    const share = Math.floor(remaining / (bySize.length - index));
+    const allowed = Math.max(0, Math.min(attachment.tokens, share - ATTACHMENT_OVERHEAD_TOKENS));
+    allowance.set(attachment.id, allowed);
+    remaining -= allowed + ATTACHMENT_OVERHEAD_TOKENS;
+  });
+
+  return attachments
+    .map((attachment) => {
+      const { text, truncated } = truncateToTokens(
+        attachment.content,
+        allowance.get(attachment.id) ?? 0,
+        countTokens
+      );
+      return [
+        `<file name="${attachment.name}">`,
+        text,
+        ...(truncated ? [TRUNCATION_NOTE] : []),
+        "</file>",
+      ].join("\n");
+    })
+    .join("\n\n");
+}
+
+/**
+ * Prompt text for a user turn: the typed message followed by its attachments
+ */
+export function withAttachments(
+  content: string,
+  attachments: ChatAttachment[] | undefined,
+  maxTokens: number,
+  countTokens = estimateTokens
+): string {
+  if (!attachments?.length) return content;
+  return `${content}\n\n${formatAttachments(attachments, maxTokens, countTokens)}`;
+}
+
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
@@ -0,0 +1,116 @@
+// Copyright (c) 2025 Fabstir
+// SPDX-License-Identifier: BUSL-1.1
+
+import { describe, expect, it } from "vitest";
+import {
+  LLAMA3_TEMPLATE,
+  PLAIN_TEMPLATE,
+  PromptTurn,
+  VICUNA_TEMPLATE,
+  cleanTemplateResponse,
+  cutAtStopSequence,
+  getChatTemplate,
+} from "@/lib/chat-templates";
+import { getModelId, resolveModelIds } from "@/lib/models";
+
+const TURNS: PromptTurn[] = [
+  { role: "system", content: "Be brief." },
+  { role: "user", content: "Hi " },
+  { role: "assistant", content: "Hello!" },
+  { role: "user", content: "What is 2+2?" },
+];
+
+describe("LLAMA3_TEMPLATE", () => {
+  it("formats turns with headers and opens the assistant turn", () => {
+    expect(LLAMA3_TEMPLATE.format(TURNS)).toBe(
+      "<|begin_of_text|>" +
+        "<|start_header_id|>system<|end_header_id|>\n\nBe brief.<|eot_id|>" +
+        "<|start_header_id|>user<|end_header_id|>\n\nHi<|eot_id|>" +
+        "<|start_header_id|>assistant<|end_header_id|>\n\nHello!<|eot_id|>" +
+        "<|start_header_id|>user<|end_header_id|>\n\nWhat is 2+2?<|eot_id|>" +
+        "<|start_header_id|>assistant<|end_header_id|>\n\n"
+    );
+  });
+
+  it("stops at the end-of-turn token", () => {
+    expect(cutAtStopSequence(LLAMA3_TEMPLATE, "4<|eot_id|><|start_header_id|>user")).toEqual({
+      text: "4",
+      stopped: true,
+    });
+    expect(cutAtStopSequence(LLAMA3_TEMPLATE, "It is 4")).toEqual({ text: "It is 4", stopped: false });
+  });
+
+  it("strips special tokens and an echoed assistant header", () => {
+    expect(cleanTemplateResponse(LLAMA3_TEMPLATE, "assistant\n<|begin_of_text|>It is 4.<|eot_id|>junk")).toBe(
+      "It is 4."
+    );
+  });
+});
+
+describe("VICUNA_TEMPLATE", () => {
+  it("formats turns after the system preamble", () => {
+    expect(VICUNA_TEMPLATE.format(TURNS)).toBe(
+      "Be brief.\n\nUSER: Hi\nASSISTANT: Hello!</s>\nUSER: What is 2+2?\nASSISTANT:"
+    );
+  });
+
+  it("uses the default system prompt when there is none", () => {
+    expect(VICUNA_TEMPLATE.format([{ role: "user", content: "Hi" }])).toBe(
+      `${VICUNA_TEMPLATE.defaultSystemPrompt}\n\nUSER: Hi\nASSISTANT:`
+    );
+  });
+
+  it("stops at end of sequence or the next user turn, whichever comes first", () => {
+    expect(cutAtStopSequence(VICUNA_TEMPLATE, "4\nUSER: and 3+3?</s>")).toEqual({ text: "4", stopped: true });
+    expect(cutAtStopSequence(VICUNA_TEMPLATE, "4</s>\nUSER:")).toEqual({ text: "4", stopped: true });
+  });
+
+  it("strips special tokens and an echoed ASSISTANT: label", () => {
+    expect(cleanTemplateResponse(VICUNA_TEMPLATE, " ASSISTANT: <s>It is 4.</s>")).toBe("It is 4.");
+  });
+});
+
+describe("PLAIN_TEMPLATE", () => {
+  it("formats turns as labelled lines", () => {
+    expect(PLAIN_TEMPLATE.format(TURNS)).toBe(
+      "System: Be brief.\nUser: Hi\nAssistant: Hello!\nUser: What is 2+2?\nAssistant:"
+    );
+  });
+
+  it("stops at the next user or system line", () => {
+    expect(cutAtStopSequence(PLAIN_TEMPLATE, "4\nUser: thanks")).toEqual({ text: "4", stopped: true });
+    expect(cutAtStopSequence(PLAIN_TEMPLATE, "4\nSystem: note")).toEqual({ text: "4", stopped: true });
+  });
+
+  it("keeps answers that contain role-like text", () => {
+    expect(cleanTemplateResponse(PLAIN_TEMPLATE, "Assistant: Q: why? A: because")).toBe("Q: why? A: because");
+  });
+});
+
+describe("getChatTemplate", () => {
+  it("looks up model files", () => {
+    expect(getChatTemplate("tiny-vicuna-1b.q4_k_m.gguf")).toBe(VICUNA_TEMPLATE);
+    expect(getChatTemplate("llama-3.2-1b-instruct.q4_k_m.gguf")).toBe(LLAMA3_TEMPLATE);
+    expect(getChatTemplate("Meta-Llama-3-8B-Instruct.gguf")).toBe(LLAMA3_TEMPLATE);
+    expect(getChatTemplate("mistral-7b")).toBe(PLAIN_TEMPLATE);
+    expect(getChatTemplate()).toBe(PLAIN_TEMPLATE);
+  });
+
+  it("maps ModelRegistry IDs to their model file", () => {
+    const id = getModelId("CohereForAI/TinyVicuna-1B-32k-GGUF", "tiny-vicuna-1b.q4_k_m.gguf");
+    expect(id).toBe("0x0b75a2061e70e736924a30c0a327db7ab719402129f76f631adbd7b7a5a5bced");
+    expect(getChatTemplate(id)).toBe(VICUNA_TEMPLATE);
+    expect(getChatTemplate(`0x${"ab".repeat(32)}`)).toBe(PLAIN_TEMPLATE);
+  });
+
+  it("uses model files looked up in the ModelRegistry", async () => {
+    const id = `0x${"cd".repeat(32)}`;
+    const modelManager = {
+      getModelDetails: async () => ({ fileName: "llama-3.2-3b-instruct.q4_k_m.gguf" }),
+    };
+
+    expect(getChatTemplate(id)).toBe(PLAIN_TEMPLATE);
+    await resolveModelIds([id], modelManager);
+    expect(getChatTemplate(id)).toBe(LLAMA3_TEMPLATE);
+  });
+});
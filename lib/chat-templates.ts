@@ -0,0 +1,161 @@
+// Copyright (c) 2025 Fabstir
+// SPDX-License-Identifier: BUSL-1.1
+
+/**
+ * Chat Templates
+ *
+ * Each model family expects prompts in its own chat format and signals the
+ * end of a reply with its own stop sequences. Templates are looked up by the
+ * model IDs in AVAILABLE_MODELS (ModelRegistry IDs advertised by hosts are
+ * mapped to those first, see lib/models); unknown models use the plain-text template.
+ *
+ * Response cleanup is template-driven: the reply is cut at the first stop
+ * sequence and any leaked special tokens are removed. Nothing else is
+ * rewritten, so answers that contain text like "A:" survive intact.
+ */
+
+import { resolveModelFile } from "@/lib/models";
+
+export interface PromptTurn {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+export interface ChatTemplate {
+  id: string;
+  name: string;
+  stopSequences: string[]; // End of the assistant's turn
+  specialTokens: string[]; // Stripped from replies if the host echoes them
+  defaultSystemPrompt?: string; // Used when the conversation has none
+  format: (turns: PromptTurn[]) => string; // Ends with the assistant turn opened
+}
+
+/**
+ * Llama 3 / 3.1 / 3.2 instruct format
+ */
+export const LLAMA3_TEMPLATE: ChatTemplate = {
+  id: "llama3",
+  name: "Llama 3 Instruct",
+  stopSequences: ["<|eot_id|>", "<|end_of_text|>", "<|start_header_id|>"],
+  specialTokens: [
+    "<|begin_of_text|>",
+    "<|start_header_id|>",
+    "<|end_header_id|>",
+    "<|eot_id|>",
+    "<|end_of_text|>",
+  ],
+  format: (turns) => {
+    const header = (role: string) => `<|start_header_id|>${role}<|end_header_id|>\n\n`;
+    const body = turns
+      .map((t) => `${header(t.role)}${t.content.trim()}<|eot_id|>`)
+      .join("");
+    return `<|begin_of_text|>${body}${header("assistant")}`;
+  },
+};
+
+/**
+ * Vicuna v1.1 format
+ */
+export const VICUNA_TEMPLATE: ChatTemplate = {
+  id: "vicuna",
+  name: "Vicuna v1.1",
+  stopSequences: ["</s>", "\nUSER:", "\nUser:"],
+  specialTokens: ["<s>", "</s>"],
+  defaultSystemPrompt:
+    "A chat between a curious user and an artificial intelligence assistant. The assistant gives helpful, detailed, and polite answers to the user's questions.",
+  format: (turns) => {
+    const system = turns
+      .filter((t) => t.role === "system")
+      .map((t) => t.content.trim())
+      .join("\n\n");
+    const conversation = turns
+      .filter((t) => t.role !== "system")
+      .map((t) =>
+        t.role === "user"
+          ? `USER: ${t.content.trim()}\n`
+          : `ASSISTANT: ${t.content.trim()}</s>\n`
+      )
+      .join("");
+    const preamble = system || VICUNA_TEMPLATE.defaultSystemPrompt;
+    return `${preamble}\n\n${conversation}ASSISTANT:`;
+  },
+};
+
+/**
+ * Plain "Role: text" format for models without a known template
+ */
+export const PLAIN_TEMPLATE: ChatTemplate = {
+  id: "plain",
+  name: "Plain text",
+  stopSequences: ["\nUser:", "\nSystem:"],
+  specialTokens: [],
+  format: (turns) => {
+    const label = { system: "System", user: "User", assistant: "Assistant" };
+    const body = turns.map((t) => `${label[t.role]}: ${t.content.trim()}`).join("\n");
+    return `${body}\nAssistant:`;
+  },
+};
+
+// Template per model, keyed by AVAILABLE_MODELS IDs
+export const MODEL_CHAT_TEMPLATES: Record<string, ChatTemplate> = {
+  "tiny-vicuna-1b.q4_k_m.gguf": VICUNA_TEMPLATE,
+  "llama-3.2-1b-instruct.q4_k_m.gguf": LLAMA3_TEMPLATE,
+  "llama-3.2-3b-instruct.q4_k_m.gguf": LLAMA3_TEMPLATE,
+};
+
+/**
+ * Template for a model, falling back to the model-name family, then plain text
+ */
+export function getChatTemplate(model?: string): ChatTemplate {
+  const file = resolveModelFile(model);
+  if (!file) return PLAIN_TEMPLATE;
+  if (MODEL_CHAT_TEMPLATES[file]) return MODEL_CHAT_TEMPLATES[file];
+
+  const name = file.toLowerCase();
+  if (name.includes("llama-3") || name.includes("llama3")) return LLAMA3_TEMPLATE;
+  if (name.includes("vicuna")) return VICUNA_TEMPLATE;
+  return PLAIN_TEMPLATE;
+}
+
+/**
+ * Cut text at the first stop sequence
+ * `stopped` is true once a stop sequence has been generated
+ */
+export function cutAtStopSequence(
+  template: ChatTemplate,
+  text: string
+): { text: string; stopped: boolean } {
+  let cutAt = -1;
+  for (const stop of template.stopSequences) {
+    const index = text.indexOf(stop);
+    if (index !== -1 && (cutAt === -1 || index < cutAt)) {
+      cutAt = index;
+    }
+  }
+
+  return cutAt === -1
+    ? { text, stopped: false }
+    : { text: text.slice(0, cutAt), stopped: true };
+}
+
+/**
+ * Clean a raw reply according to its template
+ */
+export function cleanTemplateResponse(template: ChatTemplate, response: string): string {
+  let cleaned = cutAtStopSequence(template, response).text;
+
+  for (const token of template.specialTokens) {
+    cleaned = cleaned.split(token).join("");
+  }
+
+  // Some hosts echo the assistant header before the reply
+  if (template.id === "llama3") {
+    cleaned = cleaned.replace(/^\s*assistant\s*\n/, "");
+  } else if (template.id === "vicuna") {
+    cleaned = cleaned.replace(/^\s*ASSISTANT:\s*/, "");
+  } else {
+    cleaned = cleaned.replace(/^\s*Assistant:\s*/, "");
+  }
+
+  return cleaned.trim();
+}
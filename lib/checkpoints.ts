@@ -0,0 +1,110 @@
+// Copyright (c) 2025 Fabstir
+// SPDX-License-Identifier: BUSL-1.1
+
+/**
+ * Proof Checkpoints
+ *
+ * Hosts prove session usage on-chain every `proofInterval` tokens; each proof
+ * settles that range of tokens at the session price. Proofs are read from the
+ * session job's proven token count (MockSessionManager reports them as
+ * `checkpoint_submitted` events instead), turned into a timeline and reconciled
+ * against the tokens counted locally from receipts.
+ */
+
+import { PaymentToken, ProofCheckpoint } from "@/types/chat";
+import { calculateCost } from "@/lib/pricing";
+
+export const CHECKPOINT_EVENT = "checkpoint_submitted";
+
+/**
+ * Payload of a `checkpoint_submitted` event (mock mode)
+ */
+export interface CheckpointEvent {
+  sessionId: any;
+  checkpointNumber: number;
+  tokensUsed: number; // Tokens proven by this checkpoint
+  txHash?: string;
+  timestamp?: number;
+}
+
+/**
+ * Local counts versus what checkpoints have settled
+ * - in-sync: unsettled tokens are within one interval (next proof not due yet)
+ * - behind: a checkpoint is overdue for tokens already used
+ * - over-settled: the host proved more tokens than were counted locally
+ */
+export type ReconciliationStatus = "in-sync" | "behind" | "over-settled";
+
+export interface CheckpointReconciliation {
+  localTokens: number;
+  settledTokens: number;
+  settledAmount: number;
+  unsettledTokens: number; // Negative when over-settled
+  proofInterval: number;
+  status: ReconciliationStatus;
+}
+
+/**
+ * Add a checkpoint to the timeline, covering the tokens after the previous one
+ * Duplicate events (same checkpoint number) are ignored
+ */
+export function appendCheckpoint(
+  checkpoints: ProofCheckpoint[],
+  event: CheckpointEvent,
+  pricePerToken: bigint,
+  paymentToken: PaymentToken
+): ProofCheckpoint[] {
+  if (checkpoints.some((c) => c.checkpointNumber === event.checkpointNumber)) {
+    return checkpoints;
+  }
+
+  const startToken = checkpoints.length > 0 ? checkpoints[checkpoints.length - 1].endToken : 0;
+  return [
+    ...checkpoints,
+    {
+      checkpointNumber: event.checkpointNumber,
+      startToken,
+      endToken: startToken + event.tokensUsed,
+      timestamp: event.timestamp ?? Date.now(),
+      txHash: event.txHash,
+      amount: calculateCost(event.tokensUsed, pricePerToken, paymentToken),
+      paymentToken,
+    },
+  ];
+}
+
+/**
+ * Checkpoint for the tokens proven on-chain since the last one in the timeline,
+ * or null when the job's proven total hasn't moved
+ */
+export function createCheckpointEvent(
+  checkpoints: ProofCheckpoint[],
+  sessionId: any,
+  provenTokens: number
+): CheckpointEvent | null {
+  const settledTokens = checkpoints.length > 0 ? checkpoints[checkpoints.length - 1].endToken : 0;
+  if (provenTokens <= settledTokens) return null;
+
+  return {
+    sessionId,
+    checkpointNumber: checkpoints.length + 1,
+    tokensUsed: provenTokens - settledTokens,
+    timestamp: Date.now(),
+  };
+}
+
+export function reconcileCheckpoints(
+  checkpoints: ProofCheckpoint[],
+  localTokens: number,
+  proofInterval: number
+): CheckpointReconciliation {
+  const settledTokens = checkpoints.length > 0 ? checkpoints[checkpoints.length - 1].endToken : 0;
+  const settledAmount = checkpoints.reduce((sum, c) => sum + c.amount, 0);
+  const unsettledTokens = localTokens - settledTokens;
+
+  let status: ReconciliationStatus = "in-sync";
+  if (unsettledTokens < 0) status = "over-settled";
+  else if (unsettledTokens >= proofInterval * 2) status = "behind";
+
+  return { localTokens, settledTokens, settledAmount, unsettledTokens, proofInterval, status };
+}
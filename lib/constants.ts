@@ -44,6 +44,11 @@ export const RPC_URLS = {
     "https://base-sepolia.g.alchemy.com/v2/1pZoccdtgU8CMyxXzE3l_ghnBBaJABMR",
 } as const;
 
+// Block explorers (transaction links)
+export const BLOCK_EXPLORER_URLS = {
+  BASE_SEPOLIA: "https://sepolia.basescan.org",
+} as const;
+
 // S5 Portal
 export const S5_PORTAL_URL =
   process.env.NEXT_PUBLIC_S5_PORTAL_URL ||
@@ -0,0 +1,173 @@
+// Copyright (c) 2025 Fabstir
+// SPDX-License-Identifier: BUSL-1.1
+
+/**
+ * Context Window Manager
+ *
+ * Keeps the prompt sent to the host within a token budget. The newest turns
+ * are sent verbatim; older turns are folded into a digest so the model keeps
+ * some thread of the conversation without the prompt growing forever.
+ *
+ * The digest is NOT a generated summary: it is the opening line of each folded
+ * turn, truncated, with the oldest lines dropped first. It costs no extra
+ * inference, but anything past a turn's first line is lost.
+ *
+ * Token counts use the model's tokenizer when the caller passes one
+ * (`countTokens`), otherwise an estimate of ~4 characters per token.
+ */
+
+import { ChatMessage } from "@/types/chat";
+import { resolveModelFile } from "@/lib/models";
+
+// Context length per model (tokens), keyed by AVAILABLE_MODELS IDs (host model IDs are mapped first)
+export const MODEL_CONTEXT_LIMITS: Record<string, number> = {
+  "tiny-vicuna-1b.q4_k_m.gguf": 2048,
+  "llama-3.2-1b-instruct.q4_k_m.gguf": 8192,
+  "llama-3.2-3b-instruct.q4_k_m.gguf": 8192,
+};
+
+export const DEFAULT_CONTEXT_LIMIT = 2048;
+
+// Default cap on prompt size, even when the model allows more (keeps per-turn cost down)
+export const DEFAULT_CONTEXT_BUDGET = 4096;
+export const MIN_CONTEXT_BUDGET = 256;
+
+// Space left for the model's reply
+export const RESPONSE_TOKEN_RESERVE = 512;
+
+// Share of the budget the digest may use
+const DIGEST_BUDGET_RATIO = 0.25;
+
+// Characters kept from each folded turn
+const DIGEST_SNIPPET_LENGTH = 160;
+
+export interface ContextWindow {
+  included: ChatMessage[]; // Sent verbatim, oldest first
+  digested: ChatMessage[]; // Folded into `digest`
+  digest: string; // Empty when nothing was folded
+  tokens: number; // Estimated prompt tokens (system prompt + digest + included + new prompt)
+  budget: number; // Effective budget after model limit and response reserve
+}
+
+export interface ContextOptions {
+  model?: string;
+  budget?: number; // User-configured budget (tokens)
+  systemPrompt?: string;
+  pendingPrompt?: string; // Prompt about to be sent, counted against the budget
+  countTokens?: (text: string) => number; // Model tokenizer (see lib/tokenizers)
+}
+
+/**
+ * Estimate tokens for a piece of text
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Context length for a model, falling back to a conservative default
+ */
+export function getModelContextLimit(model?: string): number {
+  const file = resolveModelFile(model);
+  return (file && MODEL_CONTEXT_LIMITS[file]) || DEFAULT_CONTEXT_LIMIT;
+}
+
+/**
+ * Budget actually usable for the prompt: the smaller of the user's budget and
+ * what the model can hold once room for the reply is reserved
+ */
+export function getEffectiveBudget(model?: string, budget?: number): number {
+  const modelMax = getModelContextLimit(model) - RESPONSE_TOKEN_RESERVE;
+  const requested = budget && budget > 0 ? budget : DEFAULT_CONTEXT_BUDGET;
+  return Math.max(MIN_CONTEXT_BUDGET, Math.min(requested, modelMax));
+}
+
+function messageTokens(message: ChatMessage, countTokens = estimateTokens): number {
+  // Role label and separator add a few tokens per turn
+  return countTokens(message.content) + 4;
+}
+
+function snippet(text: string): string {
+  const firstLine = text.trim().split("\n")[0];
+  return firstLine.length > DIGEST_SNIPPET_LENGTH
+    ? `${firstLine.slice(0, DIGEST_SNIPPET_LENGTH)}...`
+    : firstLine;
+}
+
+/**
+ * Truncation digest of turns: one line each (the turn's first line, cut to
+ * DIGEST_SNIPPET_LENGTH characters), dropping the oldest lines if it exceeds `maxTokens`
+ */
+export function digestMessages(
+  messages: ChatMessage[],
+  maxTokens: number,
+  countTokens = estimateTokens
+): string {
+  const lines = messages.map(
+    (m) => `${m.role === "user" ? "User asked" : "Assistant answered"}: ${snippet(m.content)}`
+  );
+
+  while (lines.length > 0 && countTokens(lines.join("\n")) > maxTokens) {
+    lines.shift();
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Choose which conversation turns fit in the prompt
+ *
+ * Walks back from the newest message, keeping turns verbatim until the budget
+ * is reached. Everything older goes into the digest.
+ *
+ * @param messages - Conversation turns in chronological order (no UI notices)
+ */
+export function selectContext(
+  messages: ChatMessage[],
+  options: ContextOptions = {}
+): ContextWindow {
+  const budget = getEffectiveBudget(options.model, options.budget);
+  const countTokens = options.countTokens ?? estimateTokens;
+  const fixedTokens =
+    countTokens(options.systemPrompt?.trim() ?? "") +
+    countTokens(options.pendingPrompt ?? "");
+
+  let used = fixedTokens;
+  let firstIncluded = messages.length;
+
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const cost = messageTokens(messages[i], countTokens);
+    if (used + cost > budget) break;
+    used += cost;
+    firstIncluded = i;
+  }
+
+  const included = messages.slice(firstIncluded);
+  const digested = messages.slice(0, firstIncluded);
+
+  if (digested.length === 0) {
+    return { included, digested, digest: "", tokens: used, budget };
+  }
+
+  // Make room for the digest by dropping more of the oldest verbatim turns if needed
+  const digestBudget = Math.floor(budget * DIGEST_BUDGET_RATIO);
+  while (included.length > 0 && used + digestBudget > budget) {
+    const dropped = included.shift()!;
+    used -= messageTokens(dropped, countTokens);
+    digested.push(dropped);
+  }
+
+  const digest = digestMessages(
+    digested,
+    Math.min(digestBudget, budget - used),
+    countTokens
+  );
+
+  return {
+    included,
+    digested,
+    digest,
+    tokens: used + countTokens(digest),
+    budget,
+  };
+}
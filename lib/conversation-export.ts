@@ -0,0 +1,291 @@
+// Copyright (c) 2025 Fabstir
+// SPDX-License-Identifier: BUSL-1.1
+
+/**
+ * Conversation Export / Import
+ *
+ * Formats:
+ * - Markdown: active branch, readable in tickets and docs
+ * - JSON: versioned envelope around the full StoredConversation (all branches),
+ *   the only format that can be imported back
+ * - HTML: active branch as a single self-contained page (inline styles, no scripts)
+ */
+
+import type { StoredConversation } from "@/hooks/use-s5-storage";
+import { AttachmentKind, ChatAttachment, ChatMessage, MessageReceipt } from "@/types/chat";
+import { restoreTree, getActivePath } from "@/lib/conversation-tree";
+import { formatTokenAmount } from "@/lib/pricing";
+
+export const EXPORT_FORMAT = "fabstir-conversation";
+export const EXPORT_FORMAT_VERSION = 1;
+
+export type ExportFormat = "markdown" | "json" | "html";
+
+export interface ConversationExport {
+  format: typeof EXPORT_FORMAT;
+  version: number;
+  exportedAt: number;
+  conversation: StoredConversation;
+}
+
+const FILE_EXTENSIONS: Record<ExportFormat, string> = {
+  markdown: "md",
+  json: "json",
+  html: "html",
+};
+
+const MIME_TYPES: Record<ExportFormat, string> = {
+  markdown: "text/markdown",
+  json: "application/json",
+  html: "text/html",
+};
+
+const ROLE_LABELS: Record<ChatMessage["role"], string> = {
+  user: "User",
+  assistant: "Assistant",
+  system: "System",
+};
+
+/**
+ * Messages on the conversation's active branch
+ */
+function getExportMessages(conversation: StoredConversation): ChatMessage[] {
+  const tree = restoreTree(conversation.messages as ChatMessage[], conversation.selectedChildren);
+  return getActivePath(tree);
+}
+
+function getMetadataRows(conversation: StoredConversation): [string, string][] {
+  const { metadata } = conversation;
+  return [
+    ["Model", metadata?.model || "unknown"],
+    ["Host", metadata?.provider || "unknown"],
+    ["Tokens", (metadata?.totalTokens ?? 0).toLocaleString()],
+    ["Cost", formatTokenAmount(metadata?.totalCost ?? 0, metadata?.paymentToken ?? "USDC")],
+    ["Date", new Date(metadata?.timestamp ?? Date.now()).toISOString()],
+  ];
+}
+
+function getTitle(conversation: StoredConversation): string {
+  return conversation.metadata?.title?.split("\n")[0] || "Conversation";
+}
+
+export function toMarkdown(conversation: StoredConversation): string {
+  const lines = [`# ${getTitle(conversation)}`, ""];
+
+  for (const [label, value] of getMetadataRows(conversation)) {
+    lines.push(`- **${label}:** ${value}`);
+  }
+  if (conversation.systemPrompt) {
+    lines.push("", "> **System prompt:** " + conversation.systemPrompt.replace(/\n/g, "\n> "));
+  }
+
+  for (const message of getExportMessages(conversation)) {
+    lines.push(
+      "",
+      `### ${ROLE_LABELS[message.role]} · ${new Date(message.timestamp).toLocaleString()}`,
+      "",
+      message.content
+    );
+    if (message.attachments?.length) {
+      lines.push("", `_Attachments: ${message.attachments.map((a) => a.name).join(", ")}_`);
+    }
+  }
+
+  return lines.join("\n") + "\n";
+}
+
+export function toJSON(conversation: StoredConversation): string {
+  const envelope: ConversationExport = {
+    format: EXPORT_FORMAT,
+    version: EXPORT_FORMAT_VERSION,
+    exportedAt: Date.now(),
+    conversation,
+  };
+  return JSON.stringify(envelope, null, 2);
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+export function toHTML(conversation: StoredConversation): string {
+  const title = escapeHtml(getTitle(conversation));
+  const metadata = getMetadataRows(conversation)
+    .map(([label, value]) => `<dt>${label}</dt><dd>${escapeHtml(value)}</dd>`)
+    .join("");
+  const systemPrompt = conversation.systemPrompt
+    ? `<div class="system"><strong>System prompt:</strong> ${escapeHtml(conversation.systemPrompt)}</div>`
+    : "";
+  const messages = getExportMessages(conversation)
+    .map(
+      (m) => `<div class="message ${m.role}">
+  <div class="meta">${ROLE_LABELS[m.role]} · ${escapeHtml(new Date(m.timestamp).toLocaleString())}</div>
+  <div class="content">${escapeHtml(m.content)}</div>${
+    m.attachments?.length
+      ? `\n  <div class="meta">Attachments: ${escapeHtml(m.attachments.map((a) => a.name).join(", "))}</div>`
+      : ""
+  }
+</div>`
+    )
+    .join("\n");
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${title}</title>
+<style>
+  body { font-family: system-ui, -apple-system, sans-serif; max-width: 760px; margin: 2rem auto; padding: 0 1rem; color: #111; background: #fff; }
+  h1 { font-size: 1.4rem; }
+  dl { display: grid; grid-template-columns: max-content 1fr; gap: 0.25rem 1rem; font-size: 0.85rem; color: #555; }
+  dt { font-weight: 600; }
+  dd { margin: 0; word-break: break-all; }
+  .system { margin: 1rem 0; padding: 0.75rem; border-left: 3px solid #999; background: #f6f6f6; font-size: 0.9rem; white-space: pre-wrap; }
+  .message { margin: 1rem 0; padding: 0.75rem 1rem; border-radius: 0.5rem; }
+  .message.user { background: #eef2ff; margin-left: 3rem; }
+  .message.assistant { background: #f4f4f5; margin-right: 3rem; }
+  .message.system { background: #fefce8; text-align: center; font-size: 0.85rem; }
+  .meta { font-size: 0.75rem; color: #666; margin-bottom: 0.25rem; }
+  .content { white-space: pre-wrap; word-wrap: break-word; }
+</style>
+</head>
+<body>
+<h1>${title}</h1>
+<dl>${metadata}</dl>
+${systemPrompt}
+${messages}
+</body>
+</html>
+`;
+}
+
+/**
+ * Serialise a conversation in the given format
+ */
+export function exportConversation(conversation: StoredConversation, format: ExportFormat): string {
+  switch (format) {
+    case "markdown":
+      return toMarkdown(conversation);
+    case "json":
+      return toJSON(conversation);
+    case "html":
+      return toHTML(conversation);
+  }
+}
+
+const ATTACHMENT_KINDS: AttachmentKind[] = ["text", "markdown", "code", "pdf"];
+
+function isValidAttachment(attachment: any): attachment is ChatAttachment {
+  return (
+    typeof attachment?.id === "string" &&
+    typeof attachment.name === "string" &&
+    ATTACHMENT_KINDS.includes(attachment.kind) &&
+    typeof attachment.size === "number" &&
+    typeof attachment.content === "string" &&
+    typeof attachment.tokens === "number"
+  );
+}
+
+function isValidReceipt(receipt: any): receipt is MessageReceipt {
+  return (
+    typeof receipt?.inputTokens === "number" &&
+    typeof receipt.outputTokens === "number" &&
+    typeof receipt.hostAddress === "string" &&
+    typeof receipt.pricePerToken === "string" &&
+    (receipt.paymentToken === "USDC" || receipt.paymentToken === "ETH") &&
+    typeof receipt.cost === "number"
+  );
+}
+
+/**
+ * Parse an exported JSON file
+ * Throws a descriptive error for files that are not conversation exports
+ */
+export function parseConversationExport(text: string): StoredConversation {
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("File is not valid JSON");
+  }
+
+  if (data?.format !== EXPORT_FORMAT) {
+    throw new Error("File is not a Fabstir conversation export");
+  }
+  if (typeof data.version !== "number" || data.version > EXPORT_FORMAT_VERSION) {
+    throw new Error(`Unsupported export version: ${data.version}`);
+  }
+
+  const conversation = data.conversation;
+  if (!conversation || !Array.isArray(conversation.messages)) {
+    throw new Error("Export contains no messages");
+  }
+
+  const roles = ["user", "assistant", "system"];
+  for (const message of conversation.messages) {
+    if (!roles.includes(message?.role) || typeof message.content !== "string") {
+      throw new Error("Export contains an invalid message");
+    }
+    const { attachments } = message;
+    if (attachments !== undefined && (!Array.isArray(attachments) || !attachments.every(isValidAttachment))) {
+      throw new Error("Export contains an invalid attachment");
+    }
+    if (message.receipt !== undefined && !isValidReceipt(message.receipt)) {
+      throw new Error("Export contains an invalid receipt");
+    }
+  }
+
+  return {
+    id: String(conversation.id ?? ""),
+    messages: conversation.messages.map((m: any) => ({
+      id: m.id,
+      parentId: m.parentId ?? null,
+      role: m.role,
+      content: m.content,
+      timestamp: Number(m.timestamp) || Date.now(),
+      tokens: typeof m.tokens === "number" ? m.tokens : undefined,
+      receipt: m.receipt,
+      attachments: m.attachments,
+    })),
+    selectedChildren: conversation.selectedChildren,
+    systemPrompt: conversation.systemPrompt,
+    metadata: {
+      title: conversation.metadata?.title,
+      totalTokens: Number(conversation.metadata?.totalTokens) || 0,
+      totalCost: Number(conversation.metadata?.totalCost) || 0,
+      paymentToken: conversation.metadata?.paymentToken === "ETH" ? "ETH" : "USDC",
+      model: conversation.metadata?.model || "unknown",
+      provider: conversation.metadata?.provider || "unknown",
+      timestamp: Number(conversation.metadata?.timestamp) || Date.now(),
+    },
+  };
+}
+
+/**
+ * Save an export through the browser's download prompt
+ */
+export function downloadConversation(conversation: StoredConversation, format: ExportFormat): void {
+  const content = exportConversation(conversation, format);
+  const blob = new Blob([content], { type: `${MIME_TYPES[format]};charset=utf-8` });
+  const url = URL.createObjectURL(blob);
+
+  const slug = getTitle(conversation)
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "")
+    .slice(0, 40);
+
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `${slug || "conversation"}-${conversation.id}.${FILE_EXTENSIONS[format]}`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,233 @@
+// Copyright (c) 2025 Fabstir
+// SPDX-License-Identifier: BUSL-1.1
+
+/**
+ * Conversation Tree Utilities
+ *
+ * Conversations are stored as a tree so that regenerating an answer or
+ * editing an earlier prompt creates a sibling branch instead of overwriting
+ * history.
+ *
+ * Key Concepts:
+ * - Every message points at its parent via `parentId` (null = first message)
+ * - Siblings are messages sharing the same parent (alternative branches)
+ * - `selectedChildren` records which sibling is active under each parent
+ * - The active branch is the path obtained by following selections from the root
+ */
+
+import { ChatMessage } from "@/types/chat";
+
+// Key used in selectedChildren for messages without a parent
+export const ROOT_KEY = "root";
+
+export interface ConversationTree {
+  messages: ChatMessage[]; // Every message across all branches
+  selectedChildren: Record<string, string>; // Parent ID (or ROOT_KEY) → active child ID
+}
+
+export interface BranchInfo {
+  index: number; // Position of the message among its siblings (0-based)
+  total: number; // Number of siblings including the message itself
+}
+
+/**
+ * Create an empty conversation tree
+ */
+export function createEmptyTree(): ConversationTree {
+  return { messages: [], selectedChildren: {} };
+}
+
+/**
+ * Build a linear tree from a flat message list (e.g. legacy storage)
+ */
+export function fromFlatMessages(messages: ChatMessage[]): ConversationTree {
+  let tree = createEmptyTree();
+  let parentId: string | null = null;
+
+  for (const message of messages) {
+    const id = message.id ?? `msg-${message.timestamp}-${tree.messages.length}`;
+    tree = appendMessage(tree, { ...message, id, parentId });
+    parentId = id;
+  }
+
+  return tree;
+}
+
+/**
+ * Rebuild a tree from stored messages
+ * Messages saved before branching existed have no IDs and are treated as one branch
+ */
+export function restoreTree(
+  messages: ChatMessage[],
+  selectedChildren: Record<string, string> = {}
+): ConversationTree {
+  if (messages.some((m) => !m.id)) {
+    return fromFlatMessages(messages);
+  }
+
+  return {
+    messages: messages.map((m) => ({ ...m, parentId: m.parentId ?? null })),
+    selectedChildren: { ...selectedChildren },
+  };
+}
+
+function parentKey(parentId: string | null | undefined): string {
+  return parentId ?? ROOT_KEY;
+}
+
+/**
+ * Get the children of a message in insertion order
+ */
+export function getChildren(
+  tree: ConversationTree,
+  parentId: string | null
+): ChatMessage[] {
+  return tree.messages.filter(
+    (m) => parentKey(m.parentId) === parentKey(parentId)
+  );
+}
+
+/**
+ * Find a message by ID
+ */
+export function findMessage(
+  tree: ConversationTree,
+  id: string
+): ChatMessage | undefined {
+  return tree.messages.find((m) => m.id === id);
+}
+
+/**
+ * Follow the selected child at each level, starting from the root
+ * Falls back to the newest child when no selection was made
+ */
+export function getActivePath(tree: ConversationTree): ChatMessage[] {
+  const path: ChatMessage[] = [];
+  let parentId: string | null = null;
+
+  while (true) {
+    const children = getChildren(tree, parentId);
+    if (children.length === 0) break;
+
+    const selectedId: string | undefined =
+      tree.selectedChildren[parentKey(parentId)];
+    const next: ChatMessage =
+      children.find((c) => c.id === selectedId) ?? children[children.length - 1];
+
+    path.push(next);
+    parentId = next.id!;
+  }
+
+  return path;
+}
+
+/**
+ * ID of the last message on the active branch (parent for the next message)
+ */
+export function getActiveLeafId(tree: ConversationTree): string | null {
+  const path = getActivePath(tree);
+  return path.length > 0 ? path[path.length - 1].id! : null;
+}
+
+/**
+ * Walk parent pointers from a message back to the root
+ * Returns the path in chronological order, including the message itself
+ */
+export function getPathTo(
+  tree: ConversationTree,
+  id: string | null
+): ChatMessage[] {
+  const path: ChatMessage[] = [];
+  let current = id ? findMessage(tree, id) : undefined;
+
+  while (current) {
+    path.unshift(current);
+    current = current.parentId ? findMessage(tree, current.parentId) : undefined;
+  }
+
+  return path;
+}
+
+/**
+ * Add a message under its parent and make it the active branch
+ */
+export function appendMessage(
+  tree: ConversationTree,
+  message: ChatMessage
+): ConversationTree {
+  return {
+    messages: [...tree.messages, message],
+    selectedChildren: {
+      ...tree.selectedChildren,
+      [parentKey(message.parentId)]: message.id!,
+    },
+  };
+}
+
+/**
+ * Replace a single message in place
+ */
+export function updateMessageInTree(
+  tree: ConversationTree,
+  id: string,
+  updater: (message: ChatMessage) => ChatMessage
+): ConversationTree {
+  return {
+    ...tree,
+    messages: tree.messages.map((m) => (m.id === id ? updater(m) : m)),
+  };
+}
+
+/**
+ * Make the branch containing a message the active one
+ */
+export function selectPathTo(tree: ConversationTree, id: string): ConversationTree {
+  const path = getPathTo(tree, id);
+  if (path.length === 0) return tree;
+
+  const selectedChildren = { ...tree.selectedChildren };
+  for (const message of path) {
+    selectedChildren[parentKey(message.parentId)] = message.id!;
+  }
+
+  return { ...tree, selectedChildren };
+}
+
+/**
+ * Position of a message among its siblings
+ */
+export function getBranchInfo(tree: ConversationTree, id: string): BranchInfo {
+  const message = findMessage(tree, id);
+  if (!message) return { index: 0, total: 1 };
+
+  const siblings = getChildren(tree, message.parentId ?? null);
+  return {
+    index: siblings.findIndex((s) => s.id === id),
+    total: siblings.length,
+  };
+}
+
+/**
+ * Activate the previous (-1) or next (+1) sibling of a message
+ */
+export function switchBranch(
+  tree: ConversationTree,
+  id: string,
+  offset: -1 | 1
+): ConversationTree {
+  const message = findMessage(tree, id);
+  if (!message) return tree;
+
+  const siblings = getChildren(tree, message.parentId ?? null);
+  const index = siblings.findIndex((s) => s.id === id);
+  const target = siblings[index + offset];
+  if (!target) return tree;
+
+  return {
+    ...tree,
+    selectedChildren: {
+      ...tree.selectedChildren,
+      [parentKey(message.parentId)]: target.id!,
+    },
+  };
+}
@@ -0,0 +1,162 @@
+// Copyright (c) 2025 Fabstir
+// SPDX-License-Identifier: BUSL-1.1
+
+/**
+ * Funds
+ *
+ * Escrowed deposits, refunds from ended sessions, and withdrawals back to the
+ * account that made the deposits (the sub-account with Base Account).
+ *
+ * Key Concepts:
+ * - Deposit balances come from the payment manager (`getDepositBalance`)
+ * - ETH is withdrawn through the payment manager (`withdrawNative`); the SDK
+ *   has no token withdrawal, so USDC is withdrawn by sending the JobMarketplace
+ *   `withdrawToken` call with the signer the SDK was authenticated with
+ * - Refunds are read from each ended session's on-chain job
+ * - Withdrawals are tracked in localStorage so a pending one survives a
+ *   reload; its status is then checked from the transaction receipt
+ */
+
+import { createPublicClient, encodeFunctionData, http, parseUnits, Hash } from "viem";
+import { baseSepolia } from "viem/chains";
+import { PaymentToken } from "@/types/chat";
+import { RPC_URLS } from "@/lib/constants";
+import { PAYMENT_TOKEN_DECIMALS } from "@/lib/pricing";
+import { loadJobMarketplaceFunction } from "@/lib/session-jobs";
+
+const WITHDRAWALS_STORAGE_KEY = "fabstir_withdrawals";
+// Keep the most recent withdrawals only
+const MAX_WITHDRAWALS = 20;
+
+export interface DepositBalances {
+  ETH: number;
+  USDC: number;
+}
+
+/**
+ * A session's settled refund (unused deposit returned to the user)
+ */
+export interface SessionRefund {
+  sessionId: string;
+  endedAt: number;
+  hostAddress: string;
+  paymentToken: PaymentToken;
+  deposit: number;
+  spent: number;
+  refund: number;
+  settled: boolean; // False while the job is still open on-chain
+}
+
+/**
+ * - pending: submitted (or about to be), waiting for confirmation
+ * - confirmed: included on-chain
+ * - failed: rejected, reverted or interrupted before it was sent
+ */
+export type WithdrawalStatus = "pending" | "confirmed" | "failed";
+
+export interface Withdrawal {
+  id: string;
+  paymentToken: PaymentToken;
+  amount: string; // Whole token units, as entered
+  status: WithdrawalStatus;
+  requestedAt: number;
+  txHash?: string;
+  error?: string;
+}
+
+/**
+ * Whether this token's deposit can be withdrawn: ETH needs the payment
+ * manager, USDC a signer to send the contract call with
+ */
+export function canWithdrawDeposit(
+  paymentManager: any,
+  signer: any,
+  paymentToken: PaymentToken
+): boolean {
+  return paymentToken === "ETH"
+    ? typeof paymentManager?.withdrawNative === "function"
+    : typeof signer?.sendTransaction === "function";
+}
+
+/**
+ * Escrowed deposit per token, in whole token units
+ */
+export async function fetchDepositBalances(paymentManager: any): Promise<DepositBalances> {
+  const { native, usdc } = await paymentManager.getDepositBalance();
+  return { ETH: Number(native) || 0, USDC: Number(usdc) || 0 };
+}
+
+/**
+ * Send a withdrawal with the signer the SDK was authenticated with (the
+ * sub-account with Base Account). Resolves with the transaction once it's been sent.
+ */
+export async function sendWithdrawal(
+  paymentManager: any,
+  signer: any,
+  paymentToken: PaymentToken,
+  amount: string
+): Promise<{ hash: string; wait: (confirmations?: number) => Promise<any> }> {
+  if (!canWithdrawDeposit(paymentManager, signer, paymentToken)) {
+    throw new Error(`No wallet is connected to withdraw ${paymentToken} deposits`);
+  }
+
+  if (paymentToken === "ETH") return paymentManager.withdrawNative(amount);
+
+  const jobMarketplace = process.env.NEXT_PUBLIC_CONTRACT_JOB_MARKETPLACE;
+  const usdcToken = process.env.NEXT_PUBLIC_CONTRACT_USDC_TOKEN;
+  if (!jobMarketplace || !usdcToken) throw new Error("JobMarketplace or USDC address not configured");
+
+  const withdrawToken = await loadJobMarketplaceFunction("withdrawToken");
+  const data = encodeFunctionData({
+    abi: [withdrawToken],
+    functionName: "withdrawToken",
+    args: [usdcToken, parseUnits(amount, PAYMENT_TOKEN_DECIMALS.USDC)],
+  });
+
+  return signer.sendTransaction({ to: jobMarketplace, data });
+}
+
+/**
+ * Status of a sent withdrawal from its receipt ("pending" until it's mined)
+ */
+export async function fetchWithdrawalStatus(txHash: string): Promise<WithdrawalStatus> {
+  const client = createPublicClient({
+    chain: baseSepolia,
+    transport: http(RPC_URLS.BASE_SEPOLIA),
+  });
+
+  try {
+    const receipt = await client.getTransactionReceipt({ hash: txHash as Hash });
+    return receipt.status === "success" ? "confirmed" : "failed";
+  } catch {
+    // Not mined yet (or not found by this RPC yet)
+    return "pending";
+  }
+}
+
+export function createWithdrawalId(): string {
+  return `withdrawal-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`;
+}
+
+/**
+ * Tracked withdrawals, newest first
+ */
+export function loadWithdrawals(): Withdrawal[] {
+  if (typeof window === "undefined") return [];
+
+  try {
+    const stored = localStorage.getItem(WITHDRAWALS_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.error("Failed to load withdrawals:", error);
+    return [];
+  }
+}
+
+export function saveWithdrawals(withdrawals: Withdrawal[]): void {
+  if (typeof window === "undefined") return;
+  localStorage.setItem(
+    WITHDRAWALS_STORAGE_KEY,
+    JSON.stringify(withdrawals.slice(0, MAX_WITHDRAWALS))
+  );
+}
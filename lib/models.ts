@@ -0,0 +1,77 @@
+// Copyright (c) 2025 Fabstir
+// SPDX-License-Identifier: BUSL-1.1
+
+/**
+ * Model IDs
+ *
+ * Hosts advertise models by their ModelRegistry ID (a bytes32 hash), while the
+ * UI, chat templates, tokenizers and context limits are keyed by model file
+ * (the AVAILABLE_MODELS IDs). This maps one to the other.
+ *
+ * Key Concepts:
+ * - A model's ID is keccak256("<Hugging Face repo>/<file name>")
+ * - Models with a known repo are mapped up front (MODEL_REPOS)
+ * - Any other ID is looked up once in the ModelRegistry (resolveModelIds)
+ */
+
+import { keccak256, toHex } from "viem";
+
+// Hugging Face repo per model file, for models whose repo is known
+export const MODEL_REPOS: Record<string, string> = {
+  "tiny-vicuna-1b.q4_k_m.gguf": "CohereForAI/TinyVicuna-1B-32k-GGUF",
+};
+
+// Model file per ModelRegistry ID (lowercase)
+const modelFiles = new Map<string, string>(
+  Object.entries(MODEL_REPOS).map(([fileName, repo]) => [getModelId(repo, fileName), fileName])
+);
+
+/**
+ * ModelRegistry ID of a model (same derivation as the SDK's getModelId)
+ */
+export function getModelId(huggingfaceRepo: string, fileName: string): string {
+  return keccak256(toHex(`${huggingfaceRepo}/${fileName}`)).toLowerCase();
+}
+
+/**
+ * Whether a host's model entry is a ModelRegistry ID rather than a file name
+ */
+export function isModelId(model: string): boolean {
+  return /^0x[0-9a-f]{64}$/i.test(model);
+}
+
+export function registerModelFile(modelId: string, fileName: string): void {
+  modelFiles.set(modelId.toLowerCase(), fileName);
+}
+
+/**
+ * Model file for a host's model entry; file names pass through unchanged
+ * Returns undefined for IDs that haven't been resolved yet
+ */
+export function resolveModelFile(model?: string): string | undefined {
+  if (!model) return undefined;
+  return isModelId(model) ? modelFiles.get(model.toLowerCase()) : model;
+}
+
+/**
+ * Look up unknown model IDs in the ModelRegistry (once each)
+ * Never rejects: IDs that can't be resolved keep using the generic fallbacks
+ */
+export async function resolveModelIds(modelIds: string[], modelManager: any): Promise<void> {
+  if (typeof modelManager?.getModelDetails !== "function") return;
+
+  const unknown = Array.from(
+    new Set(modelIds.filter((id) => isModelId(id) && !modelFiles.has(id.toLowerCase())))
+  );
+
+  await Promise.all(
+    unknown.map(async (id) => {
+      try {
+        const details = await modelManager.getModelDetails(id);
+        if (details?.fileName) registerModelFile(id, details.fileName);
+      } catch (error) {
+        console.warn(`⚠️  Could not resolve model ${id}:`, error);
+      }
+    })
+  );
+}
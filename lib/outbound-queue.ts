@@ -0,0 +1,137 @@
+// Copyright (c) 2025 Fabstir
+// SPDX-License-Identifier: BUSL-1.1
+
+/**
+ * Outbound Prompt Queue
+ *
+ * Prompts that can't be sent right now (browser offline, or the host dropped
+ * the request) are kept in IndexedDB so they survive a reload. They are sent
+ * in order, per session, once the connection is back.
+ *
+ * Key Concepts:
+ * - New prompts were never sent; they go to the end of the active branch
+ * - Retries (`retryOf`) already have a user message in the conversation; the
+ *   retry asks for a new reply to it (or, if edited, sends a sibling prompt)
+ * - A prompt sent while others are queued joins the back of the queue
+ */
+
+import { ChatAttachment } from "@/types/chat";
+
+const DB_NAME = "fabstir_outbound_queue";
+const DB_VERSION = 1;
+const PROMPTS_STORE = "prompts";
+
+export interface QueuedPrompt {
+  id: string;
+  sessionId: string;
+  prompt: string;
+  attachments?: ChatAttachment[];
+  queuedAt: number; // Send order
+  retryOf?: {
+    userMessageId: string; // Prompt whose reply failed
+    parentId: string | null;
+  };
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function isIndexedDBAvailable(): boolean {
+  return typeof window !== "undefined" && "indexedDB" in window;
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(PROMPTS_STORE)) {
+        const store = db.createObjectStore(PROMPTS_STORE, { keyPath: "id" });
+        store.createIndex("sessionId", "sessionId", { unique: false });
+      }
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+
+  return dbPromise;
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Errors worth retrying later: lost connectivity, timeouts and dropped host connections
+ */
+export function isTransientError(error: any): boolean {
+  if (typeof navigator !== "undefined" && !navigator.onLine) return true;
+
+  const message = `${error?.message ?? ""} ${error?.code ?? ""}`.toLowerCase();
+  return [
+    "failed to fetch",
+    "network",
+    "timeout",
+    "timed out",
+    "websocket",
+    "socket hang up",
+    "connection closed",
+    "disconnected",
+    "econnreset",
+    "econnrefused",
+    "502",
+    "503",
+    "504",
+  ].some((fragment) => message.includes(fragment));
+}
+
+export function createQueuedPromptId(): string {
+  return `queued-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`;
+}
+
+/**
+ * Queued prompts for a session, oldest first
+ */
+export async function listQueuedPrompts(sessionId: string): Promise<QueuedPrompt[]> {
+  if (!isIndexedDBAvailable()) return [];
+
+  const db = await openDatabase();
+  const entries: QueuedPrompt[] = await requestToPromise(
+    db
+      .transaction(PROMPTS_STORE, "readonly")
+      .objectStore(PROMPTS_STORE)
+      .index("sessionId")
+      .getAll(sessionId)
+  );
+  return entries.sort((a, b) => a.queuedAt - b.queuedAt);
+}
+
+/**
+ * Add or replace a queued prompt
+ */
+export async function saveQueuedPrompt(entry: QueuedPrompt): Promise<void> {
+  if (!isIndexedDBAvailable()) return;
+
+  const db = await openDatabase();
+  await requestToPromise(
+    db.transaction(PROMPTS_STORE, "readwrite").objectStore(PROMPTS_STORE).put(entry)
+  );
+}
+
+export async function removeQueuedPrompt(id: string): Promise<void> {
+  if (!isIndexedDBAvailable()) return;
+
+  const db = await openDatabase();
+  await requestToPromise(
+    db.transaction(PROMPTS_STORE, "readwrite").objectStore(PROMPTS_STORE).delete(id)
+  );
+}
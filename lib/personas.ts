@@ -0,0 +1,75 @@
+// Copyright (c) 2025 Fabstir
+// SPDX-License-Identifier: BUSL-1.1
+
+/**
+ * Persona Presets
+ *
+ * A persona is a named system prompt. Built-in presets ship with the app;
+ * user presets are stored in S5 user settings (`personas`).
+ */
+
+export interface PersonaPreset {
+  id: string;
+  name: string;
+  description?: string;
+  systemPrompt: string;
+  builtIn?: boolean;
+}
+
+export const DEFAULT_PERSONA_ID = "assistant";
+
+export const BUILT_IN_PERSONAS: PersonaPreset[] = [
+  {
+    id: DEFAULT_PERSONA_ID,
+    name: "Assistant",
+    description: "Helpful general-purpose assistant",
+    systemPrompt: "You are a helpful, honest assistant. Answer clearly and accurately.",
+    builtIn: true,
+  },
+  {
+    id: "concise",
+    name: "Concise",
+    description: "Short, direct answers",
+    systemPrompt:
+      "You are a concise assistant. Answer in as few words as possible without losing accuracy. Avoid filler.",
+    builtIn: true,
+  },
+  {
+    id: "coder",
+    name: "Code Helper",
+    description: "Programming help with code examples",
+    systemPrompt:
+      "You are an expert software engineer. Give working code examples, explain trade-offs briefly, and point out bugs or edge cases.",
+    builtIn: true,
+  },
+  {
+    id: "tutor",
+    name: "Tutor",
+    description: "Step-by-step explanations",
+    systemPrompt:
+      "You are a patient tutor. Explain concepts step by step, check understanding, and use simple examples.",
+    builtIn: true,
+  },
+];
+
+/**
+ * Built-in presets followed by the user's own presets
+ */
+export function getAllPersonas(customPersonas: PersonaPreset[] = []): PersonaPreset[] {
+  return [...BUILT_IN_PERSONAS, ...customPersonas];
+}
+
+/**
+ * Find a preset by ID (built-in or custom)
+ */
+export function findPersona(
+  id: string | undefined,
+  customPersonas: PersonaPreset[] = []
+): PersonaPreset | undefined {
+  if (!id) return undefined;
+  return getAllPersonas(customPersonas).find((p) => p.id === id);
+}
+
+export function createPersonaId(): string {
+  return `persona-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+}
@@ -0,0 +1,167 @@
+// Copyright (c) 2025 Fabstir
+// SPDX-License-Identifier: BUSL-1.1
+
+/**
+ * Pricing Utilities
+ *
+ * Turns host prices into per-message receipts. Prices come from the host's
+ * on-chain registration: `minPricePerTokenStable` (USDC, 6 decimals) or
+ * `minPricePerTokenNative` (ETH, 18 decimals).
+ */
+
+import { ParsedHost } from "@/types/host";
+import { ChatMessage, MessageReceipt, PaymentToken } from "@/types/chat";
+import { SESSION_DEFAULTS } from "@/lib/constants";
+
+export const PAYMENT_TOKEN_DECIMALS: Record<PaymentToken, number> = {
+  USDC: 6,
+  ETH: 18,
+};
+
+// Escrowed when a session starts, in whole payment-token units
+export const SESSION_DEPOSIT_AMOUNTS: Record<PaymentToken, string> = {
+  USDC: "2.0",
+  ETH: SESSION_DEFAULTS.DEPOSIT_AMOUNT_ETH,
+};
+
+// Used when the host has no price registered for the token
+export const FALLBACK_PRICE_PER_TOKEN: Record<PaymentToken, bigint> = {
+  USDC: BigInt(316), // 0.000316 USDC/token
+  ETH: BigInt("11363636363636"), // ~0.0000114 ETH/token
+};
+
+/**
+ * Host price per token in the token's smallest unit
+ */
+export function getPricePerToken(
+  host: ParsedHost | null | undefined,
+  paymentToken: PaymentToken
+): bigint {
+  const price = paymentToken === "ETH" ? host?.minPricePerTokenNative : host?.minPricePerTokenStable;
+  return price && BigInt(price) > BigInt(0) ? BigInt(price) : FALLBACK_PRICE_PER_TOKEN[paymentToken];
+}
+
+/**
+ * Cost of `tokens` in whole payment-token units (e.g. USDC, not micro-USDC)
+ */
+export function calculateCost(tokens: number, pricePerToken: bigint, paymentToken: PaymentToken): number {
+  return Number(BigInt(tokens) * pricePerToken) / 10 ** PAYMENT_TOKEN_DECIMALS[paymentToken];
+}
+
+/**
+ * Build the receipt for one prompt/response exchange
+ */
+export function createReceipt(params: {
+  inputTokens: number;
+  outputTokens: number;
+  host: ParsedHost | null | undefined;
+  paymentToken: PaymentToken;
+}): MessageReceipt {
+  const { inputTokens, outputTokens, host, paymentToken } = params;
+  const pricePerToken = getPricePerToken(host, paymentToken);
+
+  return {
+    inputTokens,
+    outputTokens,
+    hostAddress: host?.address || "unknown",
+    pricePerToken: pricePerToken.toString(),
+    paymentToken,
+    cost: calculateCost(inputTokens + outputTokens, pricePerToken, paymentToken),
+  };
+}
+
+/**
+ * Format an amount of a payment token for display
+ */
+export function formatTokenAmount(amount: number, paymentToken: PaymentToken): string {
+  return paymentToken === "ETH"
+    ? `${amount.toFixed(8)} ETH`
+    : `$${amount.toFixed(6)}`;
+}
+
+/**
+ * Format a session deposit as entered (e.g. "$2.0 USDC", "0.0006 ETH")
+ */
+export function formatDepositAmount(amount: string, paymentToken: PaymentToken): string {
+  return paymentToken === "ETH" ? `${amount} ETH` : `$${amount} USDC`;
+}
+
+/**
+ * Format a raw per-token price (smallest unit) for display
+ */
+export function formatPricePerToken(pricePerToken: string, paymentToken: PaymentToken): string {
+  const value = Number(pricePerToken) / 10 ** PAYMENT_TOKEN_DECIMALS[paymentToken];
+  return paymentToken === "ETH"
+    ? `${value.toFixed(12)} ETH/token`
+    : `${value.toFixed(6)} USDC/token`;
+}
+
+export interface DepositStatus {
+  deposit: number; // Escrowed for the session (incl. top-ups)
+  consumed: number; // Tokens used so far at the host's price
+  proven: number; // Part of `consumed` covered by proof checkpoints
+  pending: number; // Used since the last checkpoint, not yet proven
+  remaining: number;
+  remainingRatio: number; // remaining / deposit (0..1)
+}
+
+/**
+ * How much of a session's escrowed deposit is used, at the host price
+ * The host proves usage every `proofInterval` tokens; tokens since the last
+ * checkpoint are consumed but not yet proven on-chain. Pass `provenTokens`
+ * from the checkpoints received; without it, whole intervals count as proven.
+ */
+export function getDepositStatus(params: {
+  deposit: number;
+  tokens: number;
+  pricePerToken: bigint;
+  paymentToken: PaymentToken;
+  proofInterval: number;
+  provenTokens?: number;
+}): DepositStatus {
+  const { deposit, tokens, pricePerToken, paymentToken, proofInterval } = params;
+  const provenTokens = params.provenTokens ?? Math.floor(tokens / proofInterval) * proofInterval;
+
+  // Settled tokens are charged even if more than were counted locally
+  const consumed = calculateCost(Math.max(tokens, provenTokens), pricePerToken, paymentToken);
+  const proven = calculateCost(provenTokens, pricePerToken, paymentToken);
+  const remaining = Math.max(0, deposit - consumed);
+
+  return {
+    deposit,
+    consumed,
+    proven,
+    pending: consumed - proven,
+    remaining,
+    remainingRatio: deposit > 0 ? remaining / deposit : 0,
+  };
+}
+
+export interface ReceiptTotals {
+  inputTokens: number;
+  outputTokens: number;
+  messages: number;
+  cost: Record<PaymentToken, number>;
+}
+
+/**
+ * Sum the receipts of a set of messages, keeping each payment token separate
+ */
+export function sumReceipts(messages: ChatMessage[]): ReceiptTotals {
+  const totals: ReceiptTotals = {
+    inputTokens: 0,
+    outputTokens: 0,
+    messages: 0,
+    cost: { USDC: 0, ETH: 0 },
+  };
+
+  for (const { receipt } of messages) {
+    if (!receipt) continue;
+    totals.inputTokens += receipt.inputTokens;
+    totals.outputTokens += receipt.outputTokens;
+    totals.messages++;
+    totals.cost[receipt.paymentToken] += receipt.cost;
+  }
+
+  return totals;
+}
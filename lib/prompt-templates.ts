@@ -0,0 +1,103 @@
+// Copyright (c) 2025 Fabstir
+// SPDX-License-Identifier: BUSL-1.1
+
+/**
+ * Prompt Templates
+ *
+ * Reusable prompt scaffolds with `{{variable}}` placeholders. Built-in
+ * templates ship with the app; user templates are stored in S5 user settings
+ * (`promptTemplates`) so they sync across devices. In the chat composer a
+ * template is invoked by its slash command (e.g. `/summarize`).
+ */
+
+export interface PromptTemplate {
+  id: string;
+  command: string; // Slash command without the leading "/"
+  name: string;
+  description?: string;
+  body: string;
+  builtIn?: boolean;
+}
+
+// {{name}} or {{ name }}; names are letters, digits, "_" and "-"
+const VARIABLE_PATTERN = /\{\{\s*([\w-]+)\s*\}\}/g;
+
+export const BUILT_IN_PROMPT_TEMPLATES: PromptTemplate[] = [
+  {
+    id: "summarize",
+    command: "summarize",
+    name: "Summarize",
+    description: "Summarize text for an audience",
+    body: "Summarize the following for {{audience}} in at most {{length}} bullet points:\n\n{{text}}",
+    builtIn: true,
+  },
+  {
+    id: "review-code",
+    command: "review",
+    name: "Code Review",
+    description: "Review code for bugs and style",
+    body: "Review this {{language}} code. List bugs first, then readability issues, then suggested changes:\n\n```{{language}}\n{{code}}\n```",
+    builtIn: true,
+  },
+  {
+    id: "explain-error",
+    command: "error",
+    name: "Explain Error",
+    description: "Diagnose an error message",
+    body: "I got this error while {{task}}:\n\n{{error}}\n\nExplain the likely cause and how to fix it.",
+    builtIn: true,
+  },
+];
+
+/**
+ * Built-in templates followed by the user's own templates
+ */
+export function getAllPromptTemplates(customTemplates: PromptTemplate[] = []): PromptTemplate[] {
+  return [...BUILT_IN_PROMPT_TEMPLATES, ...customTemplates];
+}
+
+/**
+ * Templates whose command or name starts with `query` (command matches first)
+ */
+export function matchPromptTemplates(
+  query: string,
+  templates: PromptTemplate[]
+): PromptTemplate[] {
+  const q = query.toLowerCase();
+  const byCommand = templates.filter((t) => t.command.toLowerCase().startsWith(q));
+  const byName = templates.filter(
+    (t) => !byCommand.includes(t) && t.name.toLowerCase().includes(q)
+  );
+  return [...byCommand, ...byName];
+}
+
+/**
+ * Variable names in order of first appearance
+ */
+export function extractVariables(body: string): string[] {
+  const names = Array.from(body.matchAll(VARIABLE_PATTERN), (match) => match[1]);
+  return Array.from(new Set(names));
+}
+
+/**
+ * Replace every `{{variable}}` with its value (missing values become empty)
+ */
+export function fillTemplate(body: string, values: Record<string, string>): string {
+  return body.replace(VARIABLE_PATTERN, (_, name: string) => values[name] ?? "");
+}
+
+/**
+ * Normalise user input into a slash command: lowercase, no spaces or leading "/"
+ */
+export function toCommand(text: string): string {
+  return text
+    .trim()
+    .toLowerCase()
+    .replace(/^\/+/, "")
+    .replace(/[^a-z0-9_-]+/g, "-")
+    .replace(/^-|-$/g, "");
+}
+
+export function createPromptTemplateId(): string {
+  return `template-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+}
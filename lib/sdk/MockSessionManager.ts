@@ -29,6 +29,7 @@ export interface MockResponse {
 export class MockSessionManager extends EventEmitter {
   private activeSessions: Map<string, any> = new Map();
   private responseDelay: number = 50; // ms between chunks (simulate streaming)
+  private checkpointDelay: number = 1500; // ms before a synthetic proof "lands on-chain"
 
   /**
    * Hardcoded mock responses for common prompts
@@ -80,6 +81,7 @@ Stay tuned for the production launch!`;
     modelName: string;
     chainId: number;
     encryption?: boolean;
+    proofInterval?: number;
   }): Promise<{ sessionId: string }> {
     const sessionId = `mock-session-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
 
@@ -88,6 +90,10 @@ Stay tuned for the production launch!`;
       status: 'active',
       createdAt: new Date(),
       messageCount: 0,
+      proofInterval: params.proofInterval || 100,
+      tokensUsed: 0,
+      provenTokens: 0,
+      checkpointCount: 0,
     });
 
     console.log(`🎭 Mock session started: ${sessionId}`);
@@ -99,17 +105,32 @@ Stay tuned for the production launch!`;
   /**
    * Send prompt and stream back mock response
    * Simulates token-by-token streaming like real LLM inference
+   *
+   * Pass `options.signal` to cancel mid-stream. The returned promise then
+   * rejects with an AbortError after emitting `stream_cancelled` with the
+   * partial response.
    */
   async sendPromptStreaming(
-    sessionId: string,
+    id: string | bigint,
     prompt: string,
-    onChunk?: (chunk: string, messageIndex: number) => void
+    onChunk?: (chunk: string, messageIndex: number) => void,
+    options?: { signal?: AbortSignal }
   ): Promise<string> {
+    const sessionId = id.toString();
     const session = this.activeSessions.get(sessionId);
     if (!session) {
       throw new Error(`Session not found: ${sessionId}`);
     }
 
+    if (session.status === 'paused') {
+      throw new Error(`Session is paused: ${sessionId}`);
+    }
+
+    const signal = options?.signal;
+    if (signal?.aborted) {
+      throw this.createAbortError();
+    }
+
     console.log(`🎭 Mock inference for session ${sessionId}`);
     console.log(`   Prompt: "${prompt}"`);
 
@@ -123,6 +144,17 @@ Stay tuned for the production launch!`;
     let messageIndex = session.messageCount++;
 
     for (let i = 0; i < words.length; i++) {
+      if (signal?.aborted) {
+        console.log(`🎭 Mock inference cancelled after ${fullResponse.length} chars`);
+        this.emit('stream_cancelled', {
+          sessionId,
+          partialResponse: fullResponse,
+          messageIndex,
+        });
+        this.recordUsage(sessionId, prompt, fullResponse);
+        throw this.createAbortError();
+      }
+
       const chunk = words[i] + (i < words.length - 1 ? ' ' : '');
       fullResponse += chunk;
 
@@ -150,6 +182,8 @@ Stay tuned for the production launch!`;
       messageIndex,
     });
 
+    this.recordUsage(sessionId, prompt, fullResponse);
+
     return fullResponse;
   }
 
@@ -162,6 +196,10 @@ Stay tuned for the production launch!`;
       throw new Error(`Session not found: ${sessionId}`);
     }
 
+    if (session.status === 'paused') {
+      throw new Error(`Session is paused: ${sessionId}`);
+    }
+
     console.log(`🎭 Mock inference (non-streaming) for session ${sessionId}`);
 
     const mockResponse = this.findMockResponse(prompt);
@@ -170,10 +208,57 @@ Stay tuned for the production launch!`;
     await this.sleep(500);
 
     session.messageCount++;
+    this.recordUsage(sessionId, prompt, mockResponse);
 
     return mockResponse;
   }
 
+  /**
+   * Pause a mock session
+   * Prompts are rejected until the session is resumed
+   */
+  async pauseSession(sessionId: string | bigint): Promise<void> {
+    const key = sessionId.toString();
+    const session = this.activeSessions.get(key);
+    if (!session) {
+      throw new Error(`Session not found: ${key}`);
+    }
+
+    session.status = 'paused';
+    session.pausedAt = new Date();
+    this.emit('session_paused', { sessionId: key });
+    console.log(`🎭 Mock session paused: ${key}`);
+  }
+
+  /**
+   * Resume a paused mock session
+   * Sessions unknown to this instance (e.g. paused before a page reload) are
+   * re-registered, like reconnecting to a session that is still open on-chain
+   */
+  async resumeSession(sessionId: string | bigint): Promise<void> {
+    const key = sessionId.toString();
+    await this.sleep(300);
+
+    const session = this.activeSessions.get(key);
+    if (session) {
+      session.status = 'active';
+      delete session.pausedAt;
+    } else {
+      this.activeSessions.set(key, {
+        status: 'active',
+        createdAt: new Date(),
+        messageCount: 0,
+        proofInterval: 100,
+        tokensUsed: 0,
+        provenTokens: 0,
+        checkpointCount: 0,
+      });
+    }
+
+    this.emit('session_resumed', { sessionId: key });
+    console.log(`🎭 Mock session resumed: ${key}`);
+  }
+
   /**
    * End a mock session
    */
@@ -222,6 +307,53 @@ Stay tuned for the production launch!`;
     return this.defaultResponse;
   }
 
+  /**
+   * Count tokens (~4 chars each) and emit a synthetic `checkpoint_submitted`
+   * event for every full proof interval, like a host proving usage on-chain
+   */
+  private recordUsage(sessionId: string, prompt: string, response: string): void {
+    const session = this.activeSessions.get(sessionId);
+    if (!session) return;
+
+    session.tokensUsed += Math.ceil(prompt.length / 4) + Math.ceil(response.length / 4);
+
+    while (session.tokensUsed - session.provenTokens >= session.proofInterval) {
+      session.provenTokens += session.proofInterval;
+      const event = {
+        sessionId,
+        checkpointNumber: ++session.checkpointCount,
+        tokensUsed: session.proofInterval,
+        txHash: this.createMockTxHash(),
+        timestamp: Date.now() + this.checkpointDelay,
+      };
+
+      setTimeout(() => {
+        console.log(`🎭 Mock checkpoint #${event.checkpointNumber} (${event.tokensUsed} tokens): ${event.txHash}`);
+        this.emit('checkpoint_submitted', event);
+      }, this.checkpointDelay);
+    }
+  }
+
+  /**
+   * Helper: Random 32-byte transaction hash
+   */
+  private createMockTxHash(): string {
+    let hash = '0x';
+    for (let i = 0; i < 64; i++) {
+      hash += Math.floor(Math.random() * 16).toString(16);
+    }
+    return hash;
+  }
+
+  /**
+   * Helper: Error thrown when a prompt is cancelled via AbortSignal
+   */
+  private createAbortError(): Error {
+    const error = new Error('Generation stopped by user');
+    error.name = 'AbortError';
+    return error;
+  }
+
   /**
    * Helper: Sleep for ms milliseconds
    */
@@ -195,19 +195,65 @@ export async function createPaymentManager(sdk?: FabstirSDKCore): Promise<any> {
   if (mode === 'mock') {
     console.log('🎭 SDK Factory: Creating Mock PaymentManager');
 
+    // Escrowed deposits persist in localStorage so the Funds page survives reloads.
+    // Seeded with leftover refunds so there is something to withdraw.
+    const MOCK_DEPOSITS_KEY = 'fabstir_mock_deposits';
+    const readDeposits = (): { native: number; usdc: number } => {
+      const seeded = { native: 0.0004, usdc: 1.85 };
+      if (typeof window === 'undefined') return seeded;
+      try {
+        return JSON.parse(localStorage.getItem(MOCK_DEPOSITS_KEY) || 'null') ?? seeded;
+      } catch {
+        return seeded;
+      }
+    };
+    const changeDeposit = (token: 'native' | 'usdc', delta: number) => {
+      const deposits = readDeposits();
+      // Tolerate float rounding when withdrawing the whole balance
+      if (deposits[token] + delta < -1e-9) {
+        throw new Error(`Insufficient ${token === 'native' ? 'ETH' : 'USDC'} deposit`);
+      }
+      deposits[token] = Math.max(0, deposits[token] + delta);
+      localStorage.setItem(MOCK_DEPOSITS_KEY, JSON.stringify(deposits));
+    };
+    // Transactions confirm after a short delay, like a real block
+    const createMockTransaction = () => ({
+      hash: `0x${Array.from({ length: 64 }, () => Math.floor(Math.random() * 16).toString(16)).join('')}`,
+      wait: async () => new Promise((resolve) => setTimeout(resolve, 1500)),
+    });
+
     // Return mock payment manager
     return {
       getBalance: async (address: string, tokenAddress: string) => {
         console.log(`🎭 Mock: Getting balance for ${address}`);
         return BigInt(10000000); // 10 USDC
       },
+      getDepositBalance: async (chainId?: number) => {
+        console.log('🎭 Mock: Getting deposit balance');
+        const { native, usdc } = readDeposits();
+        return { native: native.toFixed(6), usdc: usdc.toFixed(6) };
+      },
       depositUSDC: async (tokenAddress: string, amount: string, chainId: number) => {
         console.log(`🎭 Mock: Depositing ${amount} USDC on chain ${chainId}`);
-        return { hash: '0xmockhash123', wait: async () => {} };
+        changeDeposit('usdc', Number(amount));
+        return createMockTransaction();
+      },
+      // Mock only: the real SDK has no token withdrawal (the Funds page sends
+      // the JobMarketplace withdrawToken call itself), so mock mode uses this
+      withdrawUSDC: async (tokenAddress: string, amount: string, chainId?: number) => {
+        console.log(`🎭 Mock: Withdrawing ${amount} USDC from deposit`);
+        changeDeposit('usdc', -Number(amount));
+        return createMockTransaction();
+      },
+      depositNative: async (amount: string, chainId?: number) => {
+        console.log(`🎭 Mock: Depositing ${amount} native token`);
+        changeDeposit('native', Number(amount));
+        return createMockTransaction();
       },
-      depositNative: async (tokenAddress: string, amount: string, chainId: number) => {
-        console.log(`🎭 Mock: Depositing ${amount} native token on chain ${chainId}`);
-        return { hash: '0xmockhash456', wait: async () => {} };
+      withdrawNative: async (amount: string, chainId?: number) => {
+        console.log(`🎭 Mock: Withdrawing ${amount} native token from deposit`);
+        changeDeposit('native', -Number(amount));
+        return createMockTransaction();
       },
     };
   }
@@ -233,14 +279,36 @@ export async function createStorageManager(sdk?: FabstirSDKCore): Promise<any> {
   if (mode === 'mock') {
     console.log('🎭 SDK Factory: Creating Mock StorageManager');
 
+    // Conversations persist in localStorage so history survives reloads in mock mode
+    const MOCK_CONVERSATIONS_KEY = 'fabstir_mock_conversations';
+    const readConversations = (): any[] => {
+      if (typeof window === 'undefined') return [];
+      try {
+        return JSON.parse(localStorage.getItem(MOCK_CONVERSATIONS_KEY) || '[]');
+      } catch {
+        return [];
+      }
+    };
+
     return {
+      isInitialized: () => true,
       saveConversation: async (data: any) => {
         console.log('🎭 Mock: Saving conversation');
         return 'mock-cid-' + Date.now();
       },
+      storeConversation: async (conversation: any) => {
+        console.log(`🎭 Mock: Storing conversation ${conversation.id}`);
+        const others = readConversations().filter((c) => c.id !== conversation.id);
+        localStorage.setItem(MOCK_CONVERSATIONS_KEY, JSON.stringify([...others, conversation]));
+        return 'mock-cid-' + Date.now();
+      },
       loadConversation: async (cid: string) => {
         console.log(`🎭 Mock: Loading conversation ${cid}`);
-        return null;
+        return readConversations().find((c) => c.id === cid) ?? null;
+      },
+      listConversations: async () => {
+        console.log('🎭 Mock: Listing conversations');
+        return readConversations();
       },
       getUserSettings: async () => {
         console.log('🎭 Mock: Getting user settings');
@@ -0,0 +1,307 @@
+// Copyright (c) 2025 Fabstir
+// SPDX-License-Identifier: BUSL-1.1
+
+/**
+ * Conversation Search Index
+ *
+ * Client-side full-text index over stored conversations, kept in IndexedDB so
+ * it survives reloads without re-downloading every conversation from S5.
+ *
+ * Key Concepts:
+ * - One record per message, tagged with its conversation's model, host and date
+ * - A conversation is re-indexed whenever it is stored (replacing its old records)
+ * - Conversations listed from S5 are indexed once, then skipped until they change
+ */
+
+import type { StoredConversation } from "@/hooks/use-s5-storage";
+
+const DB_NAME = "fabstir_search_index";
+const DB_VERSION = 1;
+const MESSAGES_STORE = "messages";
+const CONVERSATIONS_STORE = "conversations";
+
+const SNIPPET_RADIUS = 60; // Characters of context either side of the first match
+const MAX_RESULTS = 50;
+
+export interface IndexedMessage {
+  key: string; // `${conversationId}:${messageId}`
+  conversationId: string;
+  messageId: string;
+  role: string;
+  content: string;
+  timestamp: number;
+  model: string;
+  provider: string; // Host address
+  conversationTimestamp: number;
+  title?: string;
+}
+
+export interface SearchFilters {
+  model?: string;
+  provider?: string;
+  from?: number; // Inclusive timestamp
+  to?: number; // Inclusive timestamp
+}
+
+export interface SnippetSegment {
+  text: string;
+  match: boolean;
+}
+
+export interface SearchResult {
+  conversationId: string;
+  messageId: string;
+  role: string;
+  timestamp: number;
+  model: string;
+  provider: string;
+  title?: string;
+  snippet: SnippetSegment[];
+  score: number;
+}
+
+export interface SearchFacets {
+  models: string[];
+  providers: string[];
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function isIndexedDBAvailable(): boolean {
+  return typeof window !== "undefined" && "indexedDB" in window;
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(MESSAGES_STORE)) {
+        const store = db.createObjectStore(MESSAGES_STORE, { keyPath: "key" });
+        store.createIndex("conversationId", "conversationId", { unique: false });
+      }
+      if (!db.objectStoreNames.contains(CONVERSATIONS_STORE)) {
+        db.createObjectStore(CONVERSATIONS_STORE, { keyPath: "id" });
+      }
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+
+  return dbPromise;
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+/**
+ * ID used for a stored message
+ * Matches the IDs lib/conversation-tree assigns to legacy messages without one
+ */
+export function getStoredMessageId(
+  message: StoredConversation["messages"][number],
+  index: number
+): string {
+  return message.id ?? `msg-${message.timestamp}-${index}`;
+}
+
+/**
+ * Replace the index records for one conversation
+ */
+export async function indexConversation(conversation: StoredConversation): Promise<void> {
+  if (!isIndexedDBAvailable()) return;
+
+  const db = await openDatabase();
+  const tx = db.transaction([MESSAGES_STORE, CONVERSATIONS_STORE], "readwrite");
+  const messages = tx.objectStore(MESSAGES_STORE);
+
+  // Drop previous records (messages may have been edited or branched)
+  const existingKeys = await requestToPromise(
+    messages.index("conversationId").getAllKeys(conversation.id)
+  );
+  existingKeys.forEach((key) => messages.delete(key));
+
+  const metadata = conversation.metadata;
+  conversation.messages.forEach((message, index) => {
+    if (message.role === "system") return; // UI notices, not conversation content
+
+    const messageId = getStoredMessageId(message, index);
+    const record: IndexedMessage = {
+      key: `${conversation.id}:${messageId}`,
+      conversationId: conversation.id,
+      messageId,
+      role: message.role,
+      content: message.content,
+      timestamp: message.timestamp,
+      model: metadata?.model || "unknown",
+      provider: metadata?.provider || "unknown",
+      conversationTimestamp: metadata?.timestamp || message.timestamp,
+      title: metadata?.title,
+    };
+    messages.put(record);
+  });
+
+  tx.objectStore(CONVERSATIONS_STORE).put({
+    id: conversation.id,
+    indexedTimestamp: metadata?.timestamp ?? 0,
+  });
+
+  await transactionDone(tx);
+}
+
+/**
+ * Index conversations that are new or changed since they were last indexed
+ */
+export async function syncSearchIndex(conversations: StoredConversation[]): Promise<number> {
+  if (!isIndexedDBAvailable()) return 0;
+
+  const db = await openDatabase();
+  const indexed = await requestToPromise(
+    db.transaction(CONVERSATIONS_STORE, "readonly").objectStore(CONVERSATIONS_STORE).getAll()
+  );
+  const indexedAt = new Map<string, number>(
+    indexed.map((entry: { id: string; indexedTimestamp: number }) => [entry.id, entry.indexedTimestamp])
+  );
+
+  let count = 0;
+  for (const conversation of conversations) {
+    if (!conversation?.id || !Array.isArray(conversation.messages)) continue;
+    if (indexedAt.get(conversation.id) === (conversation.metadata?.timestamp ?? 0)) continue;
+
+    await indexConversation(conversation);
+    count++;
+  }
+
+  if (count > 0) {
+    console.log(`🔎 Search index updated for ${count} conversation(s)`);
+  }
+  return count;
+}
+
+/**
+ * Split a query into lowercase terms
+ */
+export function tokenizeQuery(query: string): string[] {
+  return query
+    .toLowerCase()
+    .split(/\s+/)
+    .map((term) => term.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Build a snippet around the first match, marking every term occurrence
+ */
+export function buildSnippet(content: string, terms: string[]): SnippetSegment[] {
+  const lower = content.toLowerCase();
+  const first = Math.min(
+    ...terms.map((term) => {
+      const index = lower.indexOf(term);
+      return index === -1 ? Infinity : index;
+    })
+  );
+
+  const start = Number.isFinite(first) ? Math.max(0, first - SNIPPET_RADIUS) : 0;
+  const end = Math.min(content.length, (Number.isFinite(first) ? first : 0) + SNIPPET_RADIUS * 2);
+  const excerpt = content.slice(start, end).replace(/\s+/g, " ");
+
+  const escaped = terms.map((t) => t.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"));
+  const pattern = new RegExp(`(${escaped.join("|")})`, "gi");
+
+  const segments: SnippetSegment[] = excerpt
+    .split(pattern)
+    .filter((text) => text.length > 0)
+    .map((text) => ({ text, match: terms.includes(text.toLowerCase()) }));
+
+  if (start > 0) segments.unshift({ text: "…", match: false });
+  if (end < content.length) segments.push({ text: "…", match: false });
+  return segments;
+}
+
+function matchesFilters(record: IndexedMessage, filters: SearchFilters): boolean {
+  if (filters.model && record.model !== filters.model) return false;
+  if (filters.provider && record.provider.toLowerCase() !== filters.provider.toLowerCase()) {
+    return false;
+  }
+  if (filters.from !== undefined && record.timestamp < filters.from) return false;
+  if (filters.to !== undefined && record.timestamp > filters.to) return false;
+  return true;
+}
+
+/**
+ * Search indexed messages
+ * Every term must appear in the message; results are ranked by term count, then recency
+ */
+export async function searchConversations(
+  query: string,
+  filters: SearchFilters = {}
+): Promise<SearchResult[]> {
+  const terms = tokenizeQuery(query);
+  if (terms.length === 0 || !isIndexedDBAvailable()) return [];
+
+  const db = await openDatabase();
+  const records: IndexedMessage[] = await requestToPromise(
+    db.transaction(MESSAGES_STORE, "readonly").objectStore(MESSAGES_STORE).getAll()
+  );
+
+  const results: SearchResult[] = [];
+  for (const record of records) {
+    if (!matchesFilters(record, filters)) continue;
+
+    const lower = record.content.toLowerCase();
+    if (!terms.every((term) => lower.includes(term))) continue;
+
+    const score = terms.reduce((sum, term) => sum + lower.split(term).length - 1, 0);
+    results.push({
+      conversationId: record.conversationId,
+      messageId: record.messageId,
+      role: record.role,
+      timestamp: record.timestamp,
+      model: record.model,
+      provider: record.provider,
+      title: record.title,
+      snippet: buildSnippet(record.content, terms),
+      score,
+    });
+  }
+
+  return results
+    .sort((a, b) => b.score - a.score || b.timestamp - a.timestamp)
+    .slice(0, MAX_RESULTS);
+}
+
+/**
+ * Distinct models and hosts in the index (for filter dropdowns)
+ */
+export async function getSearchFacets(): Promise<SearchFacets> {
+  if (!isIndexedDBAvailable()) return { models: [], providers: [] };
+
+  const db = await openDatabase();
+  const records: IndexedMessage[] = await requestToPromise(
+    db.transaction(MESSAGES_STORE, "readonly").objectStore(MESSAGES_STORE).getAll()
+  );
+
+  return {
+    models: Array.from(new Set(records.map((r) => r.model))).sort(),
+    providers: Array.from(new Set(records.map((r) => r.provider))).sort(),
+  };
+}
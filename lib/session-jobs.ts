@@ -0,0 +1,167 @@
+// Copyright (c) 2025 Fabstir
+// SPDX-License-Identifier: BUSL-1.1
+
+/**
+ * Session Job State
+ *
+ * Reads a session job straight from the JobMarketplace contract so a session
+ * left behind by a reload can be matched with what happened on-chain:
+ * - still open: reconnect to the host and keep using the deposit
+ * - settled (completed, timed out or otherwise closed): show the payout and the refund
+ *
+ * Jobs are looked up by the job ID startSession returns, which isn't always the
+ * session ID. The contract ABI comes from the SDK, and fields are read by name.
+ */
+
+import { Abi, AbiFunction, Address, createPublicClient, http, zeroAddress } from "viem";
+import { baseSepolia } from "viem/chains";
+import { PaymentToken } from "@/types/chat";
+import { PAYMENT_SPLIT, RPC_URLS } from "@/lib/constants";
+import { PAYMENT_TOKEN_DECIMALS } from "@/lib/pricing";
+
+// SessionStatus value of a job that is still running (the enum's first member)
+const ACTIVE_SESSION_STATUS = 0;
+
+export type SessionJobStatus = "active" | "settled";
+
+export interface SessionJobState {
+  jobId: string;
+  status: SessionJobStatus;
+  hostAddress: string;
+  paymentToken: PaymentToken;
+  deposit: number; // Whole payment-token units
+  tokensUsed: number; // Proven on-chain
+  settled: number; // tokensUsed at the session price
+  hostPayout: number;
+  treasuryFee: number;
+  refund: number; // Returned (or, while open, still returnable) to the user
+  expiresAt: number; // ms; the host can no longer prove usage after this
+}
+
+/**
+ * Open sessions can be reconnected to; anything else has been (or will be) settled
+ */
+export function isSessionJobOpen(job: SessionJobState): boolean {
+  return job.status === "active" && Date.now() < job.expiresAt;
+}
+
+function toAmount(value: bigint, paymentToken: PaymentToken): number {
+  return Number(value) / 10 ** PAYMENT_TOKEN_DECIMALS[paymentToken];
+}
+
+function createSettlement(
+  deposit: number,
+  settled: number
+): Pick<SessionJobState, "settled" | "hostPayout" | "treasuryFee" | "refund"> {
+  return {
+    settled,
+    hostPayout: settled * PAYMENT_SPLIT.HOST,
+    treasuryFee: settled * PAYMENT_SPLIT.TREASURY,
+    refund: Math.max(0, deposit - settled),
+  };
+}
+
+/**
+ * A JobMarketplace function from the ABI the SDK ships
+ * Throws if this SDK version's ABI doesn't have it
+ */
+export async function loadJobMarketplaceFunction(name: string): Promise<AbiFunction> {
+  const { JobMarketplaceABI } = (await import("@fabstir/sdk-core")) as { JobMarketplaceABI?: Abi };
+  const fn = JobMarketplaceABI?.find(
+    (item): item is AbiFunction => item.type === "function" && item.name === name
+  );
+  if (!fn) throw new Error(`This SDK version doesn't provide the JobMarketplace ${name} ABI`);
+  return fn;
+}
+
+/**
+ * Read a session job from the JobMarketplace contract
+ * Throws if the job doesn't exist (never created, or created on another chain)
+ */
+export async function fetchSessionJobState(jobId: string): Promise<SessionJobState> {
+  const jobMarketplace = process.env.NEXT_PUBLIC_CONTRACT_JOB_MARKETPLACE;
+  if (!jobMarketplace) throw new Error("JobMarketplace address not configured");
+
+  const client = createPublicClient({
+    chain: baseSepolia,
+    transport: http(RPC_URLS.BASE_SEPOLIA),
+  });
+
+  const getter = await loadJobMarketplaceFunction("sessionJobs");
+  const result = await client.readContract({
+    address: jobMarketplace as Address,
+    abi: [getter],
+    functionName: "sessionJobs",
+    args: [BigInt(jobId)],
+  });
+
+  // Struct getters return one value per field, in the ABI's output order
+  const values = (Array.isArray(result) ? result : [result]) as readonly unknown[];
+  const field = <T>(name: string): T => {
+    const index = getter.outputs.findIndex((output) => output.name === name);
+    if (index === -1) throw new Error(`JobMarketplace ABI has no session job field "${name}"`);
+    return values[index] as T;
+  };
+
+  if (field<bigint>("id") === BigInt(0)) {
+    throw new Error(`Session job ${jobId} not found on-chain`);
+  }
+
+  const paymentTokenAddress = field<Address>("paymentToken");
+  const deposit = field<bigint>("deposit");
+  const tokensUsed = field<bigint>("tokensUsed");
+  const refundedToUser = field<bigint>("refundedToUser");
+  const paymentToken: PaymentToken = paymentTokenAddress === zeroAddress ? "ETH" : "USDC";
+  const depositAmount = toAmount(deposit, paymentToken);
+  const settlement = createSettlement(
+    depositAmount,
+    toAmount(tokensUsed * field<bigint>("pricePerToken"), paymentToken)
+  );
+  const jobStatus: SessionJobStatus =
+    Number(field<number>("status")) === ACTIVE_SESSION_STATUS ? "active" : "settled";
+
+  return {
+    jobId,
+    status: jobStatus,
+    hostAddress: field<Address>("host"),
+    paymentToken,
+    deposit: depositAmount,
+    tokensUsed: Number(tokensUsed),
+    ...settlement,
+    // Once settled, the contract records the actual refund
+    refund:
+      jobStatus !== "active" && refundedToUser > BigInt(0)
+        ? toAmount(refundedToUser, paymentToken)
+        : settlement.refund,
+    expiresAt: Number(field<bigint>("startTime") + field<bigint>("maxDuration")) * 1000,
+  };
+}
+
+/**
+ * Synthetic job state for mock mode: sessions saved within the last
+ * `openForMs` are still open; older ones were settled at the recorded usage
+ */
+export function createMockSessionJobState(params: {
+  jobId: string;
+  hostAddress: string;
+  paymentToken: PaymentToken;
+  deposit: number;
+  tokensUsed: number;
+  spent: number;
+  savedAt: number;
+  openForMs?: number;
+}): SessionJobState {
+  const { jobId, hostAddress, paymentToken, deposit, tokensUsed, spent, savedAt } = params;
+  const expiresAt = savedAt + (params.openForMs ?? 60 * 60 * 1000);
+
+  return {
+    jobId,
+    status: Date.now() < expiresAt ? "active" : "settled",
+    hostAddress,
+    paymentToken,
+    deposit,
+    tokensUsed,
+    ...createSettlement(deposit, spent),
+    expiresAt,
+  };
+}
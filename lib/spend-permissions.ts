@@ -10,13 +10,31 @@
  * - Spend Permission Manager (SPM): Base protocol contract at 0xf85210B21cC50302F477BA56686d2019dC9b67Ad
  * - Sub-accounts: Created with spend permissions for specific tokens
  * - Auto Spend Permissions: Allow transactions without popups after initial approval
+ * - Permission state (allowance, spend this period, expiry) is read from the SPM;
+ *   renewals and revocations are sent by the PRIMARY account as wallet_sendCalls batches
  */
 
+import { createPublicClient, encodeFunctionData, http, parseAbi } from "viem";
 import type { Address } from "viem";
+import { baseSepolia } from "viem/chains";
+import { RPC_URLS } from "@/lib/constants";
 
 // SpendPermissionManager address (deployed on Base & Base Sepolia)
 export const SPEND_PERMISSION_MANAGER = "0xf85210B21cC50302F477BA56686d2019dC9b67Ad" as Address;
 
+const SPEND_PERMISSION_MANAGER_ABI = parseAbi([
+  "struct SpendPermission { address account; address spender; address token; uint160 allowance; uint48 period; uint48 start; uint48 end; uint256 salt; bytes extraData; }",
+  "struct PeriodSpend { uint48 start; uint48 end; uint160 spend; }",
+  "function getCurrentPeriod(SpendPermission spendPermission) view returns (PeriodSpend)",
+  "function isRevoked(SpendPermission spendPermission) view returns (bool)",
+  "function isValid(SpendPermission spendPermission) view returns (bool)",
+  "function approve(SpendPermission spendPermission) returns (bool)",
+  "function revoke(SpendPermission spendPermission)",
+]);
+
+const BASE_SEPOLIA_CHAIN_ID = 84532;
+const SPEND_PERMISSION_TERMS_KEY = "fabstir_spend_permission_terms";
+
 export interface SpendPermission {
   account: Address;
   spender: Address;
@@ -103,24 +121,245 @@ export function createSendCallsParams(params: {
 }
 
 /**
- * Check if a sub-account has spend permissions
+ * A permission's current state on the SpendPermissionManager
+ * Amounts are in the token's smallest unit; times are in ms
+ */
+export interface SpendPermissionState {
+  permission: SpendPermission;
+  allowance: bigint; // Per period
+  spent: bigint; // In the current period
+  remaining: bigint;
+  periodStart: number;
+  periodEnd: number;
+  expiresAt: number;
+  isRevoked: boolean;
+  isExpired: boolean;
+  isActive: boolean; // Approved on-chain, not revoked, not expired
+}
+
+/**
+ * User-chosen terms for a new or renewed permission
+ */
+export interface SpendPermissionTerms {
+  allowance: bigint; // Per period, in the token's smallest unit
+  period: number; // Seconds
+  duration: number; // Seconds until the permission expires
+}
+
+/**
+ * Permissions `account` has granted to `spender`, from the wallet's permission
+ * service (coinbase_fetchPermissions)
+ */
+export async function fetchSpendPermissions(
+  provider: any,
+  account: Address,
+  spender: Address
+): Promise<SpendPermission[]> {
+  const response = await provider.request({
+    method: "coinbase_fetchPermissions",
+    params: [{ account, spender, chainId: `0x${BASE_SEPOLIA_CHAIN_ID.toString(16)}` }],
+  });
+
+  return (response?.permissions ?? []).map(({ permission }: any) => ({
+    account: permission.account,
+    spender: permission.spender,
+    token: permission.token,
+    allowance: BigInt(permission.allowance),
+    period: Number(permission.period),
+    start: Number(permission.start),
+    end: Number(permission.end),
+    salt: BigInt(permission.salt),
+    extraData: permission.extraData || "0x",
+  }));
+}
+
+/**
+ * Read a permission's allowance, spend this period and expiry from the SPM
+ */
+export async function readSpendPermissionState(
+  permission: SpendPermission
+): Promise<SpendPermissionState> {
+  const client = createPublicClient({
+    chain: baseSepolia,
+    transport: http(RPC_URLS.BASE_SEPOLIA),
+  });
+
+  // Args are spread into object literals: readContract can't infer the struct from an interface
+  const [isRevoked, isValid, currentPeriod] = await Promise.all([
+    client.readContract({
+      address: SPEND_PERMISSION_MANAGER,
+      abi: SPEND_PERMISSION_MANAGER_ABI,
+      functionName: "isRevoked",
+      args: [{ ...permission }],
+    }),
+    client.readContract({
+      address: SPEND_PERMISSION_MANAGER,
+      abi: SPEND_PERMISSION_MANAGER_ABI,
+      functionName: "isValid",
+      args: [{ ...permission }],
+    }),
+    // Reverts before the permission starts and after it ends
+    client
+      .readContract({
+        address: SPEND_PERMISSION_MANAGER,
+        abi: SPEND_PERMISSION_MANAGER_ABI,
+        functionName: "getCurrentPeriod",
+        args: [{ ...permission }],
+      })
+      .catch(() => null),
+  ]);
+
+  const now = Date.now();
+  const expiresAt = permission.end * 1000;
+  const isExpired = now >= expiresAt;
+  const spent = currentPeriod ? BigInt(currentPeriod.spend) : BigInt(0);
+
+  return {
+    permission,
+    allowance: permission.allowance,
+    spent,
+    remaining: permission.allowance > spent ? permission.allowance - spent : BigInt(0),
+    periodStart: currentPeriod ? currentPeriod.start * 1000 : permission.start * 1000,
+    periodEnd: currentPeriod ? currentPeriod.end * 1000 : expiresAt,
+    expiresAt,
+    isRevoked,
+    isExpired,
+    isActive: isValid && !isRevoked && !isExpired,
+  };
+}
+
+/**
+ * Check if a sub-account has an active spend permission for `token` with
+ * allowance left in the current period
  */
 export async function hasSpendPermission(
   provider: any,
+  account: Address,
   subAccount: Address,
   token: Address
 ): Promise<boolean> {
   try {
-    // This would require calling the SPM contract to check permissions
-    // For now, we'll assume if sub-account exists, permissions exist
-    // In production, implement proper permission checking
-    return true;
+    const permissions = await fetchSpendPermissions(provider, account, subAccount);
+    const states = await Promise.all(
+      permissions
+        .filter((p) => p.token.toLowerCase() === token.toLowerCase())
+        .map(readSpendPermissionState)
+    );
+    return states.some((state) => state.isActive && state.remaining > BigInt(0));
   } catch (error) {
     console.error("Error checking spend permission:", error);
     return false;
   }
 }
 
+/**
+ * A new permission from `account` to `spender` on the user's terms, starting now
+ */
+export function createSpendPermission(params: {
+  account: Address;
+  spender: Address;
+  token: Address;
+  terms: SpendPermissionTerms;
+}): SpendPermission {
+  const now = Math.floor(Date.now() / 1000);
+
+  return {
+    account: params.account,
+    spender: params.spender,
+    token: params.token,
+    allowance: params.terms.allowance,
+    period: params.terms.period,
+    start: now,
+    end: now + params.terms.duration,
+    salt: BigInt(Date.now()),
+    extraData: "0x",
+  };
+}
+
+/**
+ * Calls that revoke `permission` (sent by its account)
+ */
+export function createRevokeCalls(permission: SpendPermission): Array<{ to: Address; data: `0x${string}` }> {
+  return [
+    {
+      to: SPEND_PERMISSION_MANAGER,
+      data: encodeFunctionData({
+        abi: SPEND_PERMISSION_MANAGER_ABI,
+        functionName: "revoke",
+        args: [permission],
+      }),
+    },
+  ];
+}
+
+/**
+ * Calls that replace `current` (if still active) with `renewed`, as one atomic batch
+ */
+export function createRenewCalls(
+  renewed: SpendPermission,
+  current?: SpendPermission
+): Array<{ to: Address; data: `0x${string}` }> {
+  return [
+    ...(current ? createRevokeCalls(current) : []),
+    {
+      to: SPEND_PERMISSION_MANAGER,
+      data: encodeFunctionData({
+        abi: SPEND_PERMISSION_MANAGER_ABI,
+        functionName: "approve",
+        args: [renewed],
+      }),
+    },
+  ];
+}
+
+/**
+ * Send a batch of SPM calls from `from` (the permission's account) via wallet_sendCalls
+ * Returns the batch ID
+ */
+export async function sendSpendPermissionCalls(
+  provider: any,
+  from: Address,
+  calls: Array<{ to: Address; data: `0x${string}` }>
+): Promise<string> {
+  const result = await provider.request({
+    method: "wallet_sendCalls",
+    params: [
+      createSendCallsParams({
+        from,
+        chainId: `0x${BASE_SEPOLIA_CHAIN_ID.toString(16)}`,
+        calls,
+      }),
+    ],
+  });
+  return typeof result === "string" ? result : result?.id;
+}
+
+/**
+ * Terms the user last chose (used when creating the sub-account and renewing),
+ * or null to use the defaults
+ */
+export function loadSpendPermissionTerms(): SpendPermissionTerms | null {
+  if (typeof window === "undefined") return null;
+
+  try {
+    const stored = localStorage.getItem(SPEND_PERMISSION_TERMS_KEY);
+    if (!stored) return null;
+    const terms = JSON.parse(stored);
+    return { allowance: BigInt(terms.allowance), period: terms.period, duration: terms.duration };
+  } catch (error) {
+    console.error("Failed to load spend permission terms:", error);
+    return null;
+  }
+}
+
+export function saveSpendPermissionTerms(terms: SpendPermissionTerms): void {
+  if (typeof window === "undefined") return;
+  localStorage.setItem(
+    SPEND_PERMISSION_TERMS_KEY,
+    JSON.stringify({ ...terms, allowance: terms.allowance.toString() })
+  );
+}
+
 /**
  * Calculate default allowance for USDC spend permissions
  *
@@ -143,6 +382,7 @@ export function calculateDefaultAllowance(depositAmount: string): bigint {
 
 /**
  * Get default permission parameters for a session
+ * Offered until the user chooses their own terms (see loadSpendPermissionTerms)
  */
 export function getDefaultPermissionParams(params: {
   token: Address;
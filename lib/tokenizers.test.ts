@@ -0,0 +1,58 @@
+// Copyright (c) 2025 Fabstir
+// SPDX-License-Identifier: BUSL-1.1
+
+import { describe, expect, it } from "vitest";
+import {
+  ESTIMATE_TOKENIZER,
+  getTokenizerFamily,
+  loadTokenizer,
+} from "@/lib/tokenizers";
+import { getModelContextLimit } from "@/lib/context-manager";
+import { getModelId } from "@/lib/models";
+
+const PANGRAM = "The quick brown fox jumps over the lazy dog.";
+
+describe("llama3 tokenizer", () => {
+  it("matches known token counts", async () => {
+    const tokenizer = await loadTokenizer("llama-3.2-1b-instruct.q4_k_m.gguf");
+
+    expect(tokenizer.family).toBe("llama3");
+    expect(tokenizer.countTokens("Hello world!")).toBe(3);
+    expect(tokenizer.countTokens(PANGRAM)).toBe(10);
+    expect(tokenizer.countTokens("")).toBe(0);
+  });
+});
+
+describe("llama tokenizer (Llama 1/2, Vicuna)", () => {
+  it("matches known token counts", async () => {
+    const tokenizer = await loadTokenizer("tiny-vicuna-1b.q4_k_m.gguf");
+
+    expect(tokenizer.family).toBe("llama");
+    expect(tokenizer.countTokens("Hello world!")).toBe(3);
+    expect(tokenizer.countTokens(PANGRAM)).toBe(12);
+    expect(tokenizer.countTokens("")).toBe(0);
+  });
+});
+
+describe("estimate fallback", () => {
+  it("counts ~4 characters per token", () => {
+    expect(ESTIMATE_TOKENIZER.countTokens("")).toBe(0);
+    expect(ESTIMATE_TOKENIZER.countTokens("Hello world!")).toBe(3);
+    expect(ESTIMATE_TOKENIZER.countTokens(PANGRAM)).toBe(11);
+  });
+
+  it("is used for unknown models", async () => {
+    expect(getTokenizerFamily("mistral-7b")).toBe("estimate");
+    expect(await loadTokenizer()).toBe(ESTIMATE_TOKENIZER);
+  });
+});
+
+describe("model IDs", () => {
+  it("map to the model file's tokenizer and context limit", () => {
+    const id = getModelId("CohereForAI/TinyVicuna-1B-32k-GGUF", "tiny-vicuna-1b.q4_k_m.gguf");
+
+    expect(getTokenizerFamily(id)).toBe("llama");
+    expect(getModelContextLimit(id)).toBe(2048);
+    expect(getTokenizerFamily(`0x${"ab".repeat(32)}`)).toBe("estimate");
+  });
+});
@@ -0,0 +1,101 @@
+// Copyright (c) 2025 Fabstir
+// SPDX-License-Identifier: BUSL-1.1
+
+/**
+ * Tokenizers
+ *
+ * Counts tokens the way each model family does, entirely in the browser.
+ * Tokenizer vocabularies are large, so each family is loaded on first use
+ * (dynamic import) and cached. Until a tokenizer is ready, or for unknown
+ * models, counts fall back to the ~4 characters per token estimate.
+ *
+ * Add a family with registerTokenizer() and map models to it in
+ * MODEL_TOKENIZER_FAMILIES. ModelRegistry IDs advertised by hosts are mapped
+ * to model files first (see lib/models).
+ */
+
+import { resolveModelFile } from "@/lib/models";
+
+export interface Tokenizer {
+  family: string;
+  countTokens: (text: string) => number;
+}
+
+export type TokenizerLoader = () => Promise<Tokenizer>;
+
+// Character-based estimate used before (or instead of) a real tokenizer
+export const ESTIMATE_TOKENIZER: Tokenizer = {
+  family: "estimate",
+  countTokens: (text) => Math.ceil(text.length / 4),
+};
+
+const TOKENIZER_LOADERS: Record<string, TokenizerLoader> = {
+  // Llama 3.x: tiktoken-style BPE with a 128k vocabulary
+  llama3: async () => {
+    const { default: tokenizer } = await import("llama3-tokenizer-js");
+    return {
+      family: "llama3",
+      countTokens: (text) => tokenizer.encode(text, { bos: false, eos: false }).length,
+    };
+  },
+  // Llama 1/2 SentencePiece vocabulary (also used by Vicuna and TinyLlama derivatives)
+  llama: async () => {
+    const { default: tokenizer } = await import("llama-tokenizer-js");
+    return {
+      family: "llama",
+      countTokens: (text) => (text ? tokenizer.encode(text, false).length : 0),
+    };
+  },
+  estimate: async () => ESTIMATE_TOKENIZER,
+};
+
+// Tokenizer family per model, keyed by AVAILABLE_MODELS IDs
+export const MODEL_TOKENIZER_FAMILIES: Record<string, string> = {
+  "tiny-vicuna-1b.q4_k_m.gguf": "llama",
+  "llama-3.2-1b-instruct.q4_k_m.gguf": "llama3",
+  "llama-3.2-3b-instruct.q4_k_m.gguf": "llama3",
+};
+
+const loadedTokenizers = new Map<string, Promise<Tokenizer>>();
+
+/**
+ * Register (or replace) the loader for a tokenizer family
+ */
+export function registerTokenizer(family: string, loader: TokenizerLoader): void {
+  TOKENIZER_LOADERS[family] = loader;
+  loadedTokenizers.delete(family);
+}
+
+/**
+ * Tokenizer family for a model, falling back to the model-name family, then the estimate
+ */
+export function getTokenizerFamily(model?: string): string {
+  const file = resolveModelFile(model);
+  if (!file) return "estimate";
+  if (MODEL_TOKENIZER_FAMILIES[file]) return MODEL_TOKENIZER_FAMILIES[file];
+
+  const name = file.toLowerCase();
+  if (name.includes("llama-3") || name.includes("llama3")) return "llama3";
+  if (name.includes("vicuna") || name.includes("llama")) return "llama";
+  return "estimate";
+}
+
+/**
+ * Load (once) the tokenizer for a model
+ * Never rejects: a failed load falls back to the estimate
+ */
+export function loadTokenizer(model?: string): Promise<Tokenizer> {
+  const family = getTokenizerFamily(model);
+  const cached = loadedTokenizers.get(family);
+  if (cached) return cached;
+
+  const loader = TOKENIZER_LOADERS[family] ?? TOKENIZER_LOADERS.estimate;
+  const promise = loader().catch((error) => {
+    console.warn(`⚠️  Failed to load ${family} tokenizer, using estimate:`, error);
+    loadedTokenizers.delete(family);
+    return ESTIMATE_TOKENIZER;
+  });
+
+  loadedTokenizers.set(family, promise);
+  return promise;
+}
@@ -0,0 +1,58 @@
+// Copyright (c) 2025 Fabstir
+// SPDX-License-Identifier: BUSL-1.1
+
+import { describe, expect, it, vi } from "vitest";
+import {
+  findExceededQuota,
+  getPeriodSpend,
+  getQuotaUsage,
+  recordSpend,
+  SpendLedger,
+  subscribeToSpendLedger,
+} from "@/lib/usage-quotas";
+
+const NOW = new Date(2025, 5, 15, 12);
+
+const LEDGER: SpendLedger = {
+  "2025-05-31": { USDC: 10 },
+  "2025-06-01": { USDC: 3, ETH: 0.01 },
+  "2025-06-15": { USDC: 2, ETH: 0.002 },
+};
+
+describe("getPeriodSpend", () => {
+  it("sums each token separately per calendar day and month", () => {
+    expect(getPeriodSpend(LEDGER, "USDC", NOW)).toEqual({ daily: 2, monthly: 5 });
+    expect(getPeriodSpend(LEDGER, "ETH", NOW)).toEqual({ daily: 0.002, monthly: 0.012 });
+  });
+});
+
+describe("getQuotaUsage", () => {
+  it("only reports quotas set for the token", () => {
+    const usage = getQuotaUsage({ daily: { USDC: 5 }, monthly: { ETH: 0.1 } }, LEDGER, "USDC", NOW);
+
+    expect(usage).toEqual([{ period: "daily", paymentToken: "USDC", spent: 2, limit: 5, remaining: 3 }]);
+  });
+});
+
+describe("findExceededQuota", () => {
+  it("blocks an amount that would go over the limit", () => {
+    const usage = getQuotaUsage({ monthly: { USDC: 8 } }, LEDGER, "USDC", NOW);
+
+    expect(findExceededQuota(usage, 3)).toBeNull();
+    expect(findExceededQuota(usage, 4)?.period).toBe("monthly");
+  });
+});
+
+describe("subscribeToSpendLedger", () => {
+  it("tells every subscriber about recorded spend until it unsubscribes", () => {
+    const listener = vi.fn();
+    const unsubscribe = subscribeToSpendLedger(listener);
+
+    recordSpend(1.5, "USDC", NOW);
+    expect(listener).toHaveBeenCalledWith({ "2025-06-15": { USDC: 1.5 } });
+
+    unsubscribe();
+    recordSpend(1, "USDC", NOW);
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+});
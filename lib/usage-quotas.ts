@@ -0,0 +1,201 @@
+// Copyright (c) 2025 Fabstir
+// SPDX-License-Identifier: BUSL-1.1
+
+/**
+ * Usage Quotas
+ *
+ * Account-wide spending budgets ("no more than $5/day, $50/month") on top of
+ * the per-session spending cap.
+ *
+ * Key Concepts:
+ * - Quotas are set per payment token. There is no price feed to convert
+ *   between tokens, so each token's spend only counts against its own quota
+ * - Spend is recorded per reply in a ledger of daily totals, kept for the
+ *   current and previous month (the session history only keeps 50 sessions)
+ * - Periods are calendar days and months in the user's local time
+ * - Every chat session in the tab (e.g. both sides of compare mode) sees each
+ *   recorded spend through `subscribeToSpendLedger`
+ */
+
+import type { SessionAnalytics } from "@/lib/analytics";
+import { PaymentToken, TokenAmounts } from "@/types/chat";
+import { formatTokenAmount } from "@/lib/pricing";
+
+const SPEND_LEDGER_STORAGE_KEY = "fabstir_spend_ledger";
+
+type SpendLedgerListener = (ledger: SpendLedger) => void;
+const ledgerListeners = new Set<SpendLedgerListener>();
+
+export type QuotaPeriod = "daily" | "monthly";
+
+export type UsageQuotas = Partial<Record<QuotaPeriod, TokenAmounts>>;
+
+// Spend per token for each local day ("YYYY-MM-DD")
+export type SpendLedger = Record<string, TokenAmounts>;
+
+export interface QuotaUsage {
+  period: QuotaPeriod;
+  paymentToken: PaymentToken;
+  spent: number;
+  limit: number;
+  remaining: number;
+}
+
+export const QUOTA_PERIOD_LABELS: Record<QuotaPeriod, string> = {
+  daily: "Daily",
+  monthly: "Monthly",
+};
+
+const QUOTA_RESET_LABELS: Record<QuotaPeriod, string> = {
+  daily: "tomorrow",
+  monthly: "next month",
+};
+
+function getPeriodStart(period: QuotaPeriod, now: Date): Date {
+  return period === "daily"
+    ? new Date(now.getFullYear(), now.getMonth(), now.getDate())
+    : new Date(now.getFullYear(), now.getMonth(), 1);
+}
+
+function getDayKey(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/**
+ * Ledger built from the session history (sessions count on the day they ended)
+ * Sessions recorded before the token was tracked are counted as USDC
+ */
+function createLedgerFromHistory(history: SessionAnalytics[]): SpendLedger {
+  const ledger: SpendLedger = {};
+  for (const session of history) {
+    const cost = Number(session.totalCost) || 0;
+    if (cost <= 0) continue;
+    addToLedger(ledger, cost, session.paymentToken ?? "USDC", new Date(session.endTime ?? session.startTime));
+  }
+  return ledger;
+}
+
+function addToLedger(ledger: SpendLedger, amount: number, paymentToken: PaymentToken, at: Date): void {
+  const day = getDayKey(at);
+  ledger[day] = { ...ledger[day], [paymentToken]: (ledger[day]?.[paymentToken] ?? 0) + amount };
+}
+
+/**
+ * Stored spend ledger; the first time, it is seeded from `history`
+ */
+export function loadSpendLedger(history: SessionAnalytics[] = []): SpendLedger {
+  if (typeof window === "undefined") return {};
+
+  try {
+    const stored = localStorage.getItem(SPEND_LEDGER_STORAGE_KEY);
+    if (stored) return JSON.parse(stored);
+  } catch (error) {
+    console.error("Failed to load spend ledger:", error);
+  }
+
+  const seeded = createLedgerFromHistory(history);
+  localStorage.setItem(SPEND_LEDGER_STORAGE_KEY, JSON.stringify(seeded));
+  return seeded;
+}
+
+/**
+ * Add spend to today's total and drop days before the previous month
+ * Returns the updated ledger
+ */
+export function recordSpend(
+  amount: number,
+  paymentToken: PaymentToken,
+  at: Date = new Date()
+): SpendLedger {
+  const ledger = loadSpendLedger();
+  if (amount > 0) addToLedger(ledger, amount, paymentToken, at);
+
+  const oldestKept = getDayKey(new Date(at.getFullYear(), at.getMonth() - 1, 1));
+  for (const day of Object.keys(ledger)) {
+    if (day < oldestKept) delete ledger[day];
+  }
+
+  if (typeof window !== "undefined") {
+    localStorage.setItem(SPEND_LEDGER_STORAGE_KEY, JSON.stringify(ledger));
+  }
+  ledgerListeners.forEach((listener) => listener(ledger));
+  return ledger;
+}
+
+/**
+ * Call `listener` with the updated ledger whenever spend is recorded
+ * Returns the unsubscribe function
+ */
+export function subscribeToSpendLedger(listener: SpendLedgerListener): () => void {
+  ledgerListeners.add(listener);
+  return () => {
+    ledgerListeners.delete(listener);
+  };
+}
+
+/**
+ * Spend per period in `paymentToken`
+ */
+export function getPeriodSpend(
+  ledger: SpendLedger,
+  paymentToken: PaymentToken,
+  now: Date = new Date()
+): Record<QuotaPeriod, number> {
+  const dayStart = getDayKey(getPeriodStart("daily", now));
+  const monthStart = getDayKey(getPeriodStart("monthly", now));
+  const spend: Record<QuotaPeriod, number> = { daily: 0, monthly: 0 };
+
+  for (const [day, amounts] of Object.entries(ledger)) {
+    const cost = Number(amounts[paymentToken]) || 0;
+    if (day >= monthStart) spend.monthly += cost;
+    if (day >= dayStart) spend.daily += cost;
+  }
+
+  return spend;
+}
+
+/**
+ * Usage of each quota configured for `paymentToken`
+ */
+export function getQuotaUsage(
+  quotas: UsageQuotas,
+  ledger: SpendLedger,
+  paymentToken: PaymentToken,
+  now: Date = new Date()
+): QuotaUsage[] {
+  const spend = getPeriodSpend(ledger, paymentToken, now);
+  const periods: QuotaPeriod[] = ["daily", "monthly"];
+
+  return periods
+    .filter((period) => (quotas[period]?.[paymentToken] ?? 0) > 0)
+    .map((period) => {
+      const spent = spend[period];
+      const limit = quotas[period]![paymentToken]!;
+      return { period, paymentToken, spent, limit, remaining: Math.max(0, limit - spent) };
+    });
+}
+
+/**
+ * First quota that spending `amount` more would exceed (any quota already used up
+ * blocks even a zero amount), or null when within every quota
+ */
+export function findExceededQuota(usage: QuotaUsage[], amount = 0): QuotaUsage | null {
+  return (
+    usage.find((quota) => quota.remaining <= 0 || quota.spent + amount > quota.limit) ?? null
+  );
+}
+
+/**
+ * User-facing explanation of why a quota blocks spending `amount` more
+ * `subject` names what would be spent (a prompt, or a session's deposit)
+ */
+export function describeQuotaLimit(quota: QuotaUsage, amount = 0, subject = "This prompt"): string {
+  const format = (value: number) => formatTokenAmount(value, quota.paymentToken);
+  const spent = `${format(quota.spent)} of your ${format(quota.limit)} ${quota.period} ${quota.paymentToken} quota used`;
+
+  return quota.remaining <= 0
+    ? `${QUOTA_PERIOD_LABELS[quota.period]} spending quota reached (${spent}). ` +
+        `Raise it in Advanced Settings or wait until ${QUOTA_RESET_LABELS[quota.period]}.`
+    : `${subject} (~${format(amount)}) would exceed your ${quota.period} spending quota (${spent}).`;
+}
@@ -1,9 +1,78 @@
 // Copyright (c) 2025 Fabstir
 // SPDX-License-Identifier: BUSL-1.1
 
+/**
+ * Lifecycle of an assistant reply:
+ * - streaming: placeholder is receiving chunks from the host
+ * - complete: full response received and cleaned
+ * - error: the prompt failed part-way through
+ */
+export type ChatMessageStatus = "streaming" | "complete" | "error";
+
+export type PaymentToken = "USDC" | "ETH";
+
+// An amount per payment token, in whole token units (a missing token = unset)
+export type TokenAmounts = Partial<Record<PaymentToken, number>>;
+
+/**
+ * What a single prompt/response exchange cost, priced at the host's rate
+ */
+export interface MessageReceipt {
+  inputTokens: number;
+  outputTokens: number;
+  hostAddress: string;
+  pricePerToken: string;  // Smallest unit (micro-USDC or wei), as a string so it survives JSON
+  paymentToken: PaymentToken;
+  cost: number;  // In whole payment-token units
+}
+
+/**
+ * A proof checkpoint submitted by the host, settling a range of session tokens on-chain
+ */
+export interface ProofCheckpoint {
+  checkpointNumber: number;
+  startToken: number;  // First session token covered
+  endToken: number;  // One past the last token covered
+  timestamp: number;
+  txHash?: string;
+  amount: number;  // Settled, in whole payment-token units
+  paymentToken: PaymentToken;
+}
+
+export type AttachmentKind = "text" | "markdown" | "code" | "pdf";
+
+/**
+ * A local file attached to a prompt, kept as the text extracted in the browser
+ */
+export interface ChatAttachment {
+  id: string;
+  name: string;
+  kind: AttachmentKind;
+  size: number;  // Original file size in bytes
+  content: string;  // Extracted text (untruncated)
+  tokens: number;  // Estimate for the full content
+}
+
+/**
+ * How long the host took to answer a prompt
+ */
+export interface ResponseTiming {
+  firstTokenMs?: number;  // Until the first streamed chunk (unset if nothing streamed)
+  totalMs: number;  // Until the reply finished or was stopped
+}
+
 export interface ChatMessage {
+  id?: string;  // Stable ID so streaming chunks can target the right bubble
+  parentId?: string | null;  // Previous message on this branch (null = first message)
   role: "user" | "assistant" | "system";
   content: string;
   timestamp: number;
-  tokens?: number;
+  tokens?: number;  // inputTokens + outputTokens
+  inputTokens?: number;  // Full prompt sent to the host (context included)
+  outputTokens?: number;  // Generated reply
+  status?: ChatMessageStatus;
+  truncated?: boolean;  // Generation was stopped before the model finished
+  receipt?: MessageReceipt;  // Assistant replies only
+  timing?: ResponseTiming;  // Assistant replies only
+  attachments?: ChatAttachment[];  // User prompts only
 }